@@ -2,7 +2,7 @@ import { strict as assert } from "assert"
 import { describe, it } from "mocha"
 import { normalizeTupleBounds } from "../helpers/sortedTupleArray"
 import { Tuple } from "../storage/types"
-import { ConcurrencyLog } from "./ConcurrencyLog"
+import { ConcurrencyLog, ReadWriteConflictError } from "./ConcurrencyLog"
 
 function bounds(prefix: Tuple) {
 	return normalizeTupleBounds({ prefix })
@@ -29,7 +29,79 @@ describe("ConcurrencyLog", () => {
 		assert.deepEqual(log.log, [])
 	})
 
-	it.skip("Keeps writes that conflict with reads of other transactions.")
+	it("Writes after a transaction began conflict with its later reads.", () => {
+		const log = new ConcurrencyLog()
+
+		log.begin("tx1")
+		log.write("tx2", [2])
+		log.read("tx1", bounds([2]))
+		log.read("tx3", bounds([2]))
+
+		assert.doesNotThrow(() => log.commit("tx3"))
+		assert.throws(() => log.commit("tx1"))
+		assert.deepEqual(log.log, [])
+	})
+
+	it("Range writes conflict with overlapping reads.", () => {
+		const log = new ConcurrencyLog()
+
+		log.read("tx1", bounds([2]))
+		log.writeRange("tx2", bounds([1]))
+		log.writeRange("tx2", { gt: [2, 1], lt: [3] })
+
+		assert.deepEqual(log.log, [
+			{ type: "read", txId: "tx1", bounds: bounds([2]) },
+			{ type: "writeRange", txId: "tx2", bounds: { gt: [2, 1], lt: [3] } },
+		])
+		assert.throws(() => log.commit("tx1"))
+	})
+
+	it("Keeps writes that conflict with reads of other transactions.", () => {
+		const log = new ConcurrencyLog()
+
+		log.read("tx1", bounds([2]))
+		log.read("tx2", bounds([2]))
+		log.write("tx3", [2])
+
+		assert.throws(() => log.commit("tx1"))
+		assert.deepEqual(log.log, [
+			{ type: "read", txId: "tx2", bounds: bounds([2]) },
+			{ type: "write", txId: "tx3", tuple: [2] },
+		])
+
+		assert.throws(() => log.commit("tx2"))
+		assert.deepEqual(log.log, [])
+	})
+
+	it("Can cancel a transaction to clean up the log.", () => {
+		const log = new ConcurrencyLog()
+
+		log.begin("tx1")
+		log.read("tx1", bounds([1]))
+		log.write("tx2", [1])
+		log.write("tx2", [2])
+		assert.equal(log.log.length, 4)
+
+		log.cancel("tx1")
+		assert.deepEqual(log.log, [])
+	})
 
-	it.skip("Can cancel a transaction to clean up the log.")
+	it("Describes the conflict on the error.", () => {
+		const log = new ConcurrencyLog()
+
+		log.read("tx1", bounds([2]))
+		log.write("tx2", [2, 1])
+
+		assert.throws(
+			() => log.commit("tx1"),
+			(error) => {
+				assert.ok(error instanceof ReadWriteConflictError)
+				assert.equal(error.txId, "tx2")
+				assert.equal(error.readTxId, "tx1")
+				assert.deepEqual(error.write, [2, 1])
+				assert.deepEqual(error.readBounds, bounds([2]))
+				return true
+			}
+		)
+	})
 })
@@ -1,4 +1,13 @@
-import { mutableFilter } from "../helpers/mutableFilter"
+import { BTree } from "../helpers/BTree"
+import { compare } from "../helpers/compare"
+import { compareTuple } from "../helpers/compareTuple"
+import {
+	boundsInterval,
+	Interval,
+	IntervalEntry,
+	IntervalTree,
+} from "../helpers/IntervalTree"
+import { isBoundsOverlappingBounds } from "../helpers/isBoundsOverlappingBounds"
 import { outdent } from "../helpers/outdent"
 import { Bounds, isTupleWithinBounds } from "../helpers/sortedTupleArray"
 import { Tuple } from "../storage/types"
@@ -6,15 +15,49 @@ import { TxId } from "./types"
 
 type ReadItem = { type: "read"; bounds: Bounds; txId: TxId }
 type WriteItem = { type: "write"; tuple: Tuple; txId: TxId | undefined }
+type RangeWriteItem = {
+	type: "writeRange"
+	bounds: Bounds
+	txId: TxId | undefined
+}
+type BeginItem = { type: "begin"; txId: TxId }
+
+type LogItem = ReadItem | WriteItem | RangeWriteItem | BeginItem
+
+/** Every item gets the next version so that we know the order of the log. */
+type Versioned<T extends LogItem> = { item: T; version: number }
 
-type LogItem = ReadItem | WriteItem
+type ReadEntry = IntervalEntry<Tuple, Versioned<ReadItem>>
+type WriteEntry = IntervalEntry<Tuple, Versioned<WriteItem | RangeWriteItem>>
+
+function isConflict(item: WriteItem | RangeWriteItem, read: Bounds) {
+	if (item.type === "write") return isTupleWithinBounds(item.tuple, read)
+	return isBoundsOverlappingBounds(item.bounds, read)
+}
+
+function writeInterval(item: WriteItem | RangeWriteItem): Interval<Tuple> {
+	if (item.type === "write") return { low: item.tuple, high: item.tuple }
+	return boundsInterval(item.bounds)
+}
 
 export class ReadWriteConflictError extends Error {
-	constructor(txId: string | undefined, writeTuple: Tuple, readBounds: Bounds) {
+	constructor(
+		/** The transaction that made the conflicting write. */
+		public txId: string | undefined,
+		/** The tuple or the bounds, such as a clear, that were written. */
+		public write: Tuple | Bounds,
+		public readBounds: Bounds,
+		/** The transaction that read and can no longer commit. */
+		public readTxId?: TxId
+	) {
+		const description = Array.isArray(write)
+			? `Write to tuple ${JSON.stringify(write)}`
+			: `Write to the bounds ${JSON.stringify(write)}`
 		const message = outdent(`
       ReadWriteConflictError: ${txId}
-      Write to tuple ${writeTuple}
-      conflicted with a read at the bounds ${readBounds}
+      ${description}
+      conflicted with a read at the bounds ${JSON.stringify(readBounds)}
+      by the transaction ${readTxId}
     `)
 
 		super(message)
@@ -22,80 +65,191 @@ export class ReadWriteConflictError extends Error {
 }
 
 export class ConcurrencyLog {
-	// O(n) refers to this.log.length
-	log: LogItem[] = []
+	// O(log n) refers to the number of reads or writes in the log and k to the
+	// number of them that overlap.
+	private version = 0
+
+	private reads = new IntervalTree<Tuple, Versioned<ReadItem>>(compareTuple)
+	private txReads = new Map<TxId, ReadEntry[]>()
+
+	private writes = new IntervalTree<
+		Tuple,
+		Versioned<WriteItem | RangeWriteItem>
+	>(compareTuple)
+
+	// Versions only go up so the first transaction in the map began first.
+	private begins = new Map<TxId, Versioned<BeginItem>>()
+
+	// Writes that are only kept because a transaction began before them, by
+	// version, so that we can clean them up once that transaction is done.
+	private beginWrites = new BTree<number, WriteEntry>(compare)
+
+	// O(n log n)
+	/** Every item in the log in the order that it was recorded. */
+	get log(): LogItem[] {
+		const items: Versioned<LogItem>[] = [
+			...this.reads.values(),
+			...this.writes.values(),
+			...this.begins.values(),
+		]
+		items.sort((a, b) => a.version - b.version)
+		return items.map(({ item }) => item)
+	}
 
 	// O(1)
+	/**
+	 * Record the start of a transaction that reads from a snapshot. Any write
+	 * after this point can conflict with its reads.
+	 */
+	begin(txId: TxId) {
+		if (this.begins.has(txId)) return
+		const item: BeginItem = { type: "begin", txId }
+		this.begins.set(txId, { item, version: this.version++ })
+	}
+
+	// O(log n)
 	/** Record a read. */
 	read(txId: TxId, bounds: Bounds) {
-		this.log.push({ type: "read", txId, bounds })
+		const item: ReadItem = { type: "read", txId, bounds }
+		const entry = this.reads.insert(boundsInterval(bounds), {
+			item,
+			version: this.version++,
+		})
+		const txReads = this.txReads.get(txId)
+		if (txReads) txReads.push(entry)
+		else this.txReads.set(txId, [entry])
 	}
 
-	// O(n)
+	// O(log n + k)
 	/** Add writes to the log only if there is a conflict with a read. */
 	write(txId: TxId | undefined, tuple: Tuple) {
-		for (const item of this.log) {
-			if (item.type === "read" && isTupleWithinBounds(tuple, item.bounds)) {
-				this.log.push({ type: "write", tuple, txId })
-				break
+		this.logWrite({ type: "write", tuple, txId })
+	}
+
+	// O(log n + k)
+	/**
+	 * Add a write to every tuple within the bounds, such as a clear, only if
+	 * there is a conflict with a read.
+	 */
+	writeRange(txId: TxId | undefined, bounds: Bounds) {
+		this.logWrite({ type: "writeRange", bounds, txId })
+	}
+
+	private logWrite(item: WriteItem | RangeWriteItem) {
+		const version = this.version++
+		// A transaction that has begun may read this range later.
+		const begun = this.begins.size > 0
+		if (!begun && !this.hasConflictingRead(item, version)) return
+
+		const entry = this.writes.insert(writeInterval(item), { item, version })
+		if (begun) this.beginWrites.set(version, entry)
+	}
+
+	/** Whether a read from before this write conflicts with it. */
+	private hasConflictingRead(
+		item: WriteItem | RangeWriteItem,
+		version: number
+	) {
+		for (const read of this.reads.overlapping(writeInterval(item))) {
+			if (read.version < version && isConflict(item, read.item.bounds)) {
+				return true
 			}
 		}
+		return false
 	}
 
-	// O(n^2/4)
+	// O(r * (log n + k)) where r is the number of reads in this transaction.
 	/** Determine if any reads conflict with writes. */
 	commit(txId: TxId) {
 		try {
-			const reads: Bounds[] = []
-			for (const item of this.log) {
-				if (item.type === "read") {
-					if (item.txId === txId) {
-						reads.push(item.bounds)
-					}
-				} else if (item.type === "write") {
-					for (const read of reads) {
-						if (isTupleWithinBounds(item.tuple, read)) {
-							throw new ReadWriteConflictError(item.txId, item.tuple, read)
-						}
-					}
+			// Reads from a snapshot conflict with every write since the transaction
+			// began, even if the write happened before the read.
+			const begin = this.begins.get(txId)
+
+			// Report the earliest write that conflicts.
+			let conflict:
+				| { write: Versioned<WriteItem | RangeWriteItem>; read: Bounds }
+				| undefined
+			for (const { value: read } of this.txReads.get(txId) || []) {
+				const after = begin ? begin.version : read.version
+				for (const write of this.writes.overlapping(
+					boundsInterval(read.item.bounds)
+				)) {
+					if (write.version < after) continue
+					if (conflict && conflict.write.version < write.version) continue
+					if (!isConflict(write.item, read.item.bounds)) continue
+					conflict = { write, read: read.item.bounds }
 				}
 			}
+
+			if (conflict) {
+				const { item } = conflict.write
+				throw new ReadWriteConflictError(
+					item.txId,
+					item.type === "write" ? item.tuple : item.bounds,
+					conflict.read,
+					txId
+				)
+			}
 		} finally {
-			this.cleanupReads(txId)
-			this.cleanupWrites()
+			this.cleanup(txId)
 		}
 	}
 
 	cancel(txId: TxId) {
-		this.cleanupReads(txId)
-		this.cleanupWrites()
+		this.cleanup(txId)
 	}
 
-	// O(n)
-	/** Cleanup any reads for this transaction. */
-	cleanupReads(txId: string) {
-		mutableFilter(this.log, (item) => {
-			const txRead = item.txId === txId && item.type === "read"
-			return !txRead
-		})
-	}
+	// O(r * (log n + k))
+	/**
+	 * Cleanup any reads for this transaction and then any writes that no longer
+	 * have conflicting reads.
+	 */
+	private cleanup(txId: TxId) {
+		const reads = this.txReads.get(txId) || []
+		this.txReads.delete(txId)
+		for (const read of reads) this.reads.remove(read)
 
-	// O(n)
-	/** Cleanup any writes that don't have conflicting reads. */
-	cleanupWrites() {
-		const reads: Bounds[] = []
-		mutableFilter(this.log, (item) => {
-			if (item.type === "read") {
-				reads.push(item.bounds)
-				return true
-			} else {
-				for (const read of reads) {
-					if (isTupleWithinBounds(item.tuple, read)) {
-						return true
-					}
-				}
-				return false
+		const begin = this.begins.get(txId)
+		this.begins.delete(txId)
+
+		// Only writes that overlapped with these reads could have lost their
+		// conflicting read.
+		const writes = new Set<WriteEntry>()
+		for (const { value: read } of reads) {
+			for (const write of this.writes.entries(
+				boundsInterval(read.item.bounds)
+			)) {
+				if (write.value.version > read.version) writes.add(write)
 			}
-		})
+		}
+
+		// When the first transaction to begin is done, the writes between it and
+		// the next one no longer need to be kept for a snapshot.
+		const first = this.firstBegin()
+		if (begin && (first === undefined || first > begin.version)) {
+			for (const { value } of this.beginWrites.iterate({ lt: first })) {
+				writes.add(value)
+			}
+		}
+
+		for (const write of writes) this.cleanupWrite(write)
+	}
+
+	private firstBegin(): number | undefined {
+		for (const { version } of this.begins.values()) return version
+	}
+
+	/** Remove a write unless a read or a transaction began before it. */
+	private cleanupWrite(entry: WriteEntry) {
+		const { item, version } = entry.value
+		const first = this.firstBegin()
+		if (first !== undefined && first < version) {
+			this.beginWrites.set(version, entry)
+			return
+		}
+		this.beginWrites.delete(version)
+		if (this.hasConflictingRead(item, version)) return
+		this.writes.remove(entry)
 	}
 }
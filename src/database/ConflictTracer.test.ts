@@ -0,0 +1,45 @@
+import { strict as assert } from "assert"
+import { describe, it } from "mocha"
+import { ReadWriteConflictError } from "./ConcurrencyLog"
+import { ConflictTracer } from "./ConflictTracer"
+
+describe("ConflictTracer", () => {
+	it("Counts the hot spots of the conflicts.", () => {
+		const tracer = new ConflictTracer()
+		const score = { gte: ["score"], lt: ["score", true] }
+		const total = { gte: ["total"], lte: ["total"] }
+
+		tracer.record(new ReadWriteConflictError("tx2", ["total"], total, "tx1"))
+		tracer.record(new ReadWriteConflictError("tx3", ["score", 1], score, "tx1"))
+		tracer.record(new ReadWriteConflictError("tx4", ["score", 2], score, "tx5"))
+
+		assert.deepEqual(tracer.hotReads(), [
+			{ value: score, count: 2 },
+			{ value: total, count: 1 },
+		])
+		assert.deepEqual(tracer.hotWrites(1), [{ value: ["total"], count: 1 }])
+		assert.deepEqual(tracer.hotConflicts(1), [
+			{ value: { readBounds: total, write: ["total"] }, count: 1 },
+		])
+
+		// The same ranges conflict again, no matter which transactions they're in.
+		tracer.record(new ReadWriteConflictError("tx7", ["score", 2], score, "tx6"))
+		assert.deepEqual(tracer.hotConflicts(1), [
+			{ value: { readBounds: score, write: ["score", 2] }, count: 2 },
+		])
+	})
+
+	it("Only keeps the most recent conflicts.", () => {
+		const tracer = new ConflictTracer(2)
+		for (const txId of ["tx1", "tx2", "tx3"]) {
+			tracer.record(new ReadWriteConflictError(txId, [txId], {}, "tx0"))
+		}
+		assert.deepEqual(
+			tracer.conflicts.map((conflict) => conflict.writeTxId),
+			["tx2", "tx3"]
+		)
+
+		tracer.clear()
+		assert.deepEqual(tracer.conflicts, [])
+	})
+})
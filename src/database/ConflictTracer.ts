@@ -0,0 +1,83 @@
+import { encodeValue } from "../helpers/codec"
+import { Bounds } from "../helpers/sortedTupleArray"
+import { Tuple, Value } from "../storage/types"
+import { ReadWriteConflictError } from "./ConcurrencyLog"
+import { TxId } from "./types"
+
+export type ConflictRecord = {
+	/** The transaction that read and could not commit. */
+	readTxId: TxId | undefined
+	/** The transaction that made the conflicting write. */
+	writeTxId: TxId | undefined
+	write: Tuple | Bounds
+	readBounds: Bounds
+	timestamp: number
+}
+
+export type ConflictCount<T> = { value: T; count: number }
+
+/**
+ * Keeps a history of the most recent conflicts so that we can find the key
+ * ranges that conflict the most.
+ */
+export class ConflictTracer {
+	conflicts: ConflictRecord[] = []
+
+	constructor(private maxConflicts = 1000) {}
+
+	record(error: ReadWriteConflictError) {
+		this.conflicts.push({
+			readTxId: error.readTxId,
+			writeTxId: error.txId,
+			write: error.write,
+			readBounds: error.readBounds,
+			timestamp: Date.now(),
+		})
+		if (this.conflicts.length > this.maxConflicts) this.conflicts.shift()
+	}
+
+	/** The read bounds that conflicted the most, most first. */
+	hotReads(limit?: number) {
+		return countBy(
+			this.conflicts.map((conflict) => conflict.readBounds),
+			limit
+		)
+	}
+
+	/** The writes that caused the most conflicts, most first. */
+	hotWrites(limit?: number) {
+		return countBy(
+			this.conflicts.map((conflict) => conflict.write),
+			limit
+		)
+	}
+
+	/** The pairs of read bounds and writes that conflicted the most, most first. */
+	hotConflicts(limit?: number) {
+		return countBy(
+			this.conflicts.map(({ readBounds, write }) => ({ readBounds, write })),
+			limit
+		)
+	}
+
+	clear() {
+		this.conflicts = []
+	}
+}
+
+function countBy<T extends Value>(
+	values: T[],
+	limit?: number
+): ConflictCount<T>[] {
+	const counts = new Map<string, ConflictCount<T>>()
+	for (const value of values) {
+		// Group equal tuples and bounds by their encoding.
+		const key = encodeValue(value)
+		const count = counts.get(key)
+		if (count) count.count += 1
+		else counts.set(key, { value, count: 1 })
+	}
+	// Sorting is stable so ties stay in the order that they first conflicted.
+	const sorted = [...counts.values()].sort((a, b) => b.count - a.count)
+	return limit === undefined ? sorted : sorted.slice(0, limit)
+}
@@ -0,0 +1,54 @@
+import { strict as assert } from "assert"
+import { describe, it } from "mocha"
+import { TransactionExpiry } from "./TransactionExpiry"
+
+describe("TransactionExpiry", () => {
+	it("Expires transactions that are past the max age.", () => {
+		let now = 0
+		const expiry = new TransactionExpiry(10, () => now)
+
+		expiry.start("tx1")
+		now = 5
+		expiry.start("tx2")
+		// Starting again doesn't reset the start time.
+		expiry.start("tx1")
+
+		now = 9
+		assert.deepEqual(expiry.expire(), [])
+		now = 12
+		assert.deepEqual(expiry.expire(), ["tx1"])
+		assert.equal(expiry.isExpired("tx1"), true)
+		assert.equal(expiry.isExpired("tx2"), false)
+
+		// An expired transaction doesn't start over.
+		expiry.start("tx1")
+		now = 20
+		assert.deepEqual(expiry.expire(), ["tx2"])
+
+		expiry.end("tx1")
+		assert.equal(expiry.isExpired("tx1"), false)
+	})
+
+	it("Forgets the oldest expired transactions past the limit.", () => {
+		let now = 0
+		const expiry = new TransactionExpiry(10, () => now, 2)
+
+		expiry.start("tx1")
+		expiry.start("tx2")
+		expiry.start("tx3")
+		now = 10
+		assert.deepEqual(expiry.expire(), ["tx1", "tx2", "tx3"])
+		assert.equal(expiry.isExpired("tx1"), false)
+		assert.equal(expiry.isExpired("tx2"), true)
+		assert.equal(expiry.isExpired("tx3"), true)
+	})
+
+	it("Never expires without a max age.", () => {
+		let now = 0
+		const expiry = new TransactionExpiry(undefined, () => now)
+
+		expiry.start("tx1")
+		now = Infinity
+		assert.deepEqual(expiry.expire(), [])
+	})
+})
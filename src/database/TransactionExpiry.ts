@@ -0,0 +1,65 @@
+import { TxId } from "./types"
+
+export class TransactionExpiredError extends Error {
+	constructor(txId: TxId) {
+		super(
+			`TransactionExpiredError: ${txId} was open for longer than the max transaction age.`
+		)
+	}
+}
+
+/**
+ * A transaction that is never committed or canceled would keep its reads in
+ * the ConcurrencyLog and its snapshot in the VersionHistory forever. We keep
+ * track of when every transaction started so that the database can clean up
+ * the ones that are older than the max age.
+ */
+export class TransactionExpiry {
+	// Start times only go up so the oldest transaction is always first.
+	private started = new Map<TxId, number>()
+	// Sets iterate in insertion order so the first one expired first.
+	private expired = new Set<TxId>()
+
+	constructor(
+		private maxAge: number | undefined,
+		private now = () => Date.now(),
+		/** Only remember this many expired transactions that never ended. */
+		private maxExpired = 10_000
+	) {}
+
+	/** Record when a transaction started, unless it already has. */
+	start(txId: TxId) {
+		if (this.maxAge === undefined) return
+		if (this.started.has(txId) || this.expired.has(txId)) return
+		this.started.set(txId, this.now())
+	}
+
+	/** Remove the transactions that are past the max age and return them. */
+	expire() {
+		const expired: TxId[] = []
+		if (this.maxAge === undefined) return expired
+
+		const now = this.now()
+		for (const [txId, start] of this.started) {
+			if (now - start < this.maxAge) break
+			this.started.delete(txId)
+			this.expired.add(txId)
+			expired.push(txId)
+		}
+		for (const txId of this.expired) {
+			if (this.expired.size <= this.maxExpired) break
+			this.expired.delete(txId)
+		}
+		return expired
+	}
+
+	isExpired(txId: TxId) {
+		return this.expired.has(txId)
+	}
+
+	/** Forget about a transaction once it has been committed or canceled. */
+	end(txId: TxId) {
+		this.started.delete(txId)
+		this.expired.delete(txId)
+	}
+}
@@ -0,0 +1,131 @@
+import { strict as assert } from "assert"
+import { describe, it } from "mocha"
+import { VersionHistory } from "./VersionHistory"
+
+describe("VersionHistory", () => {
+	it("Keeps the earliest value after the read version.", () => {
+		const history = new VersionHistory()
+		history.begin("tx1")
+
+		history.record([{ key: ["a"], value: 1 }])
+		history.advance()
+		history.record([
+			{ key: ["a"], value: 2 },
+			{ key: ["b"], value: undefined },
+		])
+		history.advance()
+
+		assert.deepEqual(history.scan(0, {}), [
+			{ key: ["a"], value: 1 },
+			{ key: ["b"], value: undefined },
+		])
+		assert.deepEqual(history.scan(1, {}), [
+			{ key: ["a"], value: 2 },
+			{ key: ["b"], value: undefined },
+		])
+	})
+
+	it("Releases history once no transaction needs it.", () => {
+		const history = new VersionHistory()
+
+		history.record([{ key: ["a"], value: 1 }])
+		history.advance()
+		assert.deepEqual(history.scan(0, {}), [])
+
+		history.begin("tx1")
+		history.record([{ key: ["a"], value: 2 }])
+		history.advance()
+		assert.deepEqual(history.scan(1, {}), [{ key: ["a"], value: 2 }])
+
+		history.end("tx1")
+		assert.deepEqual(history.scan(1, {}), [])
+	})
+
+	it("Keeps the history that the oldest transaction needs.", () => {
+		const history = new VersionHistory()
+		history.begin("tx1")
+		history.record([{ key: ["a"], value: 1 }])
+		history.advance()
+
+		history.begin("tx2")
+		history.begin("tx3")
+		history.record([
+			{ key: ["a"], value: 2 },
+			{ key: ["b"], value: undefined },
+		])
+		history.advance()
+
+		history.end("tx2")
+		assert.deepEqual(history.scan(0, {}), [
+			{ key: ["a"], value: 1 },
+			{ key: ["b"], value: undefined },
+		])
+		assert.deepEqual(history.scan(0, { gt: ["a"] }), [
+			{ key: ["b"], value: undefined },
+		])
+
+		history.end("tx1")
+		assert.deepEqual(history.scan(0, {}), [
+			{ key: ["a"], value: 2 },
+			{ key: ["b"], value: undefined },
+		])
+
+		history.end("tx3")
+		assert.deepEqual(history.scan(0, {}), [])
+	})
+
+	it("Reads from after a commit that is written without history.", async () => {
+		const history = new VersionHistory()
+		assert.equal(history.isPinned(), false)
+
+		history.skip()
+		history.begin("tx1")
+		assert.equal(history.getReadVersion("tx1"), 1)
+
+		let written = false
+		history.written(1)!.then(() => (written = true))
+		await Promise.resolve()
+		assert.equal(written, false)
+
+		history.advance()
+		await Promise.resolve()
+		assert.equal(written, true)
+		assert.equal(history.written(1), undefined)
+	})
+
+	it("Walks the changes with a cursor.", () => {
+		const history = new VersionHistory()
+		history.begin("tx1")
+		history.record([
+			{ key: ["a"], value: 1 },
+			{ key: ["c"], value: 3 },
+		])
+		history.advance()
+
+		const changesUntil = history.cursor(0, {})
+		assert.deepEqual(changesUntil(["b"]), [{ key: ["a"], value: 1 }])
+
+		// Picks up the commits that happen along the way after the last key.
+		history.record([
+			{ key: ["a"], value: 2 },
+			{ key: ["d"], value: 4 },
+		])
+		history.advance()
+		assert.deepEqual(changesUntil(["c"]), [{ key: ["c"], value: 3 }])
+		assert.deepEqual(changesUntil(undefined), [{ key: ["d"], value: 4 }])
+	})
+
+	it("Walks the changes in reverse.", () => {
+		const history = new VersionHistory()
+		history.begin("tx1")
+		history.record([
+			{ key: ["a"], value: 1 },
+			{ key: ["c"], value: 3 },
+		])
+		history.advance()
+
+		const changesUntil = history.cursor(0, {}, true)
+		assert.deepEqual(changesUntil(["b"]), [{ key: ["c"], value: 3 }])
+		assert.deepEqual(changesUntil(undefined), [{ key: ["a"], value: 1 }])
+	})
+})
@@ -0,0 +1,178 @@
+import { BTree } from "../helpers/BTree"
+import { compare } from "../helpers/compare"
+import { compareTuple } from "../helpers/compareTuple"
+import { Bounds } from "../helpers/sortedTupleArray"
+import { KeyValuePair, Tuple } from "../storage/types"
+import { TxId } from "./types"
+
+/**
+ * A key's values from before every commit that changed it, in order. A value
+ * of undefined means that the key did not exist.
+ */
+type KeyHistory = { version: number; value: any }[]
+
+/**
+ * Storage only has the latest version of every key so we keep the previous
+ * values for every commit that happened after a transaction's read version.
+ * Together, they give every transaction a consistent snapshot.
+ */
+export class VersionHistory {
+	/** Incremented once each commit has been written to storage. */
+	version = 0
+
+	private readVersions = new Map<TxId, number>()
+	/** How many transactions read from each version so the oldest is first. */
+	private pinned = new BTree<number, number>(compare)
+	/** The keys that each commit changed, in order, so that we can prune them. */
+	private commits: { version: number; keys: Tuple[] }[] = []
+	private keys = new BTree<Tuple, KeyHistory>(compareTuple)
+	/** Incremented with every recorded commit so that cursors know to catch up. */
+	private recorded = 0
+	/** Set while a commit that nobody needed the history for is being written. */
+	private skipping = false
+	private waiting: (() => void)[] = []
+
+	/**
+	 * Pin the current version for a transaction. While a commit is written
+	 * without history, we can't read from before it so we read from after it.
+	 */
+	begin(txId: TxId) {
+		let readVersion = this.readVersions.get(txId)
+		if (readVersion === undefined) {
+			readVersion = this.version + (this.skipping ? 1 : 0)
+			this.readVersions.set(txId, readVersion)
+			this.pinned.set(readVersion, (this.pinned.get(readVersion) || 0) + 1)
+		}
+		return readVersion
+	}
+
+	/** Only transactions that have begun need the history. */
+	isPinned() {
+		return this.readVersions.size > 0
+	}
+
+	getReadVersion(txId: TxId) {
+		return this.readVersions.get(txId)
+	}
+
+	/** Release the transaction's version and any history it needed. */
+	end(txId: TxId) {
+		const readVersion = this.readVersions.get(txId)
+		if (readVersion === undefined) return
+		this.readVersions.delete(txId)
+
+		const count = this.pinned.get(readVersion)! - 1
+		if (count > 0) this.pinned.set(readVersion, count)
+		else this.pinned.delete(readVersion)
+		this.prune()
+	}
+
+	/**
+	 * Record the values from before the next commit. This must happen before
+	 * writing to storage so that reads in the meantime are still consistent.
+	 */
+	record(before: KeyValuePair[]) {
+		const version = this.version + 1
+		for (const { key, value } of before) {
+			const history = this.keys.get(key)
+			if (history) history.push({ version, value })
+			else this.keys.set(key, [{ version, value }])
+		}
+		this.commits.push({ version, keys: before.map(({ key }) => key) })
+		this.recorded += 1
+	}
+
+	/** Instead of record when no transaction needs the history. */
+	skip() {
+		this.skipping = true
+	}
+
+	/** Call once the commit has been written to storage. */
+	advance() {
+		this.version += 1
+		this.skipping = false
+		for (const resolve of this.waiting.splice(0)) resolve()
+		this.prune()
+	}
+
+	/** Reads from a version that isn't written yet have to wait for it. */
+	written(version: number) {
+		if (version <= this.version) return
+		return new Promise<void>((resolve) => this.waiting.push(resolve))
+	}
+
+	/** Drop the commits that every transaction can already see. */
+	private prune() {
+		let oldest = this.version
+		for (const { key } of this.pinned.iterate({ limit: 1 })) {
+			oldest = Math.min(key, oldest)
+		}
+		while (this.commits.length > 0 && this.commits[0].version <= oldest) {
+			for (const key of this.commits.shift()!.keys) {
+				const history = this.keys.get(key)
+				if (!history) continue
+				while (history.length > 0 && history[0].version <= oldest) {
+					history.shift()
+				}
+				if (history.length === 0) this.keys.delete(key)
+			}
+		}
+	}
+
+	/**
+	 * Keys within the bounds that have changed since the given version, along
+	 * with their value at that version, in ascending order.
+	 */
+	scan(readVersion: number, bounds: Bounds) {
+		const changes: KeyValuePair[] = []
+		for (const { key, value: history } of this.keys.iterate(bounds)) {
+			// The earliest commit after the read version has the value we want.
+			const change = history.find(({ version }) => version > readVersion)
+			if (change) changes.push({ key, value: change.value })
+		}
+		return changes
+	}
+
+	/**
+	 * Walk the changes within the bounds in order, alongside a scan of storage.
+	 * Commits that happen along the way are picked up for the keys that we
+	 * haven't walked past yet.
+	 */
+	cursor(readVersion: number, bounds: Bounds, reverse = false) {
+		const isAfter = (a: Tuple, b: Tuple) =>
+			reverse ? compareTuple(a, b) < 0 : compareTuple(a, b) > 0
+
+		let recorded = -1
+		let changes: KeyValuePair[] = []
+		let index = 0
+		let last: Tuple | undefined
+
+		/** The changes up to and including the key, or all the rest without one. */
+		return (key: Tuple | undefined) => {
+			if (recorded !== this.recorded) {
+				recorded = this.recorded
+				changes = this.scan(readVersion, bounds)
+				if (reverse) changes.reverse()
+				index = 0
+				while (
+					last !== undefined &&
+					index < changes.length &&
+					!isAfter(changes[index].key, last)
+				) {
+					index += 1
+				}
+			}
+
+			const result: KeyValuePair[] = []
+			while (
+				index < changes.length &&
+				(key === undefined || !isAfter(changes[index].key, key))
+			) {
+				result.push(changes[index])
+				index += 1
+			}
+			last = key
+			return result
+		}
+	}
+}
@@ -1,10 +1,36 @@
+import { applyAtomicMutation } from "../../helpers/atomicMutations"
+import { compareTuple } from "../../helpers/compareTuple"
+import { iterateInBatchesAsync } from "../../helpers/iterateInBatches"
 import { iterateWrittenTuples } from "../../helpers/iterateTuples"
+import { Queue } from "../../helpers/Queue"
 import { randomId } from "../../helpers/randomId"
-import { KeyValuePair, ScanStorageArgs, WriteOps } from "../../storage/types"
-import { ConcurrencyLog } from "../ConcurrencyLog"
+import { isTupleWithinBounds } from "../../helpers/sortedTupleArray"
+import * as tv from "../../helpers/sortedTupleValuePairs"
+import {
+	KeyValuePair,
+	ScanStorageArgs,
+	Tuple,
+	WriteOps,
+} from "../../storage/types"
+import { ConcurrencyLog, ReadWriteConflictError } from "../ConcurrencyLog"
+import { ConflictTracer } from "../ConflictTracer"
 import { TupleStorageApi } from "../sync/types"
-import { TxId, Unsubscribe } from "../types"
-import { AsyncReactivityTracker } from "./AsyncReactivityTracker"
+import {
+	TransactionExpiredError,
+	TransactionExpiry,
+} from "../TransactionExpiry"
+import {
+	ConflictRanges,
+	SubscribeOptions,
+	TupleDatabaseOptions,
+	TxId,
+	Unsubscribe,
+} from "../types"
+import { VersionHistory } from "../VersionHistory"
+import {
+	AsyncReactivityTracker,
+	ReactivityEmits,
+} from "./AsyncReactivityTracker"
 import {
 	AsyncCallback,
 	AsyncTupleDatabaseApi,
@@ -12,38 +38,283 @@ import {
 } from "./asyncTypes"
 
 export class AsyncTupleDatabase implements AsyncTupleDatabaseApi {
-	constructor(private storage: TupleStorageApi | AsyncTupleStorageApi) {}
+	constructor(
+		private storage: TupleStorageApi | AsyncTupleStorageApi,
+		options: TupleDatabaseOptions = {}
+	) {
+		this.expiry = new TransactionExpiry(options.maxTransactionAge)
+		if (options.traceConflicts) this.conflicts = new ConflictTracer()
+	}
 
 	log = new ConcurrencyLog()
 	reactivity = new AsyncReactivityTracker()
+	history = new VersionHistory()
+	/** Only when the traceConflicts option is set. */
+	conflicts: ConflictTracer | undefined
+	private expiry: TransactionExpiry
+	private queue = new Queue()
+	private emitting = false
+	private pendingEmits: (() => void)[] = []
+
+	/** Pin the current version so the transaction reads from a snapshot. */
+	begin(txId: TxId) {
+		this.expireTransactions()
+		this.expiry.start(txId)
+		this.log.begin(txId)
+		return this.history.begin(txId)
+	}
 
-	async scan(args: ScanStorageArgs = {}, txId?: TxId): Promise<KeyValuePair[]> {
+	/** Cleanup transactions that were never committed or canceled in time. */
+	private expireTransactions() {
+		for (const txId of this.expiry.expire()) {
+			this.history.end(txId)
+			this.log.cancel(txId)
+		}
+	}
+
+	/** Transactions can't read once they have expired and lost their snapshot. */
+	private startRead(txId: TxId) {
+		this.expireTransactions()
+		if (this.expiry.isExpired(txId)) throw new TransactionExpiredError(txId)
+		this.expiry.start(txId)
+	}
+
+	async scan(
+		args: ScanStorageArgs = {},
+		txId?: TxId,
+		snapshot = false
+	): Promise<KeyValuePair[]> {
 		const { reverse, limit, ...bounds } = args
-		if (txId) this.log.read(txId, bounds)
-		return this.storage.scan({ ...bounds, reverse, limit })
+		if (txId) this.startRead(txId)
+		if (txId && !snapshot) this.log.read(txId, bounds)
+
+		const readVersion = txId ? this.history.getReadVersion(txId) : undefined
+		if (readVersion === undefined) {
+			return this.storage.scan({ ...bounds, reverse, limit })
+		}
+		await this.history.written(readVersion)
+
+		while (true) {
+			// Every changed key could replace a result so we may need to read more.
+			const expected = this.history.scan(readVersion, bounds).length
+			const result = await this.storage.scan({
+				...bounds,
+				reverse,
+				limit: limit === undefined ? undefined : limit + expected,
+			})
+			// Check afterwards to include any commits that happened in the meantime.
+			const changes = this.history.scan(readVersion, bounds)
+			if (changes.length !== expected) continue
+
+			for (const { key, value } of changes) {
+				if (value === undefined) tv.remove(result, key, reverse)
+				else tv.set(result, key, value, reverse)
+			}
+			return limit === undefined ? result : result.slice(0, limit)
+		}
+	}
+
+	async *iterate(
+		args: ScanStorageArgs = {},
+		txId?: TxId,
+		snapshot = false
+	): AsyncIterable<KeyValuePair> {
+		const { reverse, limit, ...bounds } = args
+		if (txId) this.startRead(txId)
+		if (txId && !snapshot) this.log.read(txId, bounds)
+
+		const readVersion = txId ? this.history.getReadVersion(txId) : undefined
+		if (readVersion === undefined) {
+			yield* this.iterateStorage({ ...bounds, reverse, limit })
+			return
+		}
+
+		await this.history.written(readVersion)
+
+		// Yield the changed keys in between the storage results.
+		const changesUntil = this.history.cursor(readVersion, bounds, reverse)
+
+		let count = 0
+		for await (const pair of this.iterateStorage({ ...bounds, reverse })) {
+			const changes = changesUntil(pair.key)
+			const change = changes[changes.length - 1]
+			if (!change || compareTuple(change.key, pair.key) !== 0)
+				changes.push(pair)
+
+			for (const change of changes) {
+				if (limit !== undefined && count >= limit) return
+				if (change.value === undefined) continue
+				yield change
+				count += 1
+			}
+		}
+		for (const change of changesUntil(undefined)) {
+			if (limit !== undefined && count >= limit) return
+			if (change.value === undefined) continue
+			yield change
+			count += 1
+		}
+	}
+
+	private iterateStorage(args: ScanStorageArgs) {
+		if (this.storage.iterate) return this.storage.iterate(args)
+		return iterateInBatchesAsync((args) => this.storage.scan(args), args)
 	}
 
 	async subscribe(
 		args: ScanStorageArgs,
-		callback: AsyncCallback
+		callback: AsyncCallback,
+		options?: SubscribeOptions
 	): Promise<Unsubscribe> {
-		return this.reactivity.subscribe(args, callback)
+		return this.reactivity.subscribe(args, callback, options)
 	}
 
-	async commit(writes: WriteOps, txId?: string) {
+	async commit(writes: WriteOps, txId?: string, conflicts?: ConflictRanges) {
+		// Commits are written one at a time in order. Nothing in a write calls back
+		// into the database so a sync database never has to wait here.
+		const emits = await this.queue.enqueue(() =>
+			this.write(writes, txId, conflicts)
+		)
+		if (emits instanceof Promise) {
+			throw new Error("Cannot commit while another commit is being written.")
+		}
+		return this.emit(emits, txId || randomId())
+	}
+
+	/** The conflict check and the storage write. */
+	private async write(
+		writes: WriteOps,
+		txId: string | undefined,
+		conflicts: ConflictRanges | undefined
+	) {
 		// Note: commit is called for transactional reads as well!
-		const emits = this.reactivity.computeReactivityEmits(writes)
+		this.expireTransactions()
+		if (txId) {
+			const expired = this.expiry.isExpired(txId)
+			this.expiry.end(txId)
+			if (expired) throw new TransactionExpiredError(txId)
+			// An expired transaction may have been forgotten, but it can't be checked
+			// for conflicts once its snapshot was released and anything was written.
+			const readVersion = conflicts?.readVersion
+			if (
+				readVersion !== undefined &&
+				this.history.getReadVersion(txId) === undefined &&
+				readVersion < this.history.version
+			) {
+				throw new TransactionExpiredError(txId)
+			}
+
+			this.history.end(txId)
+			for (const bounds of conflicts?.read || []) {
+				this.log.read(txId, bounds)
+			}
+			try {
+				this.log.commit(txId)
+			} catch (error) {
+				if (error instanceof ReadWriteConflictError) {
+					this.conflicts?.record(error)
+				}
+				throw error
+			}
+		}
+
+		// Only wait when we have to so that writes are logged right away.
+		if (writes.atomic?.length) {
+			writes = await this.applyAtomicMutations(writes)
+		}
 
-		if (txId) this.log.commit(txId)
+		for (const bounds of [
+			...(writes.clear || []),
+			...(conflicts?.write || []),
+		]) {
+			this.log.writeRange(txId, bounds)
+		}
 		for (const tuple of iterateWrittenTuples(writes)) {
 			this.log.write(txId, tuple)
 		}
-		await this.storage.commit(writes)
 
-		return this.reactivity.emit(emits, txId || randomId())
+		// Record the previous values first so that snapshots never see a
+		// partially written commit. Only snapshots and changes need them.
+		const recording = this.history.isPinned()
+		if (!recording) this.history.skip()
+		const before =
+			recording || this.reactivity.hasChangesListener(writes)
+				? await this.readBefore(writes)
+				: []
+		if (recording) this.history.record(before)
+		const emits = this.reactivity.computeReactivityEmits(writes, before)
+		try {
+			await this.storage.commit(writes)
+		} finally {
+			this.history.advance()
+		}
+		return emits
+	}
+
+	/**
+	 * Subscribers see the commits in order. A subscriber that commits gets its
+	 * write done right away, but that commit emits once every subscriber of the
+	 * current commit has been called.
+	 */
+	private emit(emits: ReactivityEmits, txId: TxId) {
+		if (this.emitting) {
+			this.pendingEmits.push(() => this.emit(emits, txId))
+			return
+		}
+		this.emitting = true
+		try {
+			return this.reactivity.emit(emits, txId)
+		} finally {
+			this.emitting = false
+			while (this.pendingEmits.length > 0) this.pendingEmits.shift()!()
+		}
+	}
+
+	/** Turn atomic mutations into sets using the current values in storage. */
+	private async applyAtomicMutations(writes: WriteOps): Promise<WriteOps> {
+		const { atomic = [], ...rest } = writes
+		const set: KeyValuePair[] = []
+		for (const { key, value } of rest.set || []) tv.set(set, key, value)
+
+		const isRemoved = (tuple: Tuple) =>
+			(rest.remove || []).some(
+				(removed) => compareTuple(removed, tuple) === 0
+			) ||
+			(rest.clear || []).some((bounds) => isTupleWithinBounds(tuple, bounds))
+
+		for (const { op, key, value } of atomic) {
+			let current: any
+			if (tv.exists(set, key)) {
+				current = tv.get(set, key)
+			} else if (!isRemoved(key)) {
+				const [pair] = await this.storage.scan({ gte: key, lte: key })
+				current = pair?.value
+			}
+			tv.set(set, key, applyAtomicMutation(op, current, value))
+		}
+
+		return { ...rest, set }
+	}
+
+	/** The current values of every key that these writes will change. */
+	private async readBefore(writes: WriteOps): Promise<KeyValuePair[]> {
+		const before: KeyValuePair[] = []
+		for (const bounds of writes.clear || []) {
+			for (const { key, value } of await this.storage.scan(bounds)) {
+				tv.set(before, key, value)
+			}
+		}
+		for (const tuple of iterateWrittenTuples(writes)) {
+			if (tv.exists(before, tuple)) continue
+			const [pair] = await this.storage.scan({ gte: tuple, lte: tuple })
+			tv.set(before, tuple, pair?.value)
+		}
+		return before
 	}
 
 	async cancel(txId: string) {
+		this.expiry.end(txId)
+		this.history.end(txId)
 		this.log.cancel(txId)
 	}
 
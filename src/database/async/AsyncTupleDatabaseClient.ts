@@ -1,3 +1,13 @@
+import { applyAtomicMutation } from "../../helpers/atomicMutations"
+import { compareTuple } from "../../helpers/compareTuple"
+import { isBoundsOverlappingBounds } from "../../helpers/isBoundsOverlappingBounds"
+import { mutableFilter } from "../../helpers/mutableFilter"
+import {
+	createObservable,
+	createWatcher,
+	Observable,
+	Watcher,
+} from "../../helpers/observable"
 import { randomId } from "../../helpers/randomId"
 import * as t from "../../helpers/sortedTupleArray"
 import * as tv from "../../helpers/sortedTupleValuePairs"
@@ -5,11 +15,19 @@ import {
 	normalizeSubspaceScanArgs,
 	prependPrefixToTuple,
 	prependPrefixToWriteOps,
+	removePrefixFromChanges,
 	removePrefixFromTuple,
+	removePrefixFromTupleValuePair,
 	removePrefixFromTupleValuePairs,
 	removePrefixFromWriteOps,
 } from "../../helpers/subspaceHelpers"
-import { KeyValuePair, Tuple, WriteOps } from "../../storage/types"
+import {
+	AtomicOp,
+	KeyValuePair,
+	ScanStorageArgs,
+	Tuple,
+	WriteOps,
+} from "../../storage/types"
 import { TupleDatabaseApi } from "../sync/types"
 import {
 	FilterTupleValuePairByPrefix,
@@ -17,12 +35,25 @@ import {
 	TuplePrefix,
 	ValueForTuple,
 } from "../typeHelpers"
-import { ScanArgs, TxId, Unsubscribe } from "../types"
+import {
+	Change,
+	ChangeBatch,
+	ClearArgs,
+	ConflictRanges,
+	Savepoint,
+	TransactionHooks,
+	ScanArgs,
+	SubscribeOptions,
+	TxId,
+	Unsubscribe,
+	WatchOptions,
+} from "../types"
 import {
 	AsyncCallback,
 	AsyncTupleDatabaseApi,
 	AsyncTupleDatabaseClientApi,
 	AsyncTupleRootTransactionApi,
+	AsyncTupleSnapshotApi,
 	AsyncTupleTransactionApi,
 } from "./asyncTypes"
 
@@ -44,19 +75,70 @@ export class AsyncTupleDatabaseClient<S extends KeyValuePair = KeyValuePair>
 		return result as FilterTupleValuePairByPrefix<S, P>[]
 	}
 
+	async *iterate<T extends S["key"], P extends TuplePrefix<T>>(
+		args: ScanArgs<T, P> = {},
+		txId?: TxId
+	): AsyncIterable<FilterTupleValuePairByPrefix<S, P>> {
+		const storageScanArgs = normalizeSubspaceScanArgs(this.subspacePrefix, args)
+		for await (const pair of this.db.iterate(storageScanArgs, txId)) {
+			yield removePrefixFromTupleValuePair(
+				this.subspacePrefix,
+				pair
+			) as FilterTupleValuePairByPrefix<S, P>
+		}
+	}
+
 	async subscribe<T extends S["key"], P extends TuplePrefix<T>>(
 		args: ScanArgs<T, P>,
-		callback: AsyncCallback<FilterTupleValuePairByPrefix<S, P>>
+		callback: AsyncCallback<FilterTupleValuePairByPrefix<S, P>>,
+		options?: SubscribeOptions
 	): Promise<Unsubscribe> {
 		const storageScanArgs = normalizeSubspaceScanArgs(this.subspacePrefix, args)
-		return this.db.subscribe(storageScanArgs, (write, txId) => {
-			return callback(
-				removePrefixFromWriteOps(this.subspacePrefix, write) as WriteOps<
-					FilterTupleValuePairByPrefix<S, P>
-				>,
-				txId
+		return this.db.subscribe(
+			storageScanArgs,
+			(write, txId, changes) => {
+				return callback(
+					removePrefixFromWriteOps(this.subspacePrefix, write) as WriteOps<
+						FilterTupleValuePairByPrefix<S, P>
+					>,
+					txId,
+					changes &&
+						(removePrefixFromChanges(this.subspacePrefix, changes) as Change<
+							FilterTupleValuePairByPrefix<S, P>
+						>[])
+				)
+			},
+			options
+		)
+	}
+
+	watch<T extends S["key"], P extends TuplePrefix<T>>(
+		args: ScanArgs<T, P>,
+		options: WatchOptions = {}
+	): Watcher<ChangeBatch<FilterTupleValuePairByPrefix<S, P>>> {
+		const { bufferSize, ...subscribeOptions } = options
+		return createWatcher(
+			(callback) =>
+				this.subscribe(
+					args,
+					(writes, txId, changes) => callback({ writes, txId, changes }),
+					subscribeOptions
+				),
+			bufferSize
+		)
+	}
+
+	observe<T extends S["key"], P extends TuplePrefix<T>>(
+		args: ScanArgs<T, P>,
+		options?: SubscribeOptions
+	): Observable<ChangeBatch<FilterTupleValuePairByPrefix<S, P>>> {
+		return createObservable((next) =>
+			this.subscribe(
+				args,
+				(writes, txId, changes) => next({ writes, txId, changes }),
+				options
 			)
-		})
+		)
 	}
 
 	async commit(writes: WriteOps<S>, txId?: TxId): Promise<void> {
@@ -122,12 +204,20 @@ export class AsyncTupleRootTransaction<S extends KeyValuePair>
 		public id: TxId,
 		writes?: WriteOps<S>
 	) {
-		this.writes = { set: [], remove: [], ...writes }
+		this.writes = { set: [], remove: [], clear: [], atomic: [], ...writes }
 	}
 
 	committed = false
 	canceled = false
 	writes: Required<WriteOps<S>>
+	/** Pinned by the database on the first read. */
+	private readVersion: number | undefined
+	private conflicts: ConflictRanges = { read: [], write: [] }
+	private hooks: TransactionHooks<AsyncTupleRootTransactionApi<S>> = {
+		beforeCommit: [],
+		afterCommit: [],
+		cancel: [],
+	}
 
 	private checkActive() {
 		if (this.committed) throw new Error("Transaction already committed")
@@ -136,6 +226,39 @@ export class AsyncTupleRootTransaction<S extends KeyValuePair>
 
 	async scan<T extends S["key"], P extends TuplePrefix<T>>(
 		args: ScanArgs<T, P> = {}
+	): Promise<FilterTupleValuePairByPrefix<S, P>[]> {
+		return this.scanAt(args, false)
+	}
+
+	async *iterate<T extends S["key"], P extends TuplePrefix<T>>(
+		args: ScanArgs<T, P> = {}
+	): AsyncIterable<FilterTupleValuePairByPrefix<S, P>> {
+		yield* this.iterateAt(args, false)
+	}
+
+	async get<T extends S["key"]>(
+		tuple: T
+	): Promise<ValueForTuple<S, T> | undefined> {
+		return this.getAt(tuple, false)
+	}
+
+	async exists<T extends S["key"]>(tuple: T): Promise<boolean> {
+		return this.existsAt(tuple, false)
+	}
+
+	/** Reads that see pending writes but don't conflict with other transactions. */
+	get snapshot(): AsyncTupleSnapshotApi<S> {
+		return {
+			scan: (args) => this.scanAt(args, true),
+			iterate: (args) => this.iterateAt(args, true),
+			get: (tuple) => this.getAt(tuple, true),
+			exists: (tuple) => this.existsAt(tuple, true),
+		}
+	}
+
+	private async scanAt<T extends S["key"], P extends TuplePrefix<T>>(
+		args: ScanArgs<T, P> = {},
+		snapshot: boolean
 	): Promise<FilterTupleValuePairByPrefix<S, P>[]> {
 		this.checkActive()
 
@@ -144,15 +267,25 @@ export class AsyncTupleRootTransaction<S extends KeyValuePair>
 			args
 		)
 
+		// A cleared range could hide any number of results from storage so we
+		// can't know how many to fetch. Instead, we read until we have enough.
+		if (this.getClears(scanArgs).length > 0) {
+			const result: FilterTupleValuePairByPrefix<S, P>[] = []
+			for await (const pair of this.iterateAt(args, snapshot)) {
+				result.push(pair)
+			}
+			return result
+		}
+
 		// We don't want to include the limit in this scan.
-		const sets = tv.scan(this.writes.set, scanArgs)
+		const sets = await this.scanPendingSets(scanArgs, snapshot)
 		const removes = t.scan(this.writes.remove, scanArgs)
 
 		// If we've removed items from this range, then lets make sure to fetch enough
 		// from storage for the final result limit.
 		const scanLimit = resultLimit ? resultLimit + removes.length : undefined
 
-		const pairs = await this.db.scan({ ...scanArgs, limit: scanLimit }, this.id)
+		const pairs = await this.scanDb({ ...scanArgs, limit: scanLimit }, snapshot)
 		const result = removePrefixFromTupleValuePairs(this.subspacePrefix, pairs)
 
 		for (const { key: fullTuple, value } of sets) {
@@ -175,8 +308,64 @@ export class AsyncTupleRootTransaction<S extends KeyValuePair>
 		return result as FilterTupleValuePairByPrefix<S, P>[]
 	}
 
-	async get<T extends S["key"]>(
-		tuple: T
+	/** Merges the pending writes into the stream of results from the database. */
+	private async *iterateAt<T extends S["key"], P extends TuplePrefix<T>>(
+		args: ScanArgs<T, P> = {},
+		snapshot: boolean
+	): AsyncIterable<FilterTupleValuePairByPrefix<S, P>> {
+		this.checkActive()
+
+		const { limit, ...scanArgs } = normalizeSubspaceScanArgs(
+			this.subspacePrefix,
+			args
+		)
+
+		// Pending sets in the order of the scan.
+		const sets = await this.scanPendingSets(scanArgs, snapshot)
+		const removes = t.scan(this.writes.remove, { ...scanArgs, reverse: false })
+		const clears = this.getClears(scanArgs)
+		const isCleared = (tuple: Tuple) =>
+			clears.some((bounds) => t.isTupleWithinBounds(tuple, bounds))
+		const direction = scanArgs.reverse ? -1 : 1
+		const resultLimit = limit || Infinity
+
+		const result = (pair: KeyValuePair) =>
+			removePrefixFromTupleValuePair(
+				this.subspacePrefix,
+				pair
+			) as FilterTupleValuePairByPrefix<S, P>
+
+		let count = 0
+		let i = 0
+		for await (const pair of this.iterateDb(scanArgs, snapshot)) {
+			while (
+				i < sets.length &&
+				compareTuple(sets[i].key, pair.key) * direction < 0
+			) {
+				if (count >= resultLimit) return
+				yield result(sets[i++])
+				count++
+			}
+
+			if (count >= resultLimit) return
+			if (i < sets.length && compareTuple(sets[i].key, pair.key) === 0) {
+				yield result(sets[i++])
+				count++
+			} else if (!t.exists(removes, pair.key) && !isCleared(pair.key)) {
+				yield result(pair)
+				count++
+			}
+		}
+
+		while (i < sets.length && count < resultLimit) {
+			yield result(sets[i++])
+			count++
+		}
+	}
+
+	private async getAt<T extends S["key"]>(
+		tuple: T,
+		snapshot: boolean
 	): Promise<ValueForTuple<S, T> | undefined> {
 		this.checkActive()
 		const fullTuple = prependPrefixToTuple(this.subspacePrefix, tuple)
@@ -188,17 +377,21 @@ export class AsyncTupleRootTransaction<S extends KeyValuePair>
 		if (t.exists(this.writes.remove, fullTuple)) {
 			return
 		}
-		const items = await this.db.scan(
+		if (this.isCleared(fullTuple)) {
+			return
+		}
+		const items = await this.scanDb(
 			{ gte: fullTuple, lte: fullTuple },
-			this.id
+			snapshot
 		)
-		if (items.length === 0) return
 		if (items.length > 1) throw new Error("Get expects only one value.")
-		const pair = items[0]
-		return pair.value
+		return this.applyPendingAtomic(fullTuple, items[0]?.value)
 	}
 
-	async exists<T extends S["key"]>(tuple: T): Promise<boolean> {
+	private async existsAt<T extends S["key"]>(
+		tuple: T,
+		snapshot: boolean
+	): Promise<boolean> {
 		this.checkActive()
 		const fullTuple = prependPrefixToTuple(this.subspacePrefix, tuple)
 
@@ -208,9 +401,16 @@ export class AsyncTupleRootTransaction<S extends KeyValuePair>
 		if (t.exists(this.writes.remove, fullTuple)) {
 			return false
 		}
-		const items = await this.db.scan(
+		if (this.isCleared(fullTuple)) {
+			return false
+		}
+		if (this.hasPendingAtomic(fullTuple)) {
+			// Every atomic mutation sets a value when there isn't one.
+			return true
+		}
+		const items = await this.scanDb(
 			{ gte: fullTuple, lte: fullTuple },
-			this.id
+			snapshot
 		)
 		if (items.length === 0) return false
 		return items.length >= 1
@@ -224,6 +424,7 @@ export class AsyncTupleRootTransaction<S extends KeyValuePair>
 		this.checkActive()
 		const fullTuple = prependPrefixToTuple(this.subspacePrefix, tuple)
 		t.remove(this.writes.remove, fullTuple)
+		this.removePendingAtomic(fullTuple)
 		tv.set(this.writes.set, fullTuple, value)
 		return this
 	}
@@ -232,35 +433,283 @@ export class AsyncTupleRootTransaction<S extends KeyValuePair>
 		this.checkActive()
 		const fullTuple = prependPrefixToTuple(this.subspacePrefix, tuple)
 		tv.remove(this.writes.set, fullTuple)
+		this.removePendingAtomic(fullTuple)
 		t.set(this.writes.remove, fullTuple)
 		return this
 	}
 
+	/** Remove everything within a range, including any pending writes. */
+	clear<T extends S["key"], P extends TuplePrefix<T>>(
+		args: ClearArgs<T, P> = {}
+	): AsyncTupleRootTransactionApi<S> {
+		this.checkActive()
+		const bounds = normalizeSubspaceScanArgs(
+			this.subspacePrefix,
+			args as ScanArgs<T, P>
+		)
+		for (const { key } of tv.scan(this.writes.set, bounds)) {
+			tv.remove(this.writes.set, key)
+		}
+		for (const tuple of t.scan(this.writes.remove, bounds)) {
+			t.remove(this.writes.remove, tuple)
+		}
+		mutableFilter(
+			this.writes.atomic,
+			({ key }) => !t.isTupleWithinBounds(key, bounds)
+		)
+		this.writes.clear.push(bounds)
+		return this
+	}
+
+	/**
+	 * Apply an atomic mutation when the transaction commits. This doesn't read
+	 * the current value so it won't conflict with other transactions.
+	 */
+	atomic<T extends S["key"]>(
+		op: AtomicOp,
+		tuple: T,
+		value: ValueForTuple<S, T>
+	): AsyncTupleRootTransactionApi<S> {
+		this.checkActive()
+		const fullTuple = prependPrefixToTuple(this.subspacePrefix, tuple)
+
+		// If we already know the value, then we can apply the mutation right away.
+		if (tv.exists(this.writes.set, fullTuple)) {
+			const current = tv.get(this.writes.set, fullTuple)
+			tv.set(
+				this.writes.set,
+				fullTuple,
+				applyAtomicMutation(op, current, value)
+			)
+		} else if (
+			t.exists(this.writes.remove, fullTuple) ||
+			this.isCleared(fullTuple)
+		) {
+			t.remove(this.writes.remove, fullTuple)
+			tv.set(
+				this.writes.set,
+				fullTuple,
+				applyAtomicMutation(op, undefined, value)
+			)
+		} else {
+			this.writes.atomic.push({ op, key: fullTuple, value })
+		}
+		return this
+	}
+
+	private hasPendingAtomic(fullTuple: Tuple) {
+		return this.writes.atomic.some(
+			({ key }) => compareTuple(key, fullTuple) === 0
+		)
+	}
+
+	private removePendingAtomic(fullTuple: Tuple) {
+		mutableFilter(
+			this.writes.atomic,
+			({ key }) => compareTuple(key, fullTuple) !== 0
+		)
+	}
+
+	/** Reading a key with pending atomic mutations applies them to the value. */
+	private applyPendingAtomic(fullTuple: Tuple, value: any) {
+		for (const { op, key, value: param } of this.writes.atomic) {
+			if (compareTuple(key, fullTuple) !== 0) continue
+			value = applyAtomicMutation(op, value, param)
+		}
+		return value
+	}
+
+	/** Pending sets within the scan, including keys with atomic mutations. */
+	private async scanPendingSets(args: ScanStorageArgs, snapshot: boolean) {
+		const sets = tv.scan(this.writes.set, args)
+		for (const { key } of this.writes.atomic) {
+			if (!t.isTupleWithinBounds(key, args)) continue
+			if (tv.exists(sets, key, args.reverse)) continue
+			const [pair] = await this.scanDb({ gte: key, lte: key }, snapshot)
+			const value = this.applyPendingAtomic(key, pair?.value)
+			tv.set(sets, key, value, args.reverse)
+		}
+		return sets
+	}
+
+	/**
+	 * Reads are sent as read conflict ranges when we commit, rather than logged
+	 * by the database right away, so that rolling back to a savepoint can
+	 * discard them. The transaction began at a snapshot so it conflicts with
+	 * the same writes either way.
+	 */
+	private async scanDb(args: ScanStorageArgs, snapshot: boolean) {
+		const { limit, reverse, ...bounds } = args
+		if (!snapshot) this.conflicts.read.push(bounds)
+		this.begin()
+		return this.db.scan(args, this.id, true)
+	}
+
+	private iterateDb(args: ScanStorageArgs, snapshot: boolean) {
+		const { limit, reverse, ...bounds } = args
+		if (!snapshot) this.conflicts.read.push(bounds)
+		this.begin()
+		return this.db.iterate(args, this.id, true)
+	}
+
+	/**
+	 * The read version is taken on the first read, like FoundationDB, so that a
+	 * transaction that only writes never holds onto any history.
+	 */
+	private begin() {
+		if (this.readVersion !== undefined) return
+		this.readVersion = this.db.begin(this.id)
+	}
+
+	private getClears(bounds: t.Bounds) {
+		return this.writes.clear.filter((clear) =>
+			isBoundsOverlappingBounds(clear, bounds)
+		)
+	}
+
+	private isCleared(fullTuple: Tuple) {
+		return this.writes.clear.some((bounds) =>
+			t.isTupleWithinBounds(fullTuple, bounds)
+		)
+	}
+
 	write(writes: WriteOps<S>): AsyncTupleRootTransactionApi<S> {
 		this.checkActive()
 
-		// If you're calling this function, then the order of these opertions
+		// Clears happen first, then the order of the rest of these operations
 		// shouldn't matter.
-		const { set, remove } = writes
+		const { set, remove, clear, atomic } = writes
+		for (const bounds of clear || []) {
+			this.clear(bounds as ClearArgs<any, any>)
+		}
 		for (const tuple of remove || []) {
 			this.remove(tuple)
 		}
 		for (const { key, value } of set || []) {
 			this.set(key, value)
 		}
+		for (const { op, key, value } of atomic || []) {
+			this.atomic(op, key, value)
+		}
+		return this
+	}
+
+	/** Conflict with any concurrent write to this range without reading it. */
+	addReadConflictRange<T extends S["key"], P extends TuplePrefix<T>>(
+		args: ClearArgs<T, P> = {}
+	): AsyncTupleRootTransactionApi<S> {
+		this.checkActive()
+		const bounds = normalizeSubspaceScanArgs(
+			this.subspacePrefix,
+			args as ScanArgs<T, P>
+		)
+		this.conflicts.read.push(bounds)
+		this.begin()
+		return this
+	}
+
+	/** Conflict with any concurrent read of this range without writing to it. */
+	addWriteConflictRange<T extends S["key"], P extends TuplePrefix<T>>(
+		args: ClearArgs<T, P> = {}
+	): AsyncTupleRootTransactionApi<S> {
+		this.checkActive()
+		const bounds = normalizeSubspaceScanArgs(
+			this.subspacePrefix,
+			args as ScanArgs<T, P>
+		)
+		this.conflicts.write.push(bounds)
+		return this
+	}
+
+	/** Remember the pending writes, conflict ranges and hooks to roll back to later. */
+	savepoint(): Savepoint {
+		this.checkActive()
+		return copySavepoint({
+			writes: this.writes,
+			conflicts: this.conflicts,
+			hooks: this.hooks,
+		})
+	}
+
+	/**
+	 * Discard every write, read, conflict range and hook since the savepoint.
+	 * The savepoint can be rolled back to again.
+	 */
+	rollbackTo(savepoint: Savepoint): AsyncTupleRootTransactionApi<S> {
+		this.checkActive()
+		const { writes, conflicts, hooks } = copySavepoint(savepoint)
+		this.writes = writes as Required<WriteOps<S>>
+		this.conflicts = conflicts
+		this.hooks = hooks
+		return this
+	}
+
+	/** Roll back everything that the function did when it throws. */
+	async nested<O>(
+		fn: (tx: AsyncTupleRootTransactionApi<S>) => Promise<O>
+	): Promise<O> {
+		const savepoint = this.savepoint()
+		try {
+			return await fn(this)
+		} catch (error) {
+			this.rollbackTo(savepoint)
+			throw error
+		}
+	}
+
+	/** Runs before committing. It can add writes, or throw to cancel instead. */
+	onBeforeCommit(
+		fn: (tx: AsyncTupleRootTransactionApi<S>) => Promise<void> | void
+	): AsyncTupleRootTransactionApi<S> {
+		this.checkActive()
+		this.hooks.beforeCommit.push(fn)
+		return this
+	}
+
+	onAfterCommit(
+		fn: () => Promise<void> | void
+	): AsyncTupleRootTransactionApi<S> {
+		this.checkActive()
+		this.hooks.afterCommit.push(fn)
+		return this
+	}
+
+	onCancel(fn: () => Promise<void> | void): AsyncTupleRootTransactionApi<S> {
+		this.checkActive()
+		this.hooks.cancel.push(fn)
 		return this
 	}
 
 	async commit() {
 		this.checkActive()
+		try {
+			// A hook can add more hooks.
+			for (let i = 0; i < this.hooks.beforeCommit.length; i++) {
+				await this.hooks.beforeCommit[i](this)
+			}
+		} catch (error) {
+			await this.cancel()
+			throw error
+		}
 		this.committed = true
-		return this.db.commit(this.writes, this.id)
+		try {
+			await this.db.commit(this.writes, this.id, {
+				...this.conflicts,
+				readVersion: this.readVersion,
+			})
+		} catch (error) {
+			// Nothing was written, such as when the commit conflicts.
+			await runHooks(this.hooks.cancel)
+			throw error
+		}
+		await runHooks(this.hooks.afterCommit)
 	}
 
 	async cancel() {
 		this.checkActive()
 		this.canceled = true
-		return this.db.cancel(this.id)
+		await this.db.cancel(this.id)
+		await runHooks(this.hooks.cancel)
 	}
 
 	subspace<P extends TuplePrefix<S["key"]>>(
@@ -289,6 +738,18 @@ export class AsyncTupleSubspaceTransaction<S extends KeyValuePair>
 		return result as FilterTupleValuePairByPrefix<S, P>[]
 	}
 
+	async *iterate<T extends S["key"], P extends TuplePrefix<T>>(
+		args: ScanArgs<T, P> = {}
+	): AsyncIterable<FilterTupleValuePairByPrefix<S, P>> {
+		const storageScanArgs = normalizeSubspaceScanArgs(this.subspacePrefix, args)
+		for await (const pair of this.tx.iterate(storageScanArgs)) {
+			yield removePrefixFromTupleValuePair(
+				this.subspacePrefix,
+				pair
+			) as FilterTupleValuePairByPrefix<S, P>
+		}
+	}
+
 	async get<T extends S["key"]>(
 		tuple: T
 	): Promise<ValueForTuple<S, T> | undefined> {
@@ -301,6 +762,13 @@ export class AsyncTupleSubspaceTransaction<S extends KeyValuePair>
 		return this.tx.exists(fullTuple)
 	}
 
+	get snapshot(): AsyncTupleSnapshotApi<S> {
+		return new AsyncTupleSubspaceSnapshot<S>(
+			this.tx.snapshot,
+			this.subspacePrefix
+		)
+	}
+
 	// ReadApis
 	set<T extends S>(
 		tuple: T["key"],
@@ -317,19 +785,101 @@ export class AsyncTupleSubspaceTransaction<S extends KeyValuePair>
 		return this
 	}
 
+	clear<T extends S["key"], P extends TuplePrefix<T>>(
+		args: ClearArgs<T, P> = {}
+	): AsyncTupleTransactionApi<S> {
+		const bounds = normalizeSubspaceScanArgs(
+			this.subspacePrefix,
+			args as ScanArgs<T, P>
+		)
+		this.tx.clear(bounds)
+		return this
+	}
+
+	addReadConflictRange<T extends S["key"], P extends TuplePrefix<T>>(
+		args: ClearArgs<T, P> = {}
+	): AsyncTupleTransactionApi<S> {
+		const bounds = normalizeSubspaceScanArgs(
+			this.subspacePrefix,
+			args as ScanArgs<T, P>
+		)
+		this.tx.addReadConflictRange(bounds)
+		return this
+	}
+
+	addWriteConflictRange<T extends S["key"], P extends TuplePrefix<T>>(
+		args: ClearArgs<T, P> = {}
+	): AsyncTupleTransactionApi<S> {
+		const bounds = normalizeSubspaceScanArgs(
+			this.subspacePrefix,
+			args as ScanArgs<T, P>
+		)
+		this.tx.addWriteConflictRange(bounds)
+		return this
+	}
+
+	atomic<T extends S["key"]>(
+		op: AtomicOp,
+		tuple: T,
+		value: ValueForTuple<S, T>
+	): AsyncTupleTransactionApi<S> {
+		const fullTuple = prependPrefixToTuple(this.subspacePrefix, tuple)
+		this.tx.atomic(op, fullTuple, value)
+		return this
+	}
+
 	write(writes: WriteOps<S>): AsyncTupleTransactionApi<S> {
-		// If you're calling this function, then the order of these opertions
+		// Clears happen first, then the order of the rest of these operations
 		// shouldn't matter.
-		const { set, remove } = writes
+		const { set, remove, clear, atomic } = writes
+		for (const bounds of clear || []) {
+			this.clear(bounds as ClearArgs<any, any>)
+		}
 		for (const tuple of remove || []) {
 			this.remove(tuple)
 		}
 		for (const { key, value } of set || []) {
 			this.set(key, value)
 		}
+		for (const { op, key, value } of atomic || []) {
+			this.atomic(op, key, value)
+		}
 		return this
 	}
 
+	onBeforeCommit(
+		fn: (tx: AsyncTupleTransactionApi<S>) => Promise<void> | void
+	): AsyncTupleTransactionApi<S> {
+		// Writes from the hook are within this subspace.
+		this.tx.onBeforeCommit(() => fn(this))
+		return this
+	}
+
+	onAfterCommit(fn: () => Promise<void> | void): AsyncTupleTransactionApi<S> {
+		this.tx.onAfterCommit(fn)
+		return this
+	}
+
+	onCancel(fn: () => Promise<void> | void): AsyncTupleTransactionApi<S> {
+		this.tx.onCancel(fn)
+		return this
+	}
+
+	savepoint() {
+		return this.tx.savepoint()
+	}
+
+	rollbackTo(savepoint: Savepoint): AsyncTupleTransactionApi<S> {
+		this.tx.rollbackTo(savepoint)
+		return this
+	}
+
+	async nested<O>(
+		fn: (tx: AsyncTupleTransactionApi<S>) => Promise<O>
+	): Promise<O> {
+		return this.tx.nested(() => fn(this))
+	}
+
 	subspace<P extends TuplePrefix<S["key"]>>(
 		prefix: P
 	): AsyncTupleTransactionApi<RemoveTupleValuePairPrefix<S, P>> {
@@ -339,3 +889,73 @@ export class AsyncTupleSubspaceTransaction<S extends KeyValuePair>
 		])
 	}
 }
+
+export class AsyncTupleSubspaceSnapshot<S extends KeyValuePair>
+	implements AsyncTupleSnapshotApi<S>
+{
+	constructor(
+		private snapshot: AsyncTupleSnapshotApi<any>,
+		public subspacePrefix: Tuple
+	) {}
+
+	async scan<T extends S["key"], P extends TuplePrefix<T>>(
+		args: ScanArgs<T, P> = {}
+	): Promise<FilterTupleValuePairByPrefix<S, P>[]> {
+		const storageScanArgs = normalizeSubspaceScanArgs(this.subspacePrefix, args)
+		const pairs = await this.snapshot.scan(storageScanArgs)
+		const result = removePrefixFromTupleValuePairs(this.subspacePrefix, pairs)
+		return result as FilterTupleValuePairByPrefix<S, P>[]
+	}
+
+	async *iterate<T extends S["key"], P extends TuplePrefix<T>>(
+		args: ScanArgs<T, P> = {}
+	): AsyncIterable<FilterTupleValuePairByPrefix<S, P>> {
+		const storageScanArgs = normalizeSubspaceScanArgs(this.subspacePrefix, args)
+		for await (const pair of this.snapshot.iterate(storageScanArgs)) {
+			yield removePrefixFromTupleValuePair(
+				this.subspacePrefix,
+				pair
+			) as FilterTupleValuePairByPrefix<S, P>
+		}
+	}
+
+	async get<T extends S["key"]>(
+		tuple: T
+	): Promise<ValueForTuple<S, T> | undefined> {
+		const fullTuple = prependPrefixToTuple(this.subspacePrefix, tuple)
+		return this.snapshot.get(fullTuple)
+	}
+
+	async exists<T extends S["key"]>(tuple: T): Promise<boolean> {
+		const fullTuple = prependPrefixToTuple(this.subspacePrefix, tuple)
+		return this.snapshot.exists(fullTuple)
+	}
+}
+
+/** The transaction is already done so errors are logged like subscribers. */
+async function runHooks(hooks: (() => Promise<void> | void)[]) {
+	for (const fn of hooks) {
+		try {
+			await fn()
+		} catch (error) {
+			console.error(error)
+		}
+	}
+}
+
+function copySavepoint({ writes, conflicts, hooks }: Savepoint): Savepoint {
+	return {
+		writes: {
+			set: [...writes.set],
+			remove: [...writes.remove],
+			clear: [...writes.clear],
+			atomic: [...writes.atomic],
+		},
+		conflicts: { read: [...conflicts.read], write: [...conflicts.write] },
+		hooks: {
+			beforeCommit: [...hooks.beforeCommit],
+			afterCommit: [...hooks.afterCommit],
+			cancel: [...hooks.cancel],
+		},
+	}
+}
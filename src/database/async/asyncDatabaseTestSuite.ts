@@ -2,17 +2,27 @@ import { strict as assert } from "assert"
 import * as _ from "lodash"
 import { sum } from "lodash"
 import { describe, it } from "mocha"
+import { desc, Descending } from "../../helpers/descending"
 import { randomId } from "../../helpers/randomId"
-import { KeyValuePair, MAX, MIN, WriteOps } from "../../storage/types"
+import { InMemoryTupleStorage } from "../../storage/InMemoryTupleStorage"
+import { KeyValuePair, MAX, MIN, Tuple, WriteOps } from "../../storage/types"
 import { assertEqual } from "../../test/assertHelpers"
 import { sortedValues } from "../../test/fixtures"
+import { ReadWriteConflictError } from "../ConcurrencyLog"
+import { RetryInfo } from "../retryPolicy"
 import { transactionalWrite } from "../transactionalWrite"
+import { TransactionExpiredError } from "../TransactionExpiry"
 import { Assert } from "../typeHelpers"
+import { Change, ChangeBatch, ScanDiff } from "../types"
 import {
 	AsyncTupleDatabaseClientApi,
+	AsyncTupleRootTransactionApi,
 	AsyncTupleTransactionApi,
 } from "./asyncTypes"
-import { subscribeQueryAsync } from "./subscribeQueryAsync"
+import { AsyncTupleDatabase } from "./AsyncTupleDatabase"
+import { AsyncTupleDatabaseClient } from "./AsyncTupleDatabaseClient"
+import { observeQueryAsync, subscribeQueryAsync } from "./subscribeQueryAsync"
+import { subscribeScanAsync } from "./subscribeScanAsync"
 import { transactionalReadWriteAsync } from "./transactionalReadWriteAsync"
 
 const isSync = false
@@ -1568,6 +1578,213 @@ export function asyncDatabaseTestSuite(
 			})
 		})
 
+		describe("subscribe changes", () => {
+			it("calls back with the before and after values", async () => {
+				const store = createStorage(randomId())
+				await store.commit({
+					set: [
+						{ key: ["a", 1], value: 1 },
+						{ key: ["a", 2], value: 2 },
+					],
+				})
+
+				const changes: Change[] = []
+				await store.subscribe(
+					{ prefix: ["a"] },
+					(writes, txId, c) => {
+						changes.push(...c!)
+					},
+					{ changes: true }
+				)
+
+				await store
+					.transact()
+					.set(["a", 1], 10)
+					.remove(["a", 2])
+					.set(["a", 3], 3)
+					.remove(["a", 4])
+					.set(["b", 1], 1)
+					.commit()
+
+				assertEqual(changes, [
+					{ key: ["a", 1], before: 1, after: 10 },
+					{ key: ["a", 2], before: 2, after: undefined },
+					{ key: ["a", 3], before: undefined, after: 3 },
+				])
+			})
+
+			it("includes cleared values", async () => {
+				const store = createStorage(randomId())
+				await store.commit({
+					set: [
+						{ key: ["a", 1], value: 1 },
+						{ key: ["a", 2], value: 2 },
+						{ key: ["b", 1], value: 1 },
+					],
+				})
+
+				const changes: Change[] = []
+				await store.subscribe(
+					{ gte: ["a", 2] },
+					(writes, txId, c) => {
+						changes.push(...c!)
+					},
+					{ changes: true }
+				)
+
+				const tx = store.transact()
+				tx.clear({ gte: ["a"] })
+				tx.set(["b", 1], 10)
+				await tx.commit()
+
+				assertEqual(changes, [
+					{ key: ["a", 2], before: 2, after: undefined },
+					{ key: ["b", 1], before: 1, after: 10 },
+				])
+			})
+
+			it("only when subscribed with changes", async () => {
+				const store = createStorage(randomId())
+
+				const changes: (Change[] | undefined)[] = []
+				await store.subscribe({ prefix: ["a"] }, (writes, txId, c) => {
+					changes.push(c)
+				})
+
+				await store.commit({ set: [{ key: ["a"], value: 1 }] })
+				assertEqual(changes, [undefined])
+			})
+
+			it("works with subspaces", async () => {
+				const store = createStorage(randomId())
+				await store.commit({ set: [{ key: ["a", "b", 1], value: 1 }] })
+
+				const changes: Change[] = []
+				await store.subspace(["a"]).subscribe(
+					{},
+					(writes, txId, c) => {
+						changes.push(...c!)
+					},
+					{ changes: true }
+				)
+
+				await store.commit({ set: [{ key: ["a", "b", 1], value: 2 }] })
+				assertEqual(changes, [{ key: ["b", 1], before: 1, after: 2 }])
+			})
+		})
+
+		describe("observe", () => {
+			it("calls next with every batch until unsubscribed", async () => {
+				const store = createStorage(randomId())
+
+				const batches: ChangeBatch[] = []
+				const subscription = store
+					.observe({ prefix: ["a"] }, { changes: true })
+					.subscribe((batch) => batches.push(batch))
+
+				await store.commit({ set: [{ key: ["a", 1], value: 1 }] })
+				subscription.unsubscribe()
+				await store.commit({ set: [{ key: ["a", 2], value: 2 }] })
+
+				assertEqual(batches.length, 1)
+				assertEqual(batches[0].writes, {
+					set: [{ key: ["a", 1], value: 1 }],
+					remove: [],
+				})
+				assertEqual(batches[0].changes, [
+					{ key: ["a", 1], before: undefined, after: 1 },
+				])
+			})
+
+			it("observeQueryAsync emits the result and every change", async () => {
+				const store = createStorage(randomId())
+				await store.commit({ set: [{ key: ["a"], value: 1 }] })
+
+				const results: any[] = []
+				const subscription = observeQueryAsync(store, (db) =>
+					db.get(["a"])
+				).subscribe((result) => results.push(result))
+				// Wait for the first result.
+				await new Promise((resolve) => setTimeout(resolve, 10))
+				assertEqual(results, [1])
+
+				await store.commit({ set: [{ key: ["a"], value: 2 }] })
+				subscription.unsubscribe()
+				await store.commit({ set: [{ key: ["a"], value: 3 }] })
+				assertEqual(results, [1, 2])
+			})
+		})
+
+		describe("commit order", () => {
+			it("emits commits from callbacks after the current emit", async () => {
+				const store = createStorage(randomId())
+				const events: string[] = []
+
+				await store.subscribe({ prefix: ["a"] }, async () => {
+					events.push("a1")
+					await store.commit({ set: [{ key: ["b"], value: 1 }] })
+				})
+				await store.subscribe({ prefix: ["a"] }, async () => {
+					events.push("a2")
+				})
+				await store.subscribe({ prefix: ["b"] }, async () => {
+					events.push("b")
+				})
+
+				await store.commit({ set: [{ key: ["a"], value: 1 }] })
+				// Both callbacks for the first commit run before the second commit.
+				assertEqual(_.sortBy(events.slice(0, 2)), ["a1", "a2"])
+				assertEqual(events[2], "b")
+				assertEqual(await store.get(["b"]), 1)
+			})
+
+			it("writes commits from callbacks right away", async () => {
+				const store = createStorage(randomId())
+				const seen: any[] = []
+
+				await store.subscribe({ prefix: ["a"] }, async () => {
+					const committed: unknown = store.commit({
+						set: [{ key: ["b"], value: 1 }],
+					})
+					seen.push(committed instanceof Promise)
+					await committed
+					seen.push(await store.get(["b"]))
+
+					// Conflicts are thrown to the callback.
+					const tx = store.transact()
+					await tx.get(["b"])
+					tx.set(["b"], 2)
+					await store.commit({ set: [{ key: ["b"], value: 3 }] })
+					try {
+						await tx.commit()
+					} catch (error) {
+						seen.push(error instanceof ReadWriteConflictError)
+					}
+				})
+
+				await store.commit({ set: [{ key: ["a"], value: 1 }] })
+				assertEqual(seen, [!isSync, 1, true])
+				assertEqual(await store.get(["b"]), 3)
+			})
+
+			if (!isSync) {
+				it("emits concurrent commits in commit order", async () => {
+					const store = createStorage(randomId())
+					const values: number[] = []
+					await store.subscribe({ prefix: ["a"] }, async ({ set }) => {
+						for (const { value } of set || []) values.push(value)
+					})
+
+					const commits = _.range(10).map((i) =>
+						store.commit({ set: [{ key: ["a"], value: i }] })
+					)
+					for (const commit of commits) await commit
+					assertEqual(values, _.range(10))
+					assertEqual(await store.get(["a"]), 9)
+				})
+			}
+		})
+
 		describe("subscribeQueryAsync", () => {
 			it("works", async () => {
 				type Schema =
@@ -1672,6 +1889,344 @@ export function asyncDatabaseTestSuite(
 				await store.transact().set(["chet"], 3).commit()
 				assert.equal(total, 5)
 			})
+
+			it("calls onError when it fails to run again", async () => {
+				const store = createStorage(randomId())
+				await store.commit({ set: [{ key: ["a"], value: 1 }] })
+
+				const errors: any[] = []
+				const results: any[] = []
+				await subscribeQueryAsync(
+					store,
+					async (db) => {
+						const a = await db.get(["a"])
+						if (a === 2) throw new Error("Oops")
+						return a
+					},
+					(result) => {
+						results.push(result)
+					},
+					{
+						onError: (error) => {
+							errors.push(error)
+						},
+					}
+				)
+
+				await store.commit({ set: [{ key: ["a"], value: 2 }] })
+				await store.commit({ set: [{ key: ["a"], value: 3 }] })
+				assertEqual(
+					errors.map((error) => error.message),
+					["Oops"]
+				)
+				assertEqual(results, [3])
+			})
+		})
+
+		if (!isSync) {
+			describe("subscribeQueryAsync snapshots", () => {
+				const sleep = (ms: number) =>
+					new Promise((resolve) => setTimeout(resolve, ms))
+
+				it("never sees part of a commit", async () => {
+					const store = createStorage(randomId())
+					await store.commit({
+						set: [
+							{ key: ["a"], value: 0 },
+							{ key: ["b"], value: 0 },
+						],
+					})
+
+					let commit: Promise<void> | undefined
+					const computed: any[] = []
+					const results: any[] = []
+					const { result } = await subscribeQueryAsync(
+						store,
+						async (db) => {
+							const a = await db.get(["a"])
+							if (!commit) {
+								// Commit in between the two reads.
+								commit = store.commit({
+									set: [
+										{ key: ["a"], value: 1 },
+										{ key: ["b"], value: 1 },
+									],
+								})
+								await sleep(10)
+							}
+							const b = await db.get(["b"])
+							computed.push({ a, b })
+							return { a, b }
+						},
+						(result) => {
+							results.push(result)
+						}
+					)
+					await commit
+
+					assertEqual(computed[0], { a: 0, b: 0 })
+					assertEqual(result, { a: 1, b: 1 })
+					for (const { a, b } of [...computed, ...results]) assertEqual(a, b)
+				})
+
+				it("only calls back with the latest commit", async () => {
+					const store = createStorage(randomId())
+					await store.commit({ set: [{ key: ["a"], value: 0 }] })
+
+					let commit: Promise<void> | undefined
+					const results: any[] = []
+					await subscribeQueryAsync(
+						store,
+						async (db) => {
+							const a = await db.get(["a"])
+							if (a === 1 && !commit) {
+								commit = store.commit({ set: [{ key: ["a"], value: 2 }] })
+								await sleep(10)
+							}
+							return a
+						},
+						(result) => {
+							results.push(result)
+						}
+					)
+
+					await store.commit({ set: [{ key: ["a"], value: 1 }] })
+					await commit
+					assertEqual(results, [2])
+				})
+
+				it("gives up once it runs out of retries", async () => {
+					const store = createStorage(randomId())
+
+					let attempts = 0
+					const commits: Promise<void>[] = []
+					await assert.rejects(
+						() =>
+							subscribeQueryAsync(
+								store,
+								async (db) => {
+									attempts += 1
+									const a = await db.get(["a"])
+									// Change what we read every time.
+									commits.push(
+										store.commit({ set: [{ key: ["a"], value: attempts }] })
+									)
+									await sleep(10)
+									return a
+								},
+								() => {},
+								{ retries: 2 }
+							),
+						ReadWriteConflictError
+					)
+					for (const commit of commits) await commit
+					assert.equal(attempts, 3)
+				})
+			})
+		}
+
+		describe("subscribeScanAsync", () => {
+			it("calls back with diffs", async () => {
+				const store = createStorage(randomId())
+				await store.commit({
+					set: [
+						{ key: ["a", 1], value: 1 },
+						{ key: ["a", 3], value: 3 },
+						{ key: ["b", 1], value: 1 },
+					],
+				})
+
+				const calls: ScanDiff[][] = []
+				const { result, destroy } = await subscribeScanAsync(
+					store,
+					{ prefix: ["a"] },
+					(diffs) => {
+						calls.push(diffs)
+					}
+				)
+				assertEqual(result, [
+					{ key: ["a", 1], value: 1 },
+					{ key: ["a", 3], value: 3 },
+				])
+
+				await store.transact().set(["a", 2], 2).set(["a", 3], 30).commit()
+				await store.transact().remove(["a", 1]).commit()
+				await store.transact().set(["b", 2], 2).commit()
+				assertEqual(calls, [
+					[
+						{ type: "insert", index: 1, pair: { key: ["a", 2], value: 2 } },
+						{ type: "update", index: 2, pair: { key: ["a", 3], value: 30 } },
+					],
+					[{ type: "remove", index: 0 }],
+				])
+
+				destroy()
+				await store.transact().set(["a", 4], 4).commit()
+				assertEqual(calls.length, 2)
+			})
+
+			it("doesn't call back when a value is set to the same value", async () => {
+				const store = createStorage(randomId())
+				await store.commit({ set: [{ key: ["a", 1], value: { x: 1 } }] })
+
+				let calls = 0
+				await subscribeScanAsync(store, { prefix: ["a"] }, () => {
+					calls++
+				})
+
+				await store.transact().set(["a", 1], { x: 1 }).commit()
+				assertEqual(calls, 0)
+			})
+
+			it("clears", async () => {
+				const store = createStorage(randomId())
+				await store.commit({
+					set: [
+						{ key: ["a", 1], value: 1 },
+						{ key: ["a", 2], value: 2 },
+						{ key: ["a", 3], value: 3 },
+					],
+				})
+
+				let result: KeyValuePair[] = []
+				const calls: ScanDiff[][] = []
+				await subscribeScanAsync(store, { prefix: ["a"] }, (diffs, r) => {
+					calls.push(diffs)
+					result = r
+				})
+
+				const tx = store.transact()
+				tx.clear({ prefix: ["a"], gte: [2] })
+				await tx.commit()
+				assertEqual(calls, [
+					[
+						{ type: "remove", index: 2 },
+						{ type: "remove", index: 1 },
+					],
+				])
+				assertEqual(result, [{ key: ["a", 1], value: 1 }])
+			})
+
+			it("only scans again when the window shifts", async () => {
+				const store = createStorage(randomId())
+				await store.commit({
+					set: [
+						{ key: ["a", 2], value: 2 },
+						{ key: ["a", 4], value: 4 },
+						{ key: ["a", 6], value: 6 },
+					],
+				})
+
+				let scans = 0
+				const db: typeof store = Object.create(store)
+				db.scan = (...args: any[]) => {
+					scans++
+					return (store.scan as any)(...args)
+				}
+
+				const calls: ScanDiff[][] = []
+				let { result } = await subscribeScanAsync(
+					db,
+					{ prefix: ["a"], limit: 2 },
+					(diffs, r) => {
+						calls.push(diffs)
+						result = r
+					}
+				)
+				assertEqual(scans, 1)
+				assertEqual(result, [
+					{ key: ["a", 2], value: 2 },
+					{ key: ["a", 4], value: 4 },
+				])
+
+				// After the window.
+				await store.transact().set(["a", 5], 5).commit()
+				assertEqual(calls, [])
+
+				// Pushes the last item out of the window.
+				await store.transact().set(["a", 1], 1).commit()
+				assertEqual(calls, [
+					[
+						{ type: "insert", index: 0, pair: { key: ["a", 1], value: 1 } },
+						{ type: "remove", index: 2 },
+					],
+				])
+				assertEqual(scans, 1)
+
+				// Pulls the next item into the window.
+				calls.length = 0
+				await store.transact().remove(["a", 1]).commit()
+				assertEqual(calls, [
+					[
+						{ type: "remove", index: 0 },
+						{ type: "insert", index: 1, pair: { key: ["a", 4], value: 4 } },
+					],
+				])
+				assertEqual(scans, 2)
+				assertEqual(result, [
+					{ key: ["a", 2], value: 2 },
+					{ key: ["a", 4], value: 4 },
+				])
+			})
+
+			it("reverse", async () => {
+				const store = createStorage(randomId())
+				await store.commit({
+					set: [
+						{ key: ["a", 1], value: 1 },
+						{ key: ["a", 3], value: 3 },
+						{ key: ["a", 5], value: 5 },
+					],
+				})
+
+				const calls: ScanDiff[][] = []
+				let { result } = await subscribeScanAsync(
+					store,
+					{ prefix: ["a"], reverse: true, limit: 2 },
+					(diffs, r) => {
+						calls.push(diffs)
+						result = r
+					}
+				)
+
+				await store.transact().set(["a", 2], 2).commit()
+				assertEqual(calls, [])
+
+				await store.transact().set(["a", 6], 6).commit()
+				assertEqual(calls, [
+					[
+						{ type: "insert", index: 0, pair: { key: ["a", 6], value: 6 } },
+						{ type: "remove", index: 2 },
+					],
+				])
+				assertEqual(result, [
+					{ key: ["a", 6], value: 6 },
+					{ key: ["a", 5], value: 5 },
+				])
+			})
+
+			it("diffs always apply to the previous result", async () => {
+				const store = createStorage(randomId())
+				const args = { prefix: ["a"], limit: 5 }
+
+				let { result } = await subscribeScanAsync(store, args, (diffs, r) => {
+					result = applyScanDiffs(result, diffs)
+					assertEqual(result, r)
+				})
+
+				for (const i of _.range(100)) {
+					const tx = store.transact()
+					for (const j of _.range(_.random(1, 3))) {
+						const [start, end] = _.sortBy([_.random(10), _.random(10)])
+						const op = _.random(3)
+						if (op === 0) tx.remove(["a", start])
+						else if (op === 1) tx.clear({ gte: ["a", start], lte: ["a", end] })
+						else tx.set(["a", start], _.random(3))
+					}
+					await tx.commit()
+					assertEqual(result, await store.scan(args))
+				}
+			})
 		})
 
 		describe("subspace", () => {
@@ -2137,8 +2692,1080 @@ export function asyncDatabaseTestSuite(
 				})
 				resetScore(store)
 			})
+
+			it("Commits before resolving for async clients.", async () => {
+				const id = randomId()
+				type Schema = { key: ["score"]; value: number }
+				const store = createStorage<Schema>(id)
+
+				const resetScore = transactionalWrite<Schema>()((tx) => {
+					tx.set(["score"], 0)
+				})
+				await resetScore(store)
+				assertEqual(await store.get(["score"]), 0)
+			})
+
+			it("Retries when the commit conflicts.", async () => {
+				// Writes alone don't conflict, so the storage does it instead.
+				class ConflictOnceStorage extends InMemoryTupleStorage {
+					conflicts = 1
+					commit(writes: WriteOps) {
+						if (this.conflicts-- > 0) {
+							throw new ReadWriteConflictError(undefined, ["score"], {})
+						}
+						super.commit(writes)
+					}
+				}
+				type Schema = { key: ["score"]; value: number }
+				const store = new AsyncTupleDatabaseClient<Schema>(
+					new AsyncTupleDatabase(new ConflictOnceStorage())
+				)
+
+				let attempts = 0
+				const resetScore = transactionalWrite<Schema>({
+					onSuccess: (n) => (attempts = n),
+				})((tx) => {
+					tx.set(["score"], 0)
+					return "reset"
+				})
+				assertEqual(await resetScore(store), "reset")
+				assertEqual(attempts, 2)
+				assertEqual(await store.get(["score"]), 0)
+			})
 		})
 
-		// New tests here...
-	})
+		describe("iterate", () => {
+			const items: KeyValuePair[] = _.range(10).map((i) => ({
+				key: ["a", i],
+				value: i,
+			}))
+
+			it("works the same as scan", async () => {
+				const store = createStorage(randomId())
+				await store.commit({ set: [...items, { key: ["b", 0], value: 0 }] })
+
+				const argsList = [
+					{},
+					{ prefix: ["a"] },
+					{ prefix: ["a"], gt: [2], lte: [7] },
+					{ prefix: ["a"], gte: [2], lt: [7], reverse: true },
+					{ prefix: ["a"], limit: 3 },
+					{ prefix: ["a"], limit: 3, reverse: true },
+				]
+				for (const args of argsList) {
+					assertEqual(
+						await collect(store.iterate(args)),
+						await store.scan(args)
+					)
+				}
+			})
+
+			it("can stop part way through", async () => {
+				const store = createStorage(randomId())
+				await store.commit({ set: items })
+
+				const result: KeyValuePair[] = []
+				for await (const pair of store.iterate({ prefix: ["a"] })) {
+					result.push(pair)
+					if (result.length === 2) break
+				}
+				assertEqual(result, items.slice(0, 2))
+
+				await store.commit({ remove: [["a", 0]] })
+				assertEqual(await store.get(["a", 0]), undefined)
+			})
+
+			it("can commit while iterating", async () => {
+				const store = createStorage(randomId())
+				// More than a batch for storages that iterate in batches.
+				const many = _.range(250).map((i) => ({ key: ["a", i], value: i }))
+				await store.commit({ set: many })
+
+				const result: KeyValuePair[] = []
+				for await (const pair of store.iterate({ prefix: ["a"] })) {
+					result.push(pair)
+					await store.commit({ set: [{ key: ["b", result.length], value: 0 }] })
+				}
+				assertEqual(result, many)
+				assertEqual((await store.scan({ prefix: ["b"] })).length, 250)
+			})
+
+			it("tx.iterate merges pending writes", async () => {
+				const store = createStorage(randomId())
+				await store.commit({ set: items })
+
+				const tx = store.transact()
+				tx.set(["a", -1], -1)
+				tx.set(["a", 2.5], 2.5)
+				tx.set(["a", 4], 99)
+				tx.remove(["a", 5])
+				tx.set(["a", 20], 20)
+
+				const argsList = [
+					{ prefix: ["a"] },
+					{ prefix: ["a"], reverse: true },
+					{ prefix: ["a"], gte: [2], lte: [6] },
+					{ prefix: ["a"], gt: [2], lt: [6], reverse: true },
+					{ prefix: ["a"], limit: 6 },
+					{ prefix: ["a"], limit: 6, reverse: true },
+				]
+				for (const args of argsList) {
+					assertEqual(await collect(tx.iterate(args)), await tx.scan(args))
+				}
+			})
+
+			it("tx.iterate in a subspace", async () => {
+				type Schema = { key: ["a", number]; value: number }
+				const store = createStorage<Schema>(randomId())
+				await store.commit({ set: items as Schema[] })
+
+				const tx = store.transact()
+				tx.set(["a", 3.5], 3.5)
+				const a = tx.subspace(["a"])
+				a.remove([3])
+
+				assertEqual(await collect(a.iterate({ gt: [2], lt: [5] })), [
+					{ key: [3.5], value: 3.5 },
+					{ key: [4], value: 4 },
+				])
+			})
+
+			it("tx.iterate conflicts with writes to the same range", async () => {
+				const store = createStorage(randomId())
+				await store.commit({ set: items })
+
+				const tx = store.transact()
+				await collect(tx.iterate({ prefix: ["a"] }))
+
+				await store.transact().set(["a", 100], null).commit()
+				await assert.rejects(() => tx.commit())
+			})
+		})
+
+		describe("desc", () => {
+			type Schema = {
+				key: ["score", Descending<number>, string]
+				value: null
+			}
+
+			const scores: Schema["key"][] = [
+				["score", desc(3), "a"],
+				["score", desc(3), "b"],
+				["score", desc(2), "c"],
+				["score", desc(1), "a"],
+			]
+
+			it("sorts descending components in reverse", async () => {
+				const store = createStorage<Schema>(randomId())
+				const tx = store.transact()
+				for (const key of _.shuffle(scores)) tx.set(key, null)
+				await tx.commit()
+
+				const result = await store.scan({ prefix: ["score"] })
+				assertEqual(
+					result.map(({ key }) => key),
+					scores
+				)
+				const score: number = result[0].key[1].value
+				assertEqual(score, 3)
+			})
+
+			it("scans with descending bounds", async () => {
+				const store = createStorage<Schema>(randomId())
+				await store.commit({ set: scores.map((key) => ({ key, value: null })) })
+
+				const tx = store.transact()
+				tx.remove(["score", desc(2), "c"])
+				tx.set(["score", desc(2.5), "d"], null)
+				const result = await tx.scan({
+					prefix: ["score"],
+					gt: [desc(3), MAX],
+					lt: [desc(1)],
+				})
+				assertEqual(
+					result.map(({ key }) => key),
+					[["score", desc(2.5), "d"]]
+				)
+			})
+		})
+
+		describe("clear", () => {
+			const items: KeyValuePair[] = _.range(10).map((n) => ({
+				key: ["a", n],
+				value: n,
+			}))
+			const keys = (pairs: KeyValuePair[]) => pairs.map(({ key }) => key[1])
+
+			it("removes a range from storage", async () => {
+				const store = createStorage(randomId())
+				await store.commit({ set: [...items, { key: ["b", 0], value: 0 }] })
+
+				await store.commit({ clear: [{ gte: ["a", 3], lt: ["a", 7] }] })
+				assertEqual(
+					keys(await store.scan({ prefix: ["a"] })),
+					[0, 1, 2, 7, 8, 9]
+				)
+
+				await store
+					.transact()
+					.clear({ prefix: ["a"] })
+					.commit()
+				assertEqual(await store.scan(), [{ key: ["b", 0], value: 0 }])
+			})
+
+			it("clears before setting in the same commit", async () => {
+				const store = createStorage(randomId())
+				await store.commit({ set: items })
+				await store.commit({
+					clear: [{ gte: ["a"], lte: ["a", MAX] }],
+					set: [{ key: ["a", 5], value: "x" }],
+				})
+				assertEqual(await store.scan(), [{ key: ["a", 5], value: "x" }])
+			})
+
+			it("tx reads its own clears", async () => {
+				const store = createStorage(randomId())
+				await store.commit({ set: items })
+
+				const tx = store.transact()
+				tx.clear({ prefix: ["a"], gte: [2], lt: [8] })
+				tx.set(["a", 5], "x")
+
+				assertEqual(keys(await tx.scan({ prefix: ["a"] })), [0, 1, 5, 8, 9])
+				assertEqual(keys(await tx.scan({ prefix: ["a"], limit: 3 })), [0, 1, 5])
+				assertEqual(
+					keys(await tx.scan({ prefix: ["a"], limit: 2, reverse: true })),
+					[9, 8]
+				)
+				assertEqual(
+					await collect(tx.iterate({ prefix: ["a"], limit: 4 })),
+					await tx.scan({ prefix: ["a"], limit: 4 })
+				)
+				assertEqual(await tx.get(["a", 3]), undefined)
+				assertEqual(await tx.exists(["a", 4]), false)
+				assertEqual(await tx.get(["a", 5]), "x")
+				assertEqual(await tx.get(["a", 9]), 9)
+
+				await tx.commit()
+				assertEqual(keys(await store.scan()), [0, 1, 5, 8, 9])
+			})
+
+			it("tx clear removes pending writes in the range", async () => {
+				const store = createStorage(randomId())
+				await store.commit({ set: items })
+
+				const tx = store.transact()
+				tx.set(["a", 100], 100)
+				tx.set(["b", 0], 0)
+				tx.remove(["a", 1])
+				tx.clear({ prefix: ["a"] })
+				assertEqual(await tx.scan(), [{ key: ["b", 0], value: 0 }])
+				assertEqual(tx.writes.set.length, 1)
+				assertEqual(tx.writes.remove.length, 0)
+
+				await tx.commit()
+				assertEqual(await store.scan(), [{ key: ["b", 0], value: 0 }])
+			})
+
+			it("tx clear in a subspace", async () => {
+				type Schema = { key: [string, number]; value: number }
+				const store = createStorage<Schema>(randomId())
+				await store.commit({
+					set: [...(items as Schema[]), { key: ["b", 0], value: 0 }],
+				})
+
+				const tx = store.transact()
+				tx.subspace(["a"]).clear({ gt: [7] })
+				tx.subspace(["a"]).write({ clear: [{ lte: [1] }] })
+				assertEqual(await tx.subspace(["a"]).get([2]), 2)
+				assertEqual(await tx.subspace(["a"]).get([8]), undefined)
+				assertEqual(await tx.subspace(["a"]).get([1]), undefined)
+				await tx.commit()
+
+				assertEqual(
+					keys(await store.scan({ prefix: ["a"] })),
+					[2, 3, 4, 5, 6, 7]
+				)
+				assertEqual(await store.get(["b", 0]), 0)
+			})
+
+			it("clears only within a subspace", async () => {
+				const store = createStorage(randomId())
+				await store.commit({
+					set: [
+						{ key: ["a", 1], value: 1 },
+						{ key: ["b", 1], value: 1 },
+						{ key: ["b", 2], value: 2 },
+						{ key: ["c", 1], value: 1 },
+					],
+				})
+
+				await store.subspace(["b"]).commit({ clear: [{ gte: [2] }] })
+				assertEqual(
+					(await store.scan()).map(({ key }) => key),
+					[
+						["a", 1],
+						["b", 1],
+						["c", 1],
+					]
+				)
+
+				await store.subspace(["b"]).commit({ clear: [{}] })
+				assertEqual(
+					(await store.scan()).map(({ key }) => key),
+					[
+						["a", 1],
+						["c", 1],
+					]
+				)
+			})
+
+			it("conflicts with reads in the cleared range", async () => {
+				const store = createStorage(randomId())
+				await store.commit({ set: items })
+
+				const tx1 = store.transact()
+				await tx1.get(["a", 5])
+				tx1.set(["c"], 1)
+
+				const tx2 = store.transact()
+				await tx2.get(["a", 9])
+				tx2.set(["c"], 2)
+
+				await store
+					.transact()
+					.clear({ prefix: ["a"], lt: [8] })
+					.commit()
+
+				await assert.rejects(() => tx1.commit())
+				await tx2.commit()
+				assertEqual(await store.get(["c"]), 2)
+			})
+
+			it("emits clears to overlapping subscriptions", async () => {
+				const store = createStorage(randomId())
+				await store.commit({ set: items })
+
+				const emits: { [name: string]: WriteOps[] } = { a: [], b: [], sub: [] }
+				await store.subscribe({ prefix: ["a"], gte: [3] }, (writes) => {
+					emits.a.push(writes)
+				})
+				await store.subscribe({ prefix: ["b"] }, (writes) => {
+					emits.b.push(writes)
+				})
+				await store.subspace(["a"]).subscribe({}, (writes) => {
+					emits.sub.push(writes)
+				})
+
+				await store
+					.transact()
+					.clear({ prefix: ["a"], gte: [1], lt: [5] })
+					.commit()
+
+				assertEqual(emits.a, [
+					{ set: [], remove: [], clear: [{ gte: ["a", 3], lt: ["a", 5] }] },
+				])
+				assertEqual(emits.b, [])
+				assertEqual(emits.sub, [
+					{ set: [], remove: [], clear: [{ gte: [1], lt: [5] }] },
+				])
+			})
+		})
+
+		describe("atomic", () => {
+			it("applies each op against the current value", async () => {
+				const store = createStorage(randomId())
+				await store.commit({
+					set: [
+						{ key: ["add"], value: 1 },
+						{ key: ["min"], value: 5 },
+						{ key: ["max"], value: 5 },
+						{ key: ["bitOr"], value: 0b01 },
+						{ key: ["appendIfFits"], value: [1] },
+						{ key: ["setIfAbsent"], value: "a" },
+					],
+				})
+
+				await store.commit({
+					atomic: [
+						{ op: "add", key: ["add"], value: 2 },
+						{ op: "add", key: ["add"], value: 3 },
+						{ op: "min", key: ["min"], value: 3 },
+						{ op: "max", key: ["max"], value: 3 },
+						{ op: "bitOr", key: ["bitOr"], value: 0b10 },
+						{ op: "appendIfFits", key: ["appendIfFits"], value: [2] },
+						{ op: "setIfAbsent", key: ["setIfAbsent"], value: "b" },
+						{ op: "setIfAbsent", key: ["new"], value: "c" },
+					],
+				})
+
+				assertEqual(await store.scan(), [
+					{ key: ["add"], value: 6 },
+					{ key: ["appendIfFits"], value: [1, 2] },
+					{ key: ["bitOr"], value: 0b11 },
+					{ key: ["max"], value: 5 },
+					{ key: ["min"], value: 3 },
+					{ key: ["new"], value: "c" },
+					{ key: ["setIfAbsent"], value: "a" },
+				])
+			})
+
+			it("concurrent atomic mutations don't conflict", async () => {
+				const store = createStorage(randomId())
+				await store.commit({ set: [{ key: ["count"], value: 0 }] })
+
+				const tx1 = store.transact().atomic("add", ["count"], 1)
+				const tx2 = store.transact().atomic("add", ["count"], 1)
+
+				const tx3 = store.transact()
+				const count = await tx3.get(["count"])
+				tx3.set(["count"], count + 10)
+
+				await tx1.commit()
+				await tx2.commit()
+				await assert.rejects(() => tx3.commit())
+				assertEqual(await store.get(["count"]), 2)
+			})
+
+			it("tx reads its own atomic mutations", async () => {
+				const store = createStorage(randomId())
+				await store.commit({ set: [{ key: ["count"], value: 5 }] })
+
+				const tx = store.transact()
+				tx.atomic("add", ["count"], 2)
+				tx.atomic("add", ["count"], 1)
+				tx.atomic("setIfAbsent", ["other"], 1)
+				assertEqual(await tx.get(["count"]), 8)
+				assertEqual(await tx.exists(["other"]), true)
+				assertEqual(await tx.scan(), [
+					{ key: ["count"], value: 8 },
+					{ key: ["other"], value: 1 },
+				])
+				assertEqual(await collect(tx.iterate({ reverse: true })), [
+					{ key: ["other"], value: 1 },
+					{ key: ["count"], value: 8 },
+				])
+
+				await store.commit({ set: [{ key: ["count"], value: 100 }] })
+				await assert.rejects(() => tx.commit())
+			})
+
+			it("applies right away when the value is known", async () => {
+				const store = createStorage(randomId())
+				await store.commit({ set: [{ key: ["a"], value: 5 }] })
+
+				const tx = store.transact()
+				tx.set(["a"], 1).atomic("add", ["a"], 2)
+				tx.remove(["b"]).atomic("add", ["b"], 3)
+				tx.atomic("add", ["c"], 1).set(["c"], 10)
+				assertEqual(tx.writes.atomic, [])
+				await tx.commit()
+
+				assertEqual(await store.scan(), [
+					{ key: ["a"], value: 3 },
+					{ key: ["b"], value: 3 },
+					{ key: ["c"], value: 10 },
+				])
+			})
+
+			it("emits the result to subscribers", async () => {
+				const store = createStorage(randomId())
+				await store.commit({ set: [{ key: ["count"], value: 1 }] })
+
+				const emits: WriteOps[] = []
+				await store.subscribe({ prefix: ["count"] }, (writes) => {
+					emits.push(writes)
+				})
+
+				await store.transact().atomic("add", ["count"], 1).commit()
+				assertEqual(emits, [
+					{ set: [{ key: ["count"], value: 2 }], remove: [] },
+				])
+			})
+		})
+
+		describe("snapshot reads", () => {
+			it("reads from the version of its first read", async () => {
+				const store = createStorage(randomId())
+				await store.commit({
+					set: [
+						{ key: ["a"], value: 1 },
+						{ key: ["b"], value: 2 },
+						{ key: ["c"], value: 3 },
+					],
+				})
+
+				const tx = store.transact()
+				assertEqual(await tx.get(["a"]), 1)
+				await store.commit({
+					set: [
+						{ key: ["a"], value: 10 },
+						{ key: ["a", 1], value: 11 },
+					],
+					remove: [["b"]],
+				})
+				await store.commit({ clear: [{ gte: ["c"] }] })
+
+				assertEqual(await tx.get(["a"]), 1)
+				assertEqual(await tx.exists(["b"]), true)
+				assertEqual(await tx.scan(), [
+					{ key: ["a"], value: 1 },
+					{ key: ["b"], value: 2 },
+					{ key: ["c"], value: 3 },
+				])
+				assertEqual(await tx.scan({ limit: 2 }), [
+					{ key: ["a"], value: 1 },
+					{ key: ["b"], value: 2 },
+				])
+				assertEqual(await collect(tx.iterate({ reverse: true, limit: 2 })), [
+					{ key: ["c"], value: 3 },
+					{ key: ["b"], value: 2 },
+				])
+				await tx.cancel()
+
+				assertEqual(await store.scan(), [
+					{ key: ["a"], value: 10 },
+					{ key: ["a", 1], value: 11 },
+				])
+			})
+
+			it("sees the latest version in a new transaction", async () => {
+				const store = createStorage(randomId())
+				await store.commit({ set: [{ key: ["a"], value: 1 }] })
+
+				const tx1 = store.transact()
+				await tx1.get(["b"])
+				await store.commit({ set: [{ key: ["a"], value: 2 }] })
+				const tx2 = store.transact()
+				await tx2.get(["b"])
+				await store.commit({ set: [{ key: ["a"], value: 3 }] })
+
+				assertEqual(await tx1.get(["a"]), 1)
+				assertEqual(await tx2.get(["a"]), 2)
+				assertEqual(await store.transact().get(["a"]), 3)
+			})
+
+			it("takes the read version on the first read", async () => {
+				const store = createStorage(randomId())
+				await store.commit({ set: [{ key: ["a"], value: 1 }] })
+
+				const tx = store.transact()
+				await store.commit({ set: [{ key: ["a"], value: 2 }] })
+				assertEqual(await tx.get(["a"]), 2)
+				tx.set(["b"], 2)
+				await tx.commit()
+			})
+
+			it("conflicts with writes from before the read", async () => {
+				const store = createStorage(randomId())
+				await store.commit({ set: [{ key: ["a"], value: 1 }] })
+
+				const tx = store.transact()
+				await tx.get(["b"])
+				await store.transact().set(["a"], 2).commit()
+
+				const a = await tx.get(["a"])
+				tx.set(["b"], a)
+				await assert.rejects(() => tx.commit())
+			})
+		})
+
+		describe("tx.snapshot", () => {
+			it("reads without conflicting", async () => {
+				const store = createStorage(randomId())
+				await store.commit({
+					set: [
+						{ key: ["name"], value: "chet" },
+						{ key: ["score"], value: 1 },
+					],
+				})
+
+				const tx = store.transact()
+				const name = await tx.snapshot.get(["name"])
+				assertEqual(await tx.snapshot.exists(["score"]), true)
+				assertEqual(await tx.snapshot.scan(), [
+					{ key: ["name"], value: "chet" },
+					{ key: ["score"], value: 1 },
+				])
+				tx.set(["greeting"], "hello " + name)
+
+				await store
+					.transact()
+					.set(["name"], "meghan")
+					.remove(["score"])
+					.commit()
+
+				// Still reads from the same version as the rest of the transaction.
+				assertEqual(await tx.snapshot.get(["name"]), "chet")
+				await tx.commit()
+				assertEqual(await store.get(["greeting"]), "hello chet")
+			})
+
+			it("merges pending writes", async () => {
+				const store = createStorage(randomId())
+				await store.commit({
+					set: [
+						{ key: ["a"], value: 1 },
+						{ key: ["b"], value: 2 },
+						{ key: ["c"], value: 3 },
+					],
+				})
+
+				const tx = store.transact()
+				tx.set(["a"], 10).remove(["b"]).atomic("add", ["c"], 1)
+				assertEqual(await tx.snapshot.get(["a"]), 10)
+				assertEqual(await tx.snapshot.exists(["b"]), false)
+				assertEqual(await collect(tx.snapshot.iterate({ reverse: true })), [
+					{ key: ["c"], value: 4 },
+					{ key: ["a"], value: 10 },
+				])
+
+				await store.commit({ set: [{ key: ["c"], value: 100 }] })
+				await tx.commit()
+				assertEqual(await store.get(["c"]), 101)
+			})
+
+			it("reads from a subspace", async () => {
+				type Schema = { key: [string, number]; value: number }
+				const store = createStorage<Schema>(randomId())
+				await store.commit({
+					set: [
+						{ key: ["a", 1], value: 1 },
+						{ key: ["b", 1], value: 2 },
+					],
+				})
+
+				const tx = store.transact()
+				const a = tx.subspace(["a"])
+				a.set([2], 2)
+				assertEqual(await a.snapshot.scan(), [
+					{ key: [1], value: 1 },
+					{ key: [2], value: 2 },
+				])
+				assertEqual(await a.snapshot.get([1]), 1)
+
+				await store.commit({ set: [{ key: ["a", 1], value: 10 }] })
+				await tx.commit()
+			})
+		})
+
+		describe("conflict ranges", () => {
+			it("addReadConflictRange conflicts without reading", async () => {
+				const store = createStorage(randomId())
+
+				const tx = store.transact()
+				tx.addReadConflictRange({ prefix: ["score"] })
+				tx.set(["total"], 0)
+
+				await store.transact().set(["score", "chet"], 1).commit()
+				await assert.rejects(() => tx.commit())
+			})
+
+			it("addWriteConflictRange conflicts without writing", async () => {
+				const store = createStorage(randomId())
+				await store.commit({ set: [{ key: ["score", "chet"], value: 1 }] })
+
+				const tx = store.transact()
+				await tx.scan({ prefix: ["score"] })
+				tx.set(["total"], 1)
+
+				await store
+					.transact()
+					.addWriteConflictRange({ gte: ["score"], lt: ["score", "d"] })
+					.commit()
+				await assert.rejects(() => tx.commit())
+				assertEqual(await store.scan(), [{ key: ["score", "chet"], value: 1 }])
+			})
+
+			it("serializes transactions on a lock key", async () => {
+				const store = createStorage(randomId())
+				const lock = (tx: AsyncTupleRootTransactionApi) =>
+					tx
+						.addReadConflictRange({ prefix: ["lock"] })
+						.addWriteConflictRange({ prefix: ["lock"] })
+
+				const job1 = lock(store.transact()).set(["job", 1], true)
+				const job2 = lock(store.transact()).set(["job", 2], true)
+				await job1.commit()
+				await assert.rejects(() => job2.commit())
+				await lock(store.transact()).set(["job", 2], true).commit()
+
+				assertEqual(await store.scan(), [
+					{ key: ["job", 1], value: true },
+					{ key: ["job", 2], value: true },
+				])
+			})
+
+			it("prefixes conflict ranges in a subspace", async () => {
+				type Schema = { key: [string, number]; value: number }
+				const store = createStorage<Schema>(randomId())
+
+				const tx = store.transact()
+				tx.subspace(["a"]).addReadConflictRange({ gte: [1], lt: [2] })
+
+				await store.transact().set(["b", 1], 1).commit()
+				await store.transact().set(["a", 2], 2).commit()
+				await tx.commit()
+
+				const tx2 = store.transact()
+				tx2.subspace(["a"]).addReadConflictRange({ gte: [1], lt: [2] })
+
+				const tx3 = store.transact()
+				tx3.subspace(["a"]).addWriteConflictRange({ prefix: [1] })
+				await tx3.commit()
+				await assert.rejects(() => tx2.commit())
+			})
+		})
+
+		describe("savepoints", () => {
+			it("rollbackTo discards the writes since the savepoint", async () => {
+				const store = createStorage(randomId())
+
+				const tx = store.transact()
+				tx.set(["a"], 1)
+				const savepoint = tx.savepoint()
+				tx.set(["b"], 2)
+				tx.remove(["a"])
+				tx.clear({ prefix: ["c"] })
+				tx.rollbackTo(savepoint)
+				assertEqual(await tx.scan(), [{ key: ["a"], value: 1 }])
+
+				// The same savepoint can be rolled back to again.
+				tx.set(["b"], 2)
+				tx.rollbackTo(savepoint).set(["c"], 3)
+				await tx.commit()
+				assertEqual(await store.scan(), [
+					{ key: ["a"], value: 1 },
+					{ key: ["c"], value: 3 },
+				])
+			})
+
+			it("nested discards the writes and reads when it throws", async () => {
+				const store = createStorage(randomId())
+				await store.commit({ set: [{ key: ["score"], value: 0 }] })
+
+				const tx = store.transact()
+				await assert.rejects(() =>
+					tx.nested(async (tx) => {
+						const score = (await tx.get(["score"]))!
+						tx.set(["total"], score + 1)
+						throw new Error("Oops")
+					})
+				)
+				tx.set(["other"], 1)
+
+				// Doesn't conflict because the read was rolled back.
+				await store.transact().set(["score"], 1).commit()
+				await tx.commit()
+				assertEqual(await store.scan(), [
+					{ key: ["other"], value: 1 },
+					{ key: ["score"], value: 1 },
+				])
+			})
+
+			it("nested discards the hooks when it throws", async () => {
+				const store = createStorage(randomId())
+				const events: string[] = []
+
+				const tx = store.transact()
+				tx.onAfterCommit(() => {
+					events.push("outer")
+				})
+				await assert.rejects(() =>
+					tx.nested(async (tx) => {
+						tx.onBeforeCommit(() => {
+							events.push("before")
+						})
+						tx.onAfterCommit(() => {
+							events.push("after")
+						})
+						tx.onCancel(() => {
+							events.push("cancel")
+						})
+						throw new Error("Oops")
+					})
+				)
+				await tx.commit()
+				assertEqual(events, ["outer"])
+			})
+
+			it("nested keeps the writes and returns the result", async () => {
+				type Schema = { key: ["a", number]; value: number }
+				const store = createStorage<Schema>(randomId())
+
+				const tx = store.transact()
+				const result = await tx.subspace(["a"]).nested(async (tx) => {
+					tx.set([1], 1)
+					return "done"
+				})
+				assertEqual(result, "done")
+				await tx.commit()
+				assertEqual(await store.scan(), [{ key: ["a", 1], value: 1 }])
+			})
+		})
+
+		describe("commit hooks", () => {
+			it("runs the hooks around the commit", async () => {
+				const store = createStorage(randomId())
+				const events: string[] = []
+
+				const tx = store.transact()
+				tx.set(["a"], 1)
+				tx.onBeforeCommit(async (tx) => {
+					events.push("before")
+					const a = (await tx.get(["a"]))!
+					tx.set(["b"], a + 1)
+				})
+				tx.onAfterCommit(async () => {
+					events.push("after")
+					assertEqual(await store.get(["b"]), 2)
+				})
+				tx.onCancel(() => {
+					events.push("cancel")
+				})
+
+				await tx.commit()
+				assertEqual(events, ["before", "after"])
+			})
+
+			it("cancels when a before commit hook throws", async () => {
+				const store = createStorage(randomId())
+				const events: string[] = []
+
+				const tx = store.transact()
+				tx.set(["a"], 1)
+				tx.onBeforeCommit(() => {
+					throw new Error("Invalid")
+				})
+				tx.onAfterCommit(() => {
+					events.push("after")
+				})
+				tx.onCancel(() => {
+					events.push("cancel")
+				})
+
+				await assert.rejects(() => tx.commit())
+				assertEqual(events, ["cancel"])
+				assertEqual(await store.scan(), [])
+			})
+
+			it("hooks on a subspace write within the subspace", async () => {
+				type Schema = { key: ["a", number]; value: number }
+				const store = createStorage<Schema>(randomId())
+
+				const tx = store.transact()
+				tx.subspace(["a"]).onBeforeCommit((tx) => {
+					tx.set([1], 1)
+				})
+				await tx.commit()
+				assertEqual(await store.scan(), [{ key: ["a", 1], value: 1 }])
+			})
+
+			it("transactionalReadWrite only runs them for the attempt that commits", async () => {
+				type Schema = { key: ["score"]; value: number }
+				const store = createStorage<Schema>(randomId())
+				await store.commit({ set: [{ key: ["score"], value: 0 }] })
+
+				let attempts = 0
+				const committed: number[] = []
+				const conflicted: number[] = []
+				const incScore = transactionalReadWriteAsync<Schema>()(async (tx) => {
+					const attempt = ++attempts
+					const score = (await tx.get(["score"]))!
+					// Conflict the first time around.
+					if (attempt === 1) {
+						await store.transact().set(["score"], 10).commit()
+					}
+					tx.set(["score"], score + 1)
+					tx.onAfterCommit(() => {
+						committed.push(attempt)
+					})
+					tx.onCancel(() => {
+						conflicted.push(attempt)
+					})
+				})
+
+				await incScore(store)
+				assertEqual(committed, [2])
+				assertEqual(conflicted, [1])
+
+				const canceled: number[] = []
+				const fail = transactionalReadWriteAsync<Schema>()(async (tx) => {
+					tx.onCancel(() => {
+						canceled.push(1)
+					})
+					throw new Error("Oops")
+				})
+				await assert.rejects(() => fail(store))
+				assertEqual(canceled, [1])
+			})
+		})
+
+		describe("transaction expiry", () => {
+			it("cleans up transactions that are never committed", async () => {
+				const db = new AsyncTupleDatabase(new InMemoryTupleStorage(), {
+					maxTransactionAge: 0,
+				})
+				const store = new AsyncTupleDatabaseClient(db)
+
+				const tx = store.transact()
+				tx.addReadConflictRange({ prefix: ["a"] })
+				tx.set(["a"], 1)
+				assertEqual(db.log.log.length, 1)
+
+				await store.commit({ set: [{ key: ["b"], value: 2 }] })
+				assertEqual(db.log.log, [])
+
+				await assert.rejects(() => tx.commit(), TransactionExpiredError)
+				assertEqual(await store.scan(), [{ key: ["b"], value: 2 }])
+			})
+
+			it("rejects the commit once the expired transaction is forgotten", async () => {
+				const db = new AsyncTupleDatabase(new InMemoryTupleStorage(), {
+					maxTransactionAge: 0,
+				})
+				const store = new AsyncTupleDatabaseClient(db)
+
+				const tx = store.transact()
+				tx.addReadConflictRange({ prefix: ["a"] })
+				tx.set(["a"], 1)
+				await store.commit({ set: [{ key: ["a"], value: 2 }] })
+
+				// Only the 10,000 most recently expired transactions are remembered.
+				for (let i = 0; i < 10_000; i++) {
+					store.transact().addReadConflictRange({ prefix: ["b"] })
+				}
+				await store.commit({ set: [{ key: ["b"], value: 3 }] })
+
+				await assert.rejects(() => tx.commit(), TransactionExpiredError)
+				assertEqual(await store.get(["a"]), 2)
+			})
+
+			it("keeps nothing for a transaction that never reads", async () => {
+				const db = new AsyncTupleDatabase(new InMemoryTupleStorage())
+				const store = new AsyncTupleDatabaseClient(db)
+
+				const tx = store.transact()
+				tx.set(["a"], 0)
+				for (let i = 0; i < 10; i++) {
+					await store.commit({ set: [{ key: ["b", i], value: i }] })
+				}
+				assertEqual(db.log.log, [])
+				assert.equal(db.history.isPinned(), false)
+			})
+
+			it("can't read once the transaction has expired", async () => {
+				const store = new AsyncTupleDatabaseClient(
+					new AsyncTupleDatabase(new InMemoryTupleStorage(), {
+						maxTransactionAge: 0,
+					})
+				)
+
+				const tx = store.transact()
+				await assert.rejects(() => tx.scan(), TransactionExpiredError)
+				await tx.cancel()
+			})
+		})
+
+		describe("traceConflicts", () => {
+			it("records the conflicts on the database", async () => {
+				const db = new AsyncTupleDatabase(new InMemoryTupleStorage(), {
+					traceConflicts: true,
+				})
+				const store = new AsyncTupleDatabaseClient(db)
+
+				const tx = store.transact()
+				await tx.scan({ prefix: ["score"] })
+				await store.transact().set(["score", "chet"], 1).commit()
+				await assert.rejects(() => tx.commit())
+
+				assertEqual(db.conflicts!.conflicts.length, 1)
+				assertEqual(db.conflicts!.hotWrites(), [
+					{ value: ["score", "chet"], count: 1 },
+				])
+				assertEqual(db.conflicts!.hotConflicts(), [
+					{
+						value: {
+							readBounds: db.conflicts!.conflicts[0].readBounds,
+							write: ["score", "chet"],
+						},
+						count: 1,
+					},
+				])
+			})
+		})
+
+		describe("retry policy", () => {
+			it("calls the hooks with the conflict and the attempts", async () => {
+				type Schema = { key: ["score"]; value: number }
+				const store = createStorage<Schema>(randomId())
+				await store.commit({ set: [{ key: ["score"], value: 0 }] })
+
+				const retries: RetryInfo[] = []
+				let attempts = 0
+				const incScore = transactionalReadWriteAsync<Schema>({
+					initialDelay: 1,
+					onRetry: (info) => retries.push(info),
+					onSuccess: (n) => (attempts = n),
+				})(async (tx) => {
+					const score = (await tx.get(["score"]))!
+					// Conflict the first time around.
+					if (retries.length === 0) {
+						await store.transact().set(["score"], 10).commit()
+					}
+					tx.set(["score"], score + 1)
+				})
+
+				await incScore(store)
+				assertEqual(await store.get(["score"]), 11)
+				assertEqual(attempts, 2)
+				assertEqual(retries.length, 1)
+				assertEqual(retries[0].attempts, 1)
+
+				const { error } = retries[0]
+				assert.ok(error instanceof ReadWriteConflictError)
+				// The write is to the storage key which may be within a subspace.
+				assertEqual(_.last(error.write as Tuple), "score")
+			})
+
+			it("only retries retryable errors up to the max attempts", async () => {
+				const store = createStorage(randomId())
+
+				let calls = 0
+				const fail = transactionalReadWriteAsync({
+					maxAttempts: 3,
+					isRetryable: (error) =>
+						error instanceof Error && error.message === "retry",
+				})(async (tx, message: string) => {
+					calls += 1
+					throw new Error(message)
+				})
+
+				await assert.rejects(() => fail(store, "retry"))
+				assertEqual(calls, 3)
+
+				calls = 0
+				await assert.rejects(() => fail(store, "fail"))
+				assertEqual(calls, 1)
+			})
+		})
+
+		// New tests here...
+	})
+}
+
+function applyScanDiffs(result: KeyValuePair[], diffs: ScanDiff[]) {
+	result = [...result]
+	for (const diff of diffs) {
+		if (diff.type === "insert") result.splice(diff.index, 0, diff.pair)
+		else if (diff.type === "update") result.splice(diff.index, 1, diff.pair)
+		else result.splice(diff.index, 1)
+	}
+	return result
+}
+
+async function collect<T>(iterable: AsyncIterable<T>) {
+	const items: T[] = []
+	for await (const item of iterable) items.push(item)
+	return items
 }
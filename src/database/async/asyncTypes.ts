@@ -1,27 +1,63 @@
-import { KeyValuePair, ScanStorageArgs, WriteOps } from "../../storage/types"
+import {
+	AtomicOp,
+	KeyValuePair,
+	ScanStorageArgs,
+	WriteOps,
+} from "../../storage/types"
 import {
 	FilterTupleValuePairByPrefix,
 	RemoveTupleValuePairPrefix,
 	TuplePrefix,
 	ValueForTuple,
 } from "../typeHelpers"
-import { ScanArgs, TxId, Unsubscribe } from "../types"
+import { Observable, Watcher } from "../../helpers/observable"
+import {
+	Change,
+	ChangeBatch,
+	ClearArgs,
+	ConflictRanges,
+	Savepoint,
+	ScanArgs,
+	SubscribeOptions,
+	TxId,
+	Unsubscribe,
+	WatchOptions,
+} from "../types"
 
 /** The low-level API for implementing new storage layers. */
 export type AsyncTupleStorageApi = {
 	scan: (args?: ScanStorageArgs) => Promise<KeyValuePair[]>
+	/** Optional. Otherwise, we iterate by scanning in batches. */
+	iterate?: (args?: ScanStorageArgs) => AsyncIterable<KeyValuePair>
 	commit: (writes: WriteOps) => Promise<void>
 	close: () => Promise<void>
 }
 
 /** Wraps AsyncTupleStorageApi with reactivity and MVCC */
 export type AsyncTupleDatabaseApi = {
-	scan: (args?: ScanStorageArgs, txId?: TxId) => Promise<KeyValuePair[]>
-	commit: (writes: WriteOps, txId?: TxId) => Promise<void>
+	/** Pin the current version so the transaction reads from a snapshot. */
+	begin: (txId: TxId) => number
+	/** Snapshot reads use the transaction's version without conflicting. */
+	scan: (
+		args?: ScanStorageArgs,
+		txId?: TxId,
+		snapshot?: boolean
+	) => Promise<KeyValuePair[]>
+	iterate: (
+		args?: ScanStorageArgs,
+		txId?: TxId,
+		snapshot?: boolean
+	) => AsyncIterable<KeyValuePair>
+	commit: (
+		writes: WriteOps,
+		txId?: TxId,
+		conflicts?: ConflictRanges
+	) => Promise<void>
 	cancel: (txId: string) => Promise<void>
 	subscribe: (
 		args: ScanStorageArgs,
-		callback: AsyncCallback
+		callback: AsyncCallback,
+		options?: SubscribeOptions
 	) => Promise<Unsubscribe>
 	close: () => Promise<void>
 }
@@ -36,10 +72,24 @@ export type AsyncTupleDatabaseClientApi<S extends KeyValuePair = KeyValuePair> =
 			args?: ScanArgs<T, P>,
 			txId?: TxId
 		) => Promise<FilterTupleValuePairByPrefix<S, P>[]>
+		iterate: <T extends S["key"], P extends TuplePrefix<T>>(
+			args?: ScanArgs<T, P>,
+			txId?: TxId
+		) => AsyncIterable<FilterTupleValuePairByPrefix<S, P>>
 		subscribe: <T extends S["key"], P extends TuplePrefix<T>>(
 			args: ScanArgs<T, P>,
-			callback: AsyncCallback<FilterTupleValuePairByPrefix<S, P>>
+			callback: AsyncCallback<FilterTupleValuePairByPrefix<S, P>>,
+			options?: SubscribeOptions
 		) => Promise<Unsubscribe>
+		/** Iterate over the batches of writes to a range as they're committed. */
+		watch: <T extends S["key"], P extends TuplePrefix<T>>(
+			args: ScanArgs<T, P>,
+			options?: WatchOptions
+		) => Watcher<ChangeBatch<FilterTupleValuePairByPrefix<S, P>>>
+		observe: <T extends S["key"], P extends TuplePrefix<T>>(
+			args: ScanArgs<T, P>,
+			options?: SubscribeOptions
+		) => Observable<ChangeBatch<FilterTupleValuePairByPrefix<S, P>>>
 		close: () => Promise<void>
 
 		// ReadApis
@@ -70,10 +120,14 @@ export type AsyncTupleRootTransactionApi<
 	scan: <T extends S["key"], P extends TuplePrefix<T>>(
 		args?: ScanArgs<T, P>
 	) => Promise<FilterTupleValuePairByPrefix<S, P>[]>
+	iterate: <T extends S["key"], P extends TuplePrefix<T>>(
+		args?: ScanArgs<T, P>
+	) => AsyncIterable<FilterTupleValuePairByPrefix<S, P>>
 	get: <T extends S["key"]>(
 		tuple: T
 	) => Promise<ValueForTuple<S, T> | undefined>
 	exists: <T extends S["key"]>(tuple: T) => Promise<boolean>
+	snapshot: AsyncTupleSnapshotApi<S>
 
 	// Subspace
 	// Demotes to a non-root transaction so you cannot commit, cancel, or inspect
@@ -88,7 +142,39 @@ export type AsyncTupleRootTransactionApi<
 		value: ValueForTuple<S, Key>
 	) => AsyncTupleRootTransactionApi<S>
 	remove: (tuple: S["key"]) => AsyncTupleRootTransactionApi<S>
+	clear: <T extends S["key"], P extends TuplePrefix<T>>(
+		args?: ClearArgs<T, P>
+	) => AsyncTupleRootTransactionApi<S>
+	atomic: <Key extends S["key"]>(
+		op: AtomicOp,
+		tuple: Key,
+		value: ValueForTuple<S, Key>
+	) => AsyncTupleRootTransactionApi<S>
 	write: (writes: WriteOps<S>) => AsyncTupleRootTransactionApi<S>
+	addReadConflictRange: <T extends S["key"], P extends TuplePrefix<T>>(
+		args?: ClearArgs<T, P>
+	) => AsyncTupleRootTransactionApi<S>
+	addWriteConflictRange: <T extends S["key"], P extends TuplePrefix<T>>(
+		args?: ClearArgs<T, P>
+	) => AsyncTupleRootTransactionApi<S>
+
+	// Hooks
+	/** Runs before committing. It can add writes, or throw to cancel instead. */
+	onBeforeCommit: (
+		fn: (tx: AsyncTupleRootTransactionApi<S>) => Promise<void> | void
+	) => AsyncTupleRootTransactionApi<S>
+	onAfterCommit: (
+		fn: () => Promise<void> | void
+	) => AsyncTupleRootTransactionApi<S>
+	onCancel: (fn: () => Promise<void> | void) => AsyncTupleRootTransactionApi<S>
+
+	// Savepoints
+	savepoint: () => Savepoint
+	rollbackTo: (savepoint: Savepoint) => AsyncTupleRootTransactionApi<S>
+	/** Roll back everything that the function did when it throws. */
+	nested: <O>(
+		fn: (tx: AsyncTupleRootTransactionApi<S>) => Promise<O>
+	) => Promise<O>
 
 	// RootTransactionApis
 	commit: () => Promise<void>
@@ -103,10 +189,14 @@ export type AsyncTupleTransactionApi<S extends KeyValuePair = KeyValuePair> = {
 	scan: <T extends S["key"], P extends TuplePrefix<T>>(
 		args?: ScanArgs<T, P>
 	) => Promise<FilterTupleValuePairByPrefix<S, P>[]>
+	iterate: <T extends S["key"], P extends TuplePrefix<T>>(
+		args?: ScanArgs<T, P>
+	) => AsyncIterable<FilterTupleValuePairByPrefix<S, P>>
 	get: <T extends S["key"]>(
 		tuple: T
 	) => Promise<ValueForTuple<S, T> | undefined>
 	exists: <T extends S["key"]>(tuple: T) => Promise<boolean>
+	snapshot: AsyncTupleSnapshotApi<S>
 
 	// Subspace
 	subspace: <P extends TuplePrefix<S["key"]>>(
@@ -119,7 +209,52 @@ export type AsyncTupleTransactionApi<S extends KeyValuePair = KeyValuePair> = {
 		value: ValueForTuple<S, Key>
 	) => AsyncTupleTransactionApi<S>
 	remove: (tuple: S["key"]) => AsyncTupleTransactionApi<S>
+	clear: <T extends S["key"], P extends TuplePrefix<T>>(
+		args?: ClearArgs<T, P>
+	) => AsyncTupleTransactionApi<S>
+	atomic: <Key extends S["key"]>(
+		op: AtomicOp,
+		tuple: Key,
+		value: ValueForTuple<S, Key>
+	) => AsyncTupleTransactionApi<S>
 	write: (writes: WriteOps<S>) => AsyncTupleTransactionApi<S>
+	addReadConflictRange: <T extends S["key"], P extends TuplePrefix<T>>(
+		args?: ClearArgs<T, P>
+	) => AsyncTupleTransactionApi<S>
+	addWriteConflictRange: <T extends S["key"], P extends TuplePrefix<T>>(
+		args?: ClearArgs<T, P>
+	) => AsyncTupleTransactionApi<S>
+
+	// Hooks
+	/** Runs before committing. It can add writes, or throw to cancel instead. */
+	onBeforeCommit: (
+		fn: (tx: AsyncTupleTransactionApi<S>) => Promise<void> | void
+	) => AsyncTupleTransactionApi<S>
+	onAfterCommit: (fn: () => Promise<void> | void) => AsyncTupleTransactionApi<S>
+	onCancel: (fn: () => Promise<void> | void) => AsyncTupleTransactionApi<S>
+
+	// Savepoints
+	savepoint: () => Savepoint
+	rollbackTo: (savepoint: Savepoint) => AsyncTupleTransactionApi<S>
+	/** Roll back everything that the function did when it throws. */
+	nested: <O>(fn: (tx: AsyncTupleTransactionApi<S>) => Promise<O>) => Promise<O>
+}
+
+/**
+ * Reads through a transaction that include its pending writes but don't
+ * conflict with writes from other transactions.
+ */
+export type AsyncTupleSnapshotApi<S extends KeyValuePair = KeyValuePair> = {
+	scan: <T extends S["key"], P extends TuplePrefix<T>>(
+		args?: ScanArgs<T, P>
+	) => Promise<FilterTupleValuePairByPrefix<S, P>[]>
+	iterate: <T extends S["key"], P extends TuplePrefix<T>>(
+		args?: ScanArgs<T, P>
+	) => AsyncIterable<FilterTupleValuePairByPrefix<S, P>>
+	get: <T extends S["key"]>(
+		tuple: T
+	) => Promise<ValueForTuple<S, T> | undefined>
+	exists: <T extends S["key"]>(tuple: T) => Promise<boolean>
 }
 
 /** Useful for indicating that a function does not commit any writes. */
@@ -130,6 +265,10 @@ export type ReadOnlyAsyncTupleDatabaseClientApi<
 		args?: ScanArgs<T, P>,
 		txId?: TxId
 	) => Promise<FilterTupleValuePairByPrefix<S, P>[]>
+	iterate: <T extends S["key"], P extends TuplePrefix<T>>(
+		args?: ScanArgs<T, P>,
+		txId?: TxId
+	) => AsyncIterable<FilterTupleValuePairByPrefix<S, P>>
 	get: <T extends S["key"]>(
 		tuple: T,
 		txId?: TxId
@@ -142,7 +281,9 @@ export type ReadOnlyAsyncTupleDatabaseClientApi<
 	// subscribe?
 }
 
+/** Changes are only given when subscribing with `{changes: true}`. */
 export type AsyncCallback<S extends KeyValuePair = KeyValuePair> = (
 	writes: WriteOps<S>,
-	txId: TxId
+	txId: TxId,
+	changes?: Change<S>[]
 ) => void | Promise<void>
@@ -1,15 +1,40 @@
-import { ReadWriteConflictError } from "../../database/ConcurrencyLog"
+import {
+	getRetryDelay,
+	getRetryPolicy,
+	isConflictError,
+	RetryPolicy,
+	sleep,
+} from "../retryPolicy"
 
-export async function retryAsync<O>(retries: number, fn: () => Promise<O>) {
+const isSync = false
+
+export async function retryAsync<O>(
+	retries: number | RetryPolicy,
+	fn: () => Promise<O>
+) {
+	const policy = getRetryPolicy(retries)
+	const {
+		maxAttempts = 6,
+		isRetryable = isConflictError,
+		onRetry,
+		onSuccess,
+	} = policy
+
+	let attempts = 1
 	while (true) {
+		let result: O
 		try {
-			const result = await fn()
-			return result
+			result = await fn()
 		} catch (error) {
-			if (retries <= 0) throw error
-			const isConflict = error instanceof ReadWriteConflictError
-			if (!isConflict) throw error
-			retries -= 1
+			if (attempts >= maxAttempts || !isRetryable(error)) throw error
+			// Sync retries would block the process while waiting.
+			const delay = isSync ? 0 : getRetryDelay(policy, attempts)
+			onRetry?.({ attempts, error, delay })
+			if (delay > 0) await sleep(delay)
+			attempts += 1
+			continue
 		}
+		onSuccess?.(attempts)
+		return result
 	}
 }
@@ -1,9 +1,16 @@
 import { isEmptyWrites } from "../../helpers/isEmptyWrites"
+import { createObservable, Observable } from "../../helpers/observable"
 import { Queue } from "../../helpers/Queue"
 import { KeyValuePair } from "../../storage/types"
-import { TxId } from "../types"
+import { SubscribeQueryOptions, TxId } from "../types"
 import { AsyncTupleDatabaseClient } from "./AsyncTupleDatabaseClient"
-import { AsyncTupleDatabaseClientApi } from "./asyncTypes"
+import {
+	AsyncTupleDatabaseClientApi,
+	AsyncTupleRootTransactionApi,
+} from "./asyncTypes"
+import { retryAsync } from "./retryAsync"
+
+const isSync = false
 
 const throwError = () => {
 	throw new Error()
@@ -12,12 +19,37 @@ const throwError = () => {
 export async function subscribeQueryAsync<S extends KeyValuePair, T>(
 	db: AsyncTupleDatabaseClientApi<S>,
 	fn: (db: AsyncTupleDatabaseClientApi<S>) => Promise<T>,
-	callback: (result: T) => void
+	callback: (result: T) => void,
+	options: SubscribeQueryOptions = {}
 ): Promise<{ result: T; destroy: () => void }> {
+	const { retries = 5, onError } = options
 	let destroyed = false
 	const listeners = new Set<any>()
 
-	const compute = () => fn(listenDb)
+	// Every compute reads from one snapshot so that it never sees some commits
+	// but not others. Committing the read transaction afterwards tells us when
+	// something we read has changed since, possibly before we were listening.
+	const compute = () =>
+		retryAsync(retries, async () => {
+			// Only listen to what this attempt reads.
+			resetListeners()
+			const tx = db.transact()
+			let result: T
+			try {
+				result = await fn(createListenDb(tx))
+			} catch (error) {
+				await tx.cancel()
+				throw error
+			}
+
+			// Nothing else can commit during a sync compute.
+			if (isSync) {
+				await tx.cancel()
+				return result
+			}
+			await tx.commit()
+			return result
+		})
 
 	const resetListeners = () => {
 		listeners.forEach((destroy) => destroy())
@@ -25,6 +57,7 @@ export async function subscribeQueryAsync<S extends KeyValuePair, T>(
 	}
 
 	let lastComputedTxId: string | undefined
+	let lastEmittedTxId: string | undefined
 
 	const recompute = async (txId: TxId) => {
 		if (destroyed) return
@@ -33,46 +66,94 @@ export async function subscribeQueryAsync<S extends KeyValuePair, T>(
 
 		// Recompute.
 		lastComputedTxId = txId
-		resetListeners()
-		const result = await compute()
+		let result: T
+		try {
+			result = await compute()
+		} catch (error) {
+			if (destroyed) return
+			// Keep listening to what the last attempt read so we try again later.
+			if (!onError) throw error
+			onError(error)
+			return
+		}
+		if (destroyed) return
+		// A newer commit came in while computing and will recompute after this, so
+		// we skip this result rather than calling back with every commit in between.
+		if (txId !== lastEmittedTxId) return
 		callback(result)
 	}
 
 	const recomputeQueue = new Queue()
 
-	// Subscribe for every scan that gets called.
-	const listenDb = new AsyncTupleDatabaseClient<S>({
-		scan: async (args: any, txId) => {
-			// if (txId)
-			// 	// Maybe one day we can transactionally subscribe to a bunch of things. But
-			// 	// for now, lets just avoid that...
-			// 	throw new Error("Not allowed to subscribe transactionally.")
-
-			const destroy = await db.subscribe(args, async (_writes, txId) =>
-				recomputeQueue.enqueue(() => recompute(txId))
-			)
-			listeners.add(destroy)
+	const listen = async (args: any) => {
+		const destroy = await db.subscribe(args, async (_writes, txId) => {
+			lastEmittedTxId = txId
+			return recomputeQueue.enqueue(() => recompute(txId))
+		})
+		listeners.add(destroy)
+	}
 
-			const results = await db.scan(args)
-			return results
-		},
-		cancel: async (txId) => {
-			await db.cancel(txId)
-		},
-		commit: async (writes, txId) => {
-			if (!isEmptyWrites(writes))
-				throw new Error("No writing in a subscribeQueryAsync.")
-			// Commit to resolve conflicts with transactional reads.
-			await db.commit({}, txId)
-		},
-		subscribe: throwError,
-		close: throwError,
-	})
+	// Subscribe for every scan that gets called and read from the snapshot.
+	const createListenDb = (tx: AsyncTupleRootTransactionApi<S>) =>
+		new AsyncTupleDatabaseClient<S>({
+			// Reads always come from the compute's snapshot so there is nothing to pin.
+			begin: () => 0,
+			scan: async (args: any, txId) => {
+				await listen(args)
+				const results = await tx.scan(args)
+				return results
+			},
+			iterate: async function* (args: any, txId) {
+				await listen(args)
+				yield* tx.iterate(args)
+			},
+			cancel: async (txId) => {},
+			commit: async (writes, txId) => {
+				if (!isEmptyWrites(writes))
+					throw new Error("No writing in a subscribeQueryAsync.")
+			},
+			subscribe: throwError,
+			close: throwError,
+		})
 
-	const result = await compute()
 	const destroy = () => {
 		resetListeners()
 		destroyed = true
 	}
+	let result: T
+	try {
+		result = (await recomputeQueue.enqueue(() => compute())) as T
+	} catch (error) {
+		destroy()
+		throw error
+	}
 	return { result, destroy }
 }
+
+/**
+ * Emits the result of the query and then every time it changes. Errors once the
+ * query fails to run again.
+ */
+export function observeQueryAsync<S extends KeyValuePair, T>(
+	db: AsyncTupleDatabaseClientApi<S>,
+	fn: (db: AsyncTupleDatabaseClientApi<S>) => Promise<T>,
+	options: Omit<SubscribeQueryOptions, "onError"> = {}
+): Observable<T> {
+	return createObservable<T>(async (next, error) => {
+		// Hold onto any change that comes in before the first result.
+		let initialized = false
+		const pending: T[] = []
+		const { result, destroy } = await subscribeQueryAsync(
+			db,
+			fn,
+			(result) => {
+				if (initialized) next(result)
+				else pending.push(result)
+			},
+			{ ...options, onError: error }
+		)
+		initialized = true
+		for (const value of [result, ...pending]) next(value)
+		return destroy
+	})
+}
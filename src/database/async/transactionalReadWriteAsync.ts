@@ -1,4 +1,5 @@
 import { KeyValuePair } from "../../main"
+import { RetryPolicy } from "../retryPolicy"
 import {
 	AsyncTupleDatabaseClientApi,
 	AsyncTupleTransactionApi,
@@ -13,7 +14,7 @@ import { retryAsync } from "./retryAsync"
 // https://stackoverflow.com/questions/60377365/typescript-infer-type-of-generic-after-optional-first-generic
 export function transactionalReadWriteAsync<
 	S extends KeyValuePair = KeyValuePair
->(retries = 5) {
+>(retries: number | RetryPolicy = 5) {
 	return function <I extends any[], O>(
 		fn: (tx: AsyncTupleTransactionApi<S>, ...args: I) => Promise<O>
 	) {
@@ -24,7 +25,15 @@ export function transactionalReadWriteAsync<
 			if ("set" in dbOrTx) return fn(dbOrTx, ...args)
 			return await retryAsync(retries, async () => {
 				const tx = dbOrTx.transact()
-				const result = await fn(tx, ...args)
+				let result: O
+				try {
+					result = await fn(tx, ...args)
+				} catch (error) {
+					// So that the onCancel hooks of this attempt run.
+					await tx.cancel()
+					throw error
+				}
+				// The onAfterCommit hooks only run if this attempt doesn't conflict.
 				await tx.commit()
 				return result
 			})
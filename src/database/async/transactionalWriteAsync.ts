@@ -0,0 +1,42 @@
+import { KeyValuePair } from "../../storage/types"
+import { RetryPolicy } from "../retryPolicy"
+import { TransactionWriteApi } from "../types"
+import {
+	AsyncTupleDatabaseClientApi,
+	AsyncTupleTransactionApi,
+} from "./asyncTypes"
+import { retryAsync } from "./retryAsync"
+
+/**
+ * Similar to transactionalReadWriteAsync but only allows writes.
+ */
+export function transactionalWriteAsync<S extends KeyValuePair = KeyValuePair>(
+	retries: number | RetryPolicy = 5
+) {
+	return function <I extends any[], O>(
+		fn: (tx: TransactionWriteApi<S>, ...args: I) => O
+	) {
+		return async function (
+			dbOrTx:
+				| AsyncTupleDatabaseClientApi<S>
+				| AsyncTupleTransactionApi<S>
+				| TransactionWriteApi<S>,
+			...args: I
+		): Promise<O> {
+			if ("set" in dbOrTx) return fn(dbOrTx, ...args)
+			return await retryAsync(retries, async () => {
+				const tx = dbOrTx.transact()
+				let result: O
+				try {
+					result = fn(tx, ...args)
+				} catch (error) {
+					// So that the onCancel hooks of this attempt run.
+					await tx.cancel()
+					throw error
+				}
+				await tx.commit()
+				return result
+			})
+		}
+	}
+}
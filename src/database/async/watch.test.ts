@@ -0,0 +1,68 @@
+import { describe, it } from "mocha"
+import { InMemoryTupleStorage } from "../../storage/InMemoryTupleStorage"
+import { WriteOps } from "../../storage/types"
+import { assertEqual } from "../../test/assertHelpers"
+import { TupleDatabase } from "../sync/TupleDatabase"
+import { TupleDatabaseClient } from "../sync/TupleDatabaseClient"
+import { AsyncTupleDatabase } from "./AsyncTupleDatabase"
+import { AsyncTupleDatabaseClient } from "./AsyncTupleDatabaseClient"
+
+describe("watch", () => {
+	it("iterates over batches of writes", async () => {
+		const db = new AsyncTupleDatabaseClient(
+			new AsyncTupleDatabase(new InMemoryTupleStorage())
+		)
+		const watcher = db.watch({ prefix: ["a"] })
+
+		await db.commit({ set: [{ key: ["a", 1], value: 1 }] })
+		await db.commit({ set: [{ key: ["b", 1], value: 1 }] })
+		await db.commit({ remove: [["a", 1]] })
+
+		const writes: WriteOps[] = []
+		for await (const batch of watcher) {
+			writes.push(batch.writes)
+			if (writes.length === 2) break
+		}
+		assertEqual(writes, [
+			{ set: [{ key: ["a", 1], value: 1 }], remove: [] },
+			{ set: [], remove: [["a", 1]] },
+		])
+
+		// Unsubscribes once we break out of the loop.
+		await db.commit({ set: [{ key: ["a", 2], value: 2 }] })
+		assertEqual(await watcher.next(), { value: undefined, done: true })
+	})
+
+	it("commits wait for a full buffer to drain", async () => {
+		const db = new AsyncTupleDatabaseClient(
+			new AsyncTupleDatabase(new InMemoryTupleStorage())
+		)
+		const watcher = db.watch({ prefix: ["a"] }, { bufferSize: 1 })
+
+		let committed = false
+		const commit = db
+			.commit({ set: [{ key: ["a", 1], value: 1 }] })
+			.then(() => (committed = true))
+		await new Promise((resolve) => setTimeout(resolve, 10))
+		assertEqual(committed, false)
+
+		await watcher.next()
+		await commit
+		assertEqual(committed, true)
+		await watcher.return!()
+	})
+
+	it("works with a sync database", async () => {
+		const db = new TupleDatabaseClient(
+			new TupleDatabase(new InMemoryTupleStorage())
+		)
+		const watcher = db.watch({ prefix: ["a"] }, { changes: true })
+
+		db.commit({ set: [{ key: ["a", 1], value: 1 }] })
+		db.commit({ set: [{ key: ["a", 1], value: 2 }] })
+
+		const { value } = await watcher.next()
+		assertEqual(value.changes, [{ key: ["a", 1], before: undefined, after: 1 }])
+		await watcher.return!()
+	})
+})
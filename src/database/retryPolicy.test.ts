@@ -0,0 +1,25 @@
+import { strict as assert } from "assert"
+import { describe, it } from "mocha"
+import { getRetryDelay, getRetryPolicy } from "./retryPolicy"
+
+describe("retryPolicy", () => {
+	it("Doubles the delay up to the max delay.", () => {
+		const policy = { initialDelay: 10, maxDelay: 50, jitter: false }
+		assert.deepEqual(
+			[1, 2, 3, 4].map((attempts) => getRetryDelay(policy, attempts)),
+			[10, 20, 40, 50]
+		)
+	})
+
+	it("Jitters the delay.", () => {
+		const policy = { initialDelay: 10 }
+		for (let i = 0; i < 100; i++) {
+			const delay = getRetryDelay(policy, 2)
+			assert.ok(delay >= 0 && delay <= 20)
+		}
+	})
+
+	it("Retries a number of times.", () => {
+		assert.deepEqual(getRetryPolicy(5), { maxAttempts: 6 })
+	})
+})
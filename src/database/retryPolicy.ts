@@ -0,0 +1,53 @@
+import { ReadWriteConflictError } from "./ConcurrencyLog"
+
+export type RetryInfo = {
+	/** How many attempts have failed so far. */
+	attempts: number
+	/** The error from the last attempt, such as a ReadWriteConflictError. */
+	error: unknown
+	/** Milliseconds until the next attempt. */
+	delay: number
+}
+
+export type RetryPolicy = {
+	/** Including the first attempt. Defaults to 6. */
+	maxAttempts?: number
+	/**
+	 * Milliseconds to wait before the first retry, which doubles after every
+	 * retry. Only async retries wait. Defaults to 0.
+	 */
+	initialDelay?: number
+	/** Defaults to 1000. */
+	maxDelay?: number
+	/**
+	 * Wait a random amount of time up to the delay so that conflicting
+	 * transactions don't keep retrying in lockstep. Defaults to true.
+	 */
+	jitter?: boolean
+	/** Defaults to retrying on a ReadWriteConflictError. */
+	isRetryable?: (error: unknown) => boolean
+	onRetry?: (info: RetryInfo) => void
+	/** Called with the number of attempts that it took, for metrics. */
+	onSuccess?: (attempts: number) => void
+}
+
+/** A number of retries is the same as a policy with one more attempt. */
+export function getRetryPolicy(retries: number | RetryPolicy): RetryPolicy {
+	if (typeof retries === "number") return { maxAttempts: retries + 1 }
+	return retries
+}
+
+export function isConflictError(error: unknown) {
+	return error instanceof ReadWriteConflictError
+}
+
+/** Exponential backoff with full jitter. */
+export function getRetryDelay(policy: RetryPolicy, attempts: number) {
+	const { initialDelay = 0, maxDelay = 1000, jitter = true } = policy
+	const delay = Math.min(initialDelay * 2 ** (attempts - 1), maxDelay)
+	return jitter ? Math.random() * delay : delay
+}
+
+export function sleep(ms: number) {
+	return new Promise<void>((resolve) => setTimeout(resolve, ms))
+}
@@ -6,36 +6,83 @@ This file is generated from async/AsyncReactivityTracker.ts
 
 type Identity<T> = T
 
+import { compareTuple } from "../../helpers/compareTuple"
+import { boundsInterval, IntervalTree } from "../../helpers/IntervalTree"
+import {
+	intersectBounds,
+	isBoundsOverlappingBounds,
+} from "../../helpers/isBoundsOverlappingBounds"
+import { iterateWrittenTuples } from "../../helpers/iterateTuples"
 import { maybePromiseAll } from "../../helpers/maybeWaitForPromises"
-import { randomId } from "../../helpers/randomId"
+import { Bounds, isTupleWithinBounds } from "../../helpers/sortedTupleArray"
+import * as tv from "../../helpers/sortedTupleValuePairs"
 import {
-	Bounds,
-	getPrefixContainingBounds,
-	isTupleWithinBounds,
-} from "../../helpers/sortedTupleArray"
-import { InMemoryTupleStorage } from "../../storage/InMemoryTupleStorage"
-import { MIN, ScanStorageArgs, Tuple, WriteOps } from "../../storage/types"
-import { TupleStorageApi } from "../sync/types"
-import { TxId } from "../types"
+	KeyValuePair,
+	ScanStorageArgs,
+	Tuple,
+	WriteOps,
+} from "../../storage/types"
+import { Change, SubscribeOptions, TxId } from "../types"
 import { Callback } from "./types"
 
 export class ReactivityTracker {
-	private listenersDb = new InMemoryTupleStorage()
+	// Finding the listeners for a write is a spatial query so we index them by
+	// their bounds. Then we only need to check the listeners that overlap.
+	private listeners = new IntervalTree<Tuple, Listener>(compareTuple)
+	private changesListeners = 0
+
+	subscribe(
+		args: ScanStorageArgs,
+		callback: Callback,
+		options: SubscribeOptions = {}
+	) {
+		const { limit, reverse, ...bounds } = args
+		const changes = Boolean(options.changes)
+		const entry = this.listeners.insert(boundsInterval(bounds), {
+			callback,
+			bounds,
+			changes,
+		})
+		if (changes) this.changesListeners += 1
+		return () => {
+			if (this.listeners.remove(entry) && changes) this.changesListeners -= 1
+		}
+	}
 
-	subscribe(args: ScanStorageArgs, callback: Callback) {
-		return subscribe(this.listenersDb, args, callback)
+	/** Whether any listener of these writes subscribed to changes. */
+	hasChangesListener(writes: WriteOps) {
+		if (this.changesListeners === 0) return false
+		for (const clear of writes.clear || []) {
+			for (const listener of this.listeners.overlapping(
+				boundsInterval(clear)
+			)) {
+				if (!listener.changes) continue
+				if (isBoundsOverlappingBounds(clear, listener.bounds)) return true
+			}
+		}
+		for (const tuple of iterateWrittenTuples(writes)) {
+			for (const listener of this.listeners.overlapping({
+				low: tuple,
+				high: tuple,
+			})) {
+				if (!listener.changes) continue
+				if (isTupleWithinBounds(tuple, listener.bounds)) return true
+			}
+		}
+		return false
 	}
 
-	computeReactivityEmits(writes: WriteOps) {
-		return getReactivityEmits(this.listenersDb, writes)
+	/** Changes need the previous value of every key that the writes change. */
+	computeReactivityEmits(writes: WriteOps, before: KeyValuePair[] = []) {
+		return getReactivityEmits(this.listeners, writes, before)
 	}
 
 	emit(emits: ReactivityEmits, txId: TxId) {
 		let promises: any[] = []
-		for (const [callback, writes] of emits.entries()) {
+		for (const [callback, { writes, changes }] of emits.entries()) {
 			try {
 				// Catch sync callbacks.
-				promises.push(callback(writes, txId))
+				promises.push(callback(writes, txId, changes))
 			} catch (error) {
 				console.error(error)
 			}
@@ -47,102 +94,92 @@ export class ReactivityTracker {
 	}
 }
 
-type Listener = { callback: Callback; bounds: Bounds }
-
-function iterateTuplePrefixes(tuple: Tuple) {
-	const prefixes: Tuple[] = [tuple]
-	for (let i = 0; i < tuple.length; i++) {
-		const prefix = tuple.slice(0, i)
-		prefixes.push(prefix)
-	}
-	return prefixes
+type Listener = {
+	callback: Callback
+	bounds: Bounds
+	changes: boolean
 }
 
-/** Query the listenersDb based on tuple prefixes. */
-function getListenersForTuplePrefix(
-	listenersDb: TupleStorageApi,
-	tuple: Tuple
-) {
-	const listeners: Listener[] = []
-
-	// Look for listeners at each prefix of the tuple.
-	for (const prefix of iterateTuplePrefixes(tuple)) {
-		const results = listenersDb.scan({
-			gte: [prefix],
-			lte: [[...prefix, MIN]],
-		})
-
-		for (const { value } of results) {
-			listeners.push(value)
-		}
-	}
+export type ReactivityEmits = Map<Callback, ReactivityEmit>
 
-	return listeners
+type ReactivityEmit = {
+	// Listeners only get a clear when there is one so that they don't all need
+	// to handle it.
+	writes: Required<Pick<WriteOps, "set" | "remove">> & WriteOps
+	/** Only for listeners that subscribed to changes. */
+	changes?: Change[]
 }
 
-/** Query the listenersDb based on tuple prefixes, and additionally check for query bounds. */
-function getListenerCallbacksForTuple(
-	listenersDb: TupleStorageApi,
-	tuple: Tuple
+function getReactivityEmits(
+	listeners: IntervalTree<Tuple, Listener>,
+	writes: WriteOps,
+	before: KeyValuePair[]
 ) {
-	const callbacks: Callback[] = []
-
-	// Check that the tuple is within the absolute bounds of the query.
-	for (const listener of getListenersForTuplePrefix(listenersDb, tuple)) {
-		const { callback, bounds } = listener
-		if (isTupleWithinBounds(tuple, bounds)) {
-			callbacks.push(callback)
-		} else {
-			// TODO: track how in-efficient listeners are here.
-			// NOTE: the bounds may only partially span the prefix.
+	const emits: ReactivityEmits = new Map()
+	const getEmit = (callback: Callback) => {
+		if (!emits.has(callback)) {
+			emits.set(callback, { writes: { set: [], remove: [] } })
 		}
+		return emits.get(callback)!
 	}
 
-	return callbacks
-}
-
-type ReactivityEmits = Map<Callback, Required<WriteOps>>
+	// The listeners that changes have to be filtered for.
+	const changed = new Set<Listener>()
 
-function getReactivityEmits(listenersDb: TupleStorageApi, writes: WriteOps) {
-	const emits: ReactivityEmits = new Map()
+	for (const clear of writes.clear || []) {
+		for (const listener of listeners.overlapping(boundsInterval(clear))) {
+			if (!isBoundsOverlappingBounds(clear, listener.bounds)) continue
+			if (listener.changes) changed.add(listener)
+			const emit = getEmit(listener.callback)
+			if (!emit.writes.clear) emit.writes.clear = []
+			emit.writes.clear.push(intersectBounds(clear, listener.bounds))
+		}
+	}
 
 	for (const { key, value } of writes.set || []) {
-		const callbacks = getListenerCallbacksForTuple(listenersDb, key)
-		for (const callback of callbacks) {
-			if (!emits.has(callback)) emits.set(callback, { set: [], remove: [] })
-			emits.get(callback)!.set.push({ key, value })
+		for (const listener of listeners.overlapping({ low: key, high: key })) {
+			if (!isTupleWithinBounds(key, listener.bounds)) continue
+			if (listener.changes) changed.add(listener)
+			getEmit(listener.callback).writes.set.push({ key, value })
 		}
 	}
 
 	for (const tuple of writes.remove || []) {
-		const callbacks = getListenerCallbacksForTuple(listenersDb, tuple)
-		for (const callback of callbacks) {
-			if (!emits.has(callback)) emits.set(callback, { set: [], remove: [] })
-			emits.get(callback)!.remove.push(tuple)
+		for (const listener of listeners.overlapping({ low: tuple, high: tuple })) {
+			if (!isTupleWithinBounds(tuple, listener.bounds)) continue
+			if (listener.changes) changed.add(listener)
+			getEmit(listener.callback).writes.remove.push(tuple)
+		}
+	}
+
+	if (changed.size > 0) {
+		const changes = getChanges(writes, before)
+		for (const { callback, bounds } of changed) {
+			const emit = getEmit(callback)
+			if (!emit.changes) emit.changes = []
+			for (const change of changes) {
+				if (!isTupleWithinBounds(change.key, bounds)) continue
+				emit.changes.push(change)
+			}
 		}
 	}
 
 	return emits
 }
 
-function subscribe(
-	listenersDb: TupleStorageApi,
-	args: ScanStorageArgs,
-	callback: Callback
-) {
-	// this.log("db/subscribe", args)
-
-	const prefix = getPrefixContainingBounds(args)
-
-	const id = randomId()
-	const value: Listener = { callback, bounds: args }
-
-	listenersDb.commit({ set: [{ key: [prefix, id], value }] })
-
-	const unsubscribe = () => {
-		// this.log("db/unsubscribe", args)
-		listenersDb.commit({ remove: [[prefix, id]] })
+/**
+ * Before has the previous value of every key that the writes change. We skip
+ * the keys that were removed or cleared but didn't exist in the first place.
+ */
+function getChanges(writes: WriteOps, before: KeyValuePair[]) {
+	const after: KeyValuePair[] = []
+	for (const { key, value } of writes.set || []) tv.set(after, key, value)
+
+	const changes: Change[] = []
+	for (const { key, value } of before) {
+		const change = { key, before: value, after: tv.get(after, key) }
+		if (change.before === undefined && change.after === undefined) continue
+		changes.push(change)
 	}
-
-	return unsubscribe
+	return changes
 }
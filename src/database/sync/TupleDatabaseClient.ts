@@ -6,6 +6,16 @@ This file is generated from async/AsyncTupleDatabaseClient.ts
 
 type Identity<T> = T
 
+import { applyAtomicMutation } from "../../helpers/atomicMutations"
+import { compareTuple } from "../../helpers/compareTuple"
+import { isBoundsOverlappingBounds } from "../../helpers/isBoundsOverlappingBounds"
+import { mutableFilter } from "../../helpers/mutableFilter"
+import {
+	createObservable,
+	createWatcher,
+	Observable,
+	Watcher,
+} from "../../helpers/observable"
 import { randomId } from "../../helpers/randomId"
 import * as t from "../../helpers/sortedTupleArray"
 import * as tv from "../../helpers/sortedTupleValuePairs"
@@ -13,11 +23,19 @@ import {
 	normalizeSubspaceScanArgs,
 	prependPrefixToTuple,
 	prependPrefixToWriteOps,
+	removePrefixFromChanges,
 	removePrefixFromTuple,
+	removePrefixFromTupleValuePair,
 	removePrefixFromTupleValuePairs,
 	removePrefixFromWriteOps,
 } from "../../helpers/subspaceHelpers"
-import { KeyValuePair, Tuple, WriteOps } from "../../storage/types"
+import {
+	AtomicOp,
+	KeyValuePair,
+	ScanStorageArgs,
+	Tuple,
+	WriteOps,
+} from "../../storage/types"
 import { TupleDatabaseApi } from "../sync/types"
 import {
 	FilterTupleValuePairByPrefix,
@@ -25,11 +43,24 @@ import {
 	TuplePrefix,
 	ValueForTuple,
 } from "../typeHelpers"
-import { ScanArgs, TxId, Unsubscribe } from "../types"
+import {
+	Change,
+	ChangeBatch,
+	ClearArgs,
+	ConflictRanges,
+	Savepoint,
+	ScanArgs,
+	SubscribeOptions,
+	TransactionHooks,
+	TxId,
+	Unsubscribe,
+	WatchOptions,
+} from "../types"
 import {
 	Callback,
 	TupleDatabaseClientApi,
 	TupleRootTransactionApi,
+	TupleSnapshotApi,
 	TupleTransactionApi,
 } from "./types"
 
@@ -51,19 +82,70 @@ export class TupleDatabaseClient<S extends KeyValuePair = KeyValuePair>
 		return result as FilterTupleValuePairByPrefix<S, P>[]
 	}
 
+	*iterate<T extends S["key"], P extends TuplePrefix<T>>(
+		args: ScanArgs<T, P> = {},
+		txId?: TxId
+	): Iterable<FilterTupleValuePairByPrefix<S, P>> {
+		const storageScanArgs = normalizeSubspaceScanArgs(this.subspacePrefix, args)
+		for (const pair of this.db.iterate(storageScanArgs, txId)) {
+			yield removePrefixFromTupleValuePair(
+				this.subspacePrefix,
+				pair
+			) as FilterTupleValuePairByPrefix<S, P>
+		}
+	}
+
 	subscribe<T extends S["key"], P extends TuplePrefix<T>>(
 		args: ScanArgs<T, P>,
-		callback: Callback<FilterTupleValuePairByPrefix<S, P>>
+		callback: Callback<FilterTupleValuePairByPrefix<S, P>>,
+		options?: SubscribeOptions
 	): Identity<Unsubscribe> {
 		const storageScanArgs = normalizeSubspaceScanArgs(this.subspacePrefix, args)
-		return this.db.subscribe(storageScanArgs, (write, txId) => {
-			return callback(
-				removePrefixFromWriteOps(this.subspacePrefix, write) as WriteOps<
-					FilterTupleValuePairByPrefix<S, P>
-				>,
-				txId
+		return this.db.subscribe(
+			storageScanArgs,
+			(write, txId, changes) => {
+				return callback(
+					removePrefixFromWriteOps(this.subspacePrefix, write) as WriteOps<
+						FilterTupleValuePairByPrefix<S, P>
+					>,
+					txId,
+					changes &&
+						(removePrefixFromChanges(this.subspacePrefix, changes) as Change<
+							FilterTupleValuePairByPrefix<S, P>
+						>[])
+				)
+			},
+			options
+		)
+	}
+
+	watch<T extends S["key"], P extends TuplePrefix<T>>(
+		args: ScanArgs<T, P>,
+		options: WatchOptions = {}
+	): Watcher<ChangeBatch<FilterTupleValuePairByPrefix<S, P>>> {
+		const { bufferSize, ...subscribeOptions } = options
+		return createWatcher(
+			(callback) =>
+				this.subscribe(
+					args,
+					(writes, txId, changes) => callback({ writes, txId, changes }),
+					subscribeOptions
+				),
+			bufferSize
+		)
+	}
+
+	observe<T extends S["key"], P extends TuplePrefix<T>>(
+		args: ScanArgs<T, P>,
+		options?: SubscribeOptions
+	): Observable<ChangeBatch<FilterTupleValuePairByPrefix<S, P>>> {
+		return createObservable((next) =>
+			this.subscribe(
+				args,
+				(writes, txId, changes) => next({ writes, txId, changes }),
+				options
 			)
-		})
+		)
 	}
 
 	commit(writes: WriteOps<S>, txId?: TxId): Identity<void> {
@@ -124,12 +206,20 @@ export class TupleRootTransaction<S extends KeyValuePair>
 		public id: TxId,
 		writes?: WriteOps<S>
 	) {
-		this.writes = { set: [], remove: [], ...writes }
+		this.writes = { set: [], remove: [], clear: [], atomic: [], ...writes }
 	}
 
 	committed = false
 	canceled = false
 	writes: Required<WriteOps<S>>
+	/** Pinned by the database on the first read. */
+	private readVersion: number | undefined
+	private conflicts: ConflictRanges = { read: [], write: [] }
+	private hooks: TransactionHooks<TupleRootTransactionApi<S>> = {
+		beforeCommit: [],
+		afterCommit: [],
+		cancel: [],
+	}
 
 	private checkActive() {
 		if (this.committed) throw new Error("Transaction already committed")
@@ -138,6 +228,37 @@ export class TupleRootTransaction<S extends KeyValuePair>
 
 	scan<T extends S["key"], P extends TuplePrefix<T>>(
 		args: ScanArgs<T, P> = {}
+	): Identity<FilterTupleValuePairByPrefix<S, P>[]> {
+		return this.scanAt(args, false)
+	}
+
+	*iterate<T extends S["key"], P extends TuplePrefix<T>>(
+		args: ScanArgs<T, P> = {}
+	): Iterable<FilterTupleValuePairByPrefix<S, P>> {
+		yield* this.iterateAt(args, false)
+	}
+
+	get<T extends S["key"]>(tuple: T): Identity<ValueForTuple<S, T> | undefined> {
+		return this.getAt(tuple, false)
+	}
+
+	exists<T extends S["key"]>(tuple: T): Identity<boolean> {
+		return this.existsAt(tuple, false)
+	}
+
+	/** Reads that see pending writes but don't conflict with other transactions. */
+	get snapshot(): TupleSnapshotApi<S> {
+		return {
+			scan: (args) => this.scanAt(args, true),
+			iterate: (args) => this.iterateAt(args, true),
+			get: (tuple) => this.getAt(tuple, true),
+			exists: (tuple) => this.existsAt(tuple, true),
+		}
+	}
+
+	private scanAt<T extends S["key"], P extends TuplePrefix<T>>(
+		args: ScanArgs<T, P> = {},
+		snapshot: boolean
 	): Identity<FilterTupleValuePairByPrefix<S, P>[]> {
 		this.checkActive()
 
@@ -146,15 +267,25 @@ export class TupleRootTransaction<S extends KeyValuePair>
 			args
 		)
 
+		// A cleared range could hide any number of results from storage so we
+		// can't know how many to fetch. Instead, we read until we have enough.
+		if (this.getClears(scanArgs).length > 0) {
+			const result: FilterTupleValuePairByPrefix<S, P>[] = []
+			for (const pair of this.iterateAt(args, snapshot)) {
+				result.push(pair)
+			}
+			return result
+		}
+
 		// We don't want to include the limit in this scan.
-		const sets = tv.scan(this.writes.set, scanArgs)
+		const sets = this.scanPendingSets(scanArgs, snapshot)
 		const removes = t.scan(this.writes.remove, scanArgs)
 
 		// If we've removed items from this range, then lets make sure to fetch enough
 		// from storage for the final result limit.
 		const scanLimit = resultLimit ? resultLimit + removes.length : undefined
 
-		const pairs = this.db.scan({ ...scanArgs, limit: scanLimit }, this.id)
+		const pairs = this.scanDb({ ...scanArgs, limit: scanLimit }, snapshot)
 		const result = removePrefixFromTupleValuePairs(this.subspacePrefix, pairs)
 
 		for (const { key: fullTuple, value } of sets) {
@@ -177,7 +308,65 @@ export class TupleRootTransaction<S extends KeyValuePair>
 		return result as FilterTupleValuePairByPrefix<S, P>[]
 	}
 
-	get<T extends S["key"]>(tuple: T): Identity<ValueForTuple<S, T> | undefined> {
+	/** Merges the pending writes into the stream of results from the database. */
+	private *iterateAt<T extends S["key"], P extends TuplePrefix<T>>(
+		args: ScanArgs<T, P> = {},
+		snapshot: boolean
+	): Iterable<FilterTupleValuePairByPrefix<S, P>> {
+		this.checkActive()
+
+		const { limit, ...scanArgs } = normalizeSubspaceScanArgs(
+			this.subspacePrefix,
+			args
+		)
+
+		// Pending sets in the order of the scan.
+		const sets = this.scanPendingSets(scanArgs, snapshot)
+		const removes = t.scan(this.writes.remove, { ...scanArgs, reverse: false })
+		const clears = this.getClears(scanArgs)
+		const isCleared = (tuple: Tuple) =>
+			clears.some((bounds) => t.isTupleWithinBounds(tuple, bounds))
+		const direction = scanArgs.reverse ? -1 : 1
+		const resultLimit = limit || Infinity
+
+		const result = (pair: KeyValuePair) =>
+			removePrefixFromTupleValuePair(
+				this.subspacePrefix,
+				pair
+			) as FilterTupleValuePairByPrefix<S, P>
+
+		let count = 0
+		let i = 0
+		for (const pair of this.iterateDb(scanArgs, snapshot)) {
+			while (
+				i < sets.length &&
+				compareTuple(sets[i].key, pair.key) * direction < 0
+			) {
+				if (count >= resultLimit) return
+				yield result(sets[i++])
+				count++
+			}
+
+			if (count >= resultLimit) return
+			if (i < sets.length && compareTuple(sets[i].key, pair.key) === 0) {
+				yield result(sets[i++])
+				count++
+			} else if (!t.exists(removes, pair.key) && !isCleared(pair.key)) {
+				yield result(pair)
+				count++
+			}
+		}
+
+		while (i < sets.length && count < resultLimit) {
+			yield result(sets[i++])
+			count++
+		}
+	}
+
+	private getAt<T extends S["key"]>(
+		tuple: T,
+		snapshot: boolean
+	): Identity<ValueForTuple<S, T> | undefined> {
 		this.checkActive()
 		const fullTuple = prependPrefixToTuple(this.subspacePrefix, tuple)
 
@@ -188,14 +377,18 @@ export class TupleRootTransaction<S extends KeyValuePair>
 		if (t.exists(this.writes.remove, fullTuple)) {
 			return
 		}
-		const items = this.db.scan({ gte: fullTuple, lte: fullTuple }, this.id)
-		if (items.length === 0) return
+		if (this.isCleared(fullTuple)) {
+			return
+		}
+		const items = this.scanDb({ gte: fullTuple, lte: fullTuple }, snapshot)
 		if (items.length > 1) throw new Error("Get expects only one value.")
-		const pair = items[0]
-		return pair.value
+		return this.applyPendingAtomic(fullTuple, items[0]?.value)
 	}
 
-	exists<T extends S["key"]>(tuple: T): Identity<boolean> {
+	private existsAt<T extends S["key"]>(
+		tuple: T,
+		snapshot: boolean
+	): Identity<boolean> {
 		this.checkActive()
 		const fullTuple = prependPrefixToTuple(this.subspacePrefix, tuple)
 
@@ -205,7 +398,14 @@ export class TupleRootTransaction<S extends KeyValuePair>
 		if (t.exists(this.writes.remove, fullTuple)) {
 			return false
 		}
-		const items = this.db.scan({ gte: fullTuple, lte: fullTuple }, this.id)
+		if (this.isCleared(fullTuple)) {
+			return false
+		}
+		if (this.hasPendingAtomic(fullTuple)) {
+			// Every atomic mutation sets a value when there isn't one.
+			return true
+		}
+		const items = this.scanDb({ gte: fullTuple, lte: fullTuple }, snapshot)
 		if (items.length === 0) return false
 		return items.length >= 1
 	}
@@ -218,6 +418,7 @@ export class TupleRootTransaction<S extends KeyValuePair>
 		this.checkActive()
 		const fullTuple = prependPrefixToTuple(this.subspacePrefix, tuple)
 		t.remove(this.writes.remove, fullTuple)
+		this.removePendingAtomic(fullTuple)
 		tv.set(this.writes.set, fullTuple, value)
 		return this
 	}
@@ -226,35 +427,279 @@ export class TupleRootTransaction<S extends KeyValuePair>
 		this.checkActive()
 		const fullTuple = prependPrefixToTuple(this.subspacePrefix, tuple)
 		tv.remove(this.writes.set, fullTuple)
+		this.removePendingAtomic(fullTuple)
 		t.set(this.writes.remove, fullTuple)
 		return this
 	}
 
+	/** Remove everything within a range, including any pending writes. */
+	clear<T extends S["key"], P extends TuplePrefix<T>>(
+		args: ClearArgs<T, P> = {}
+	): TupleRootTransactionApi<S> {
+		this.checkActive()
+		const bounds = normalizeSubspaceScanArgs(
+			this.subspacePrefix,
+			args as ScanArgs<T, P>
+		)
+		for (const { key } of tv.scan(this.writes.set, bounds)) {
+			tv.remove(this.writes.set, key)
+		}
+		for (const tuple of t.scan(this.writes.remove, bounds)) {
+			t.remove(this.writes.remove, tuple)
+		}
+		mutableFilter(
+			this.writes.atomic,
+			({ key }) => !t.isTupleWithinBounds(key, bounds)
+		)
+		this.writes.clear.push(bounds)
+		return this
+	}
+
+	/**
+	 * Apply an atomic mutation when the transaction commits. This doesn't read
+	 * the current value so it won't conflict with other transactions.
+	 */
+	atomic<T extends S["key"]>(
+		op: AtomicOp,
+		tuple: T,
+		value: ValueForTuple<S, T>
+	): TupleRootTransactionApi<S> {
+		this.checkActive()
+		const fullTuple = prependPrefixToTuple(this.subspacePrefix, tuple)
+
+		// If we already know the value, then we can apply the mutation right away.
+		if (tv.exists(this.writes.set, fullTuple)) {
+			const current = tv.get(this.writes.set, fullTuple)
+			tv.set(
+				this.writes.set,
+				fullTuple,
+				applyAtomicMutation(op, current, value)
+			)
+		} else if (
+			t.exists(this.writes.remove, fullTuple) ||
+			this.isCleared(fullTuple)
+		) {
+			t.remove(this.writes.remove, fullTuple)
+			tv.set(
+				this.writes.set,
+				fullTuple,
+				applyAtomicMutation(op, undefined, value)
+			)
+		} else {
+			this.writes.atomic.push({ op, key: fullTuple, value })
+		}
+		return this
+	}
+
+	private hasPendingAtomic(fullTuple: Tuple) {
+		return this.writes.atomic.some(
+			({ key }) => compareTuple(key, fullTuple) === 0
+		)
+	}
+
+	private removePendingAtomic(fullTuple: Tuple) {
+		mutableFilter(
+			this.writes.atomic,
+			({ key }) => compareTuple(key, fullTuple) !== 0
+		)
+	}
+
+	/** Reading a key with pending atomic mutations applies them to the value. */
+	private applyPendingAtomic(fullTuple: Tuple, value: any) {
+		for (const { op, key, value: param } of this.writes.atomic) {
+			if (compareTuple(key, fullTuple) !== 0) continue
+			value = applyAtomicMutation(op, value, param)
+		}
+		return value
+	}
+
+	/** Pending sets within the scan, including keys with atomic mutations. */
+	private scanPendingSets(args: ScanStorageArgs, snapshot: boolean) {
+		const sets = tv.scan(this.writes.set, args)
+		for (const { key } of this.writes.atomic) {
+			if (!t.isTupleWithinBounds(key, args)) continue
+			if (tv.exists(sets, key, args.reverse)) continue
+			const [pair] = this.scanDb({ gte: key, lte: key }, snapshot)
+			const value = this.applyPendingAtomic(key, pair?.value)
+			tv.set(sets, key, value, args.reverse)
+		}
+		return sets
+	}
+
+	/**
+	 * Reads are sent as read conflict ranges when we commit, rather than logged
+	 * by the database right away, so that rolling back to a savepoint can
+	 * discard them. The transaction began at a snapshot so it conflicts with
+	 * the same writes either way.
+	 */
+	private scanDb(args: ScanStorageArgs, snapshot: boolean) {
+		const { limit, reverse, ...bounds } = args
+		if (!snapshot) this.conflicts.read.push(bounds)
+		this.begin()
+		return this.db.scan(args, this.id, true)
+	}
+
+	private iterateDb(args: ScanStorageArgs, snapshot: boolean) {
+		const { limit, reverse, ...bounds } = args
+		if (!snapshot) this.conflicts.read.push(bounds)
+		this.begin()
+		return this.db.iterate(args, this.id, true)
+	}
+
+	/**
+	 * The read version is taken on the first read, like FoundationDB, so that a
+	 * transaction that only writes never holds onto any history.
+	 */
+	private begin() {
+		if (this.readVersion !== undefined) return
+		this.readVersion = this.db.begin(this.id)
+	}
+
+	private getClears(bounds: t.Bounds) {
+		return this.writes.clear.filter((clear) =>
+			isBoundsOverlappingBounds(clear, bounds)
+		)
+	}
+
+	private isCleared(fullTuple: Tuple) {
+		return this.writes.clear.some((bounds) =>
+			t.isTupleWithinBounds(fullTuple, bounds)
+		)
+	}
+
 	write(writes: WriteOps<S>): TupleRootTransactionApi<S> {
 		this.checkActive()
 
-		// If you're calling this function, then the order of these opertions
+		// Clears happen first, then the order of the rest of these operations
 		// shouldn't matter.
-		const { set, remove } = writes
+		const { set, remove, clear, atomic } = writes
+		for (const bounds of clear || []) {
+			this.clear(bounds as ClearArgs<any, any>)
+		}
 		for (const tuple of remove || []) {
 			this.remove(tuple)
 		}
 		for (const { key, value } of set || []) {
 			this.set(key, value)
 		}
+		for (const { op, key, value } of atomic || []) {
+			this.atomic(op, key, value)
+		}
+		return this
+	}
+
+	/** Conflict with any concurrent write to this range without reading it. */
+	addReadConflictRange<T extends S["key"], P extends TuplePrefix<T>>(
+		args: ClearArgs<T, P> = {}
+	): TupleRootTransactionApi<S> {
+		this.checkActive()
+		const bounds = normalizeSubspaceScanArgs(
+			this.subspacePrefix,
+			args as ScanArgs<T, P>
+		)
+		this.conflicts.read.push(bounds)
+		this.begin()
+		return this
+	}
+
+	/** Conflict with any concurrent read of this range without writing to it. */
+	addWriteConflictRange<T extends S["key"], P extends TuplePrefix<T>>(
+		args: ClearArgs<T, P> = {}
+	): TupleRootTransactionApi<S> {
+		this.checkActive()
+		const bounds = normalizeSubspaceScanArgs(
+			this.subspacePrefix,
+			args as ScanArgs<T, P>
+		)
+		this.conflicts.write.push(bounds)
+		return this
+	}
+
+	/** Remember the pending writes, conflict ranges and hooks to roll back to later. */
+	savepoint(): Savepoint {
+		this.checkActive()
+		return copySavepoint({
+			writes: this.writes,
+			conflicts: this.conflicts,
+			hooks: this.hooks,
+		})
+	}
+
+	/**
+	 * Discard every write, read, conflict range and hook since the savepoint.
+	 * The savepoint can be rolled back to again.
+	 */
+	rollbackTo(savepoint: Savepoint): TupleRootTransactionApi<S> {
+		this.checkActive()
+		const { writes, conflicts, hooks } = copySavepoint(savepoint)
+		this.writes = writes as Required<WriteOps<S>>
+		this.conflicts = conflicts
+		this.hooks = hooks
+		return this
+	}
+
+	/** Roll back everything that the function did when it throws. */
+	nested<O>(fn: (tx: TupleRootTransactionApi<S>) => Identity<O>): Identity<O> {
+		const savepoint = this.savepoint()
+		try {
+			return fn(this)
+		} catch (error) {
+			this.rollbackTo(savepoint)
+			throw error
+		}
+	}
+
+	/** Runs before committing. It can add writes, or throw to cancel instead. */
+	onBeforeCommit(
+		fn: (tx: TupleRootTransactionApi<S>) => Identity<void> | void
+	): TupleRootTransactionApi<S> {
+		this.checkActive()
+		this.hooks.beforeCommit.push(fn)
+		return this
+	}
+
+	onAfterCommit(fn: () => Identity<void> | void): TupleRootTransactionApi<S> {
+		this.checkActive()
+		this.hooks.afterCommit.push(fn)
+		return this
+	}
+
+	onCancel(fn: () => Identity<void> | void): TupleRootTransactionApi<S> {
+		this.checkActive()
+		this.hooks.cancel.push(fn)
 		return this
 	}
 
 	commit() {
 		this.checkActive()
+		try {
+			// A hook can add more hooks.
+			for (let i = 0; i < this.hooks.beforeCommit.length; i++) {
+				this.hooks.beforeCommit[i](this)
+			}
+		} catch (error) {
+			this.cancel()
+			throw error
+		}
 		this.committed = true
-		return this.db.commit(this.writes, this.id)
+		try {
+			this.db.commit(this.writes, this.id, {
+				...this.conflicts,
+				readVersion: this.readVersion,
+			})
+		} catch (error) {
+			// Nothing was written, such as when the commit conflicts.
+			runHooks(this.hooks.cancel)
+			throw error
+		}
+		runHooks(this.hooks.afterCommit)
 	}
 
 	cancel() {
 		this.checkActive()
 		this.canceled = true
-		return this.db.cancel(this.id)
+		this.db.cancel(this.id)
+		runHooks(this.hooks.cancel)
 	}
 
 	subspace<P extends TuplePrefix<S["key"]>>(
@@ -283,6 +728,18 @@ export class TupleSubspaceTransaction<S extends KeyValuePair>
 		return result as FilterTupleValuePairByPrefix<S, P>[]
 	}
 
+	*iterate<T extends S["key"], P extends TuplePrefix<T>>(
+		args: ScanArgs<T, P> = {}
+	): Iterable<FilterTupleValuePairByPrefix<S, P>> {
+		const storageScanArgs = normalizeSubspaceScanArgs(this.subspacePrefix, args)
+		for (const pair of this.tx.iterate(storageScanArgs)) {
+			yield removePrefixFromTupleValuePair(
+				this.subspacePrefix,
+				pair
+			) as FilterTupleValuePairByPrefix<S, P>
+		}
+	}
+
 	get<T extends S["key"]>(tuple: T): Identity<ValueForTuple<S, T> | undefined> {
 		const fullTuple = prependPrefixToTuple(this.subspacePrefix, tuple)
 		return this.tx.get(fullTuple)
@@ -293,6 +750,10 @@ export class TupleSubspaceTransaction<S extends KeyValuePair>
 		return this.tx.exists(fullTuple)
 	}
 
+	get snapshot(): TupleSnapshotApi<S> {
+		return new TupleSubspaceSnapshot<S>(this.tx.snapshot, this.subspacePrefix)
+	}
+
 	// ReadApis
 	set<T extends S>(tuple: T["key"], value: T["value"]): TupleTransactionApi<S> {
 		const fullTuple = prependPrefixToTuple(this.subspacePrefix, tuple)
@@ -306,19 +767,99 @@ export class TupleSubspaceTransaction<S extends KeyValuePair>
 		return this
 	}
 
+	clear<T extends S["key"], P extends TuplePrefix<T>>(
+		args: ClearArgs<T, P> = {}
+	): TupleTransactionApi<S> {
+		const bounds = normalizeSubspaceScanArgs(
+			this.subspacePrefix,
+			args as ScanArgs<T, P>
+		)
+		this.tx.clear(bounds)
+		return this
+	}
+
+	addReadConflictRange<T extends S["key"], P extends TuplePrefix<T>>(
+		args: ClearArgs<T, P> = {}
+	): TupleTransactionApi<S> {
+		const bounds = normalizeSubspaceScanArgs(
+			this.subspacePrefix,
+			args as ScanArgs<T, P>
+		)
+		this.tx.addReadConflictRange(bounds)
+		return this
+	}
+
+	addWriteConflictRange<T extends S["key"], P extends TuplePrefix<T>>(
+		args: ClearArgs<T, P> = {}
+	): TupleTransactionApi<S> {
+		const bounds = normalizeSubspaceScanArgs(
+			this.subspacePrefix,
+			args as ScanArgs<T, P>
+		)
+		this.tx.addWriteConflictRange(bounds)
+		return this
+	}
+
+	atomic<T extends S["key"]>(
+		op: AtomicOp,
+		tuple: T,
+		value: ValueForTuple<S, T>
+	): TupleTransactionApi<S> {
+		const fullTuple = prependPrefixToTuple(this.subspacePrefix, tuple)
+		this.tx.atomic(op, fullTuple, value)
+		return this
+	}
+
 	write(writes: WriteOps<S>): TupleTransactionApi<S> {
-		// If you're calling this function, then the order of these opertions
+		// Clears happen first, then the order of the rest of these operations
 		// shouldn't matter.
-		const { set, remove } = writes
+		const { set, remove, clear, atomic } = writes
+		for (const bounds of clear || []) {
+			this.clear(bounds as ClearArgs<any, any>)
+		}
 		for (const tuple of remove || []) {
 			this.remove(tuple)
 		}
 		for (const { key, value } of set || []) {
 			this.set(key, value)
 		}
+		for (const { op, key, value } of atomic || []) {
+			this.atomic(op, key, value)
+		}
+		return this
+	}
+
+	onBeforeCommit(
+		fn: (tx: TupleTransactionApi<S>) => Identity<void> | void
+	): TupleTransactionApi<S> {
+		// Writes from the hook are within this subspace.
+		this.tx.onBeforeCommit(() => fn(this))
+		return this
+	}
+
+	onAfterCommit(fn: () => Identity<void> | void): TupleTransactionApi<S> {
+		this.tx.onAfterCommit(fn)
 		return this
 	}
 
+	onCancel(fn: () => Identity<void> | void): TupleTransactionApi<S> {
+		this.tx.onCancel(fn)
+		return this
+	}
+
+	savepoint() {
+		return this.tx.savepoint()
+	}
+
+	rollbackTo(savepoint: Savepoint): TupleTransactionApi<S> {
+		this.tx.rollbackTo(savepoint)
+		return this
+	}
+
+	nested<O>(fn: (tx: TupleTransactionApi<S>) => Identity<O>): Identity<O> {
+		return this.tx.nested(() => fn(this))
+	}
+
 	subspace<P extends TuplePrefix<S["key"]>>(
 		prefix: P
 	): TupleTransactionApi<RemoveTupleValuePairPrefix<S, P>> {
@@ -328,3 +869,71 @@ export class TupleSubspaceTransaction<S extends KeyValuePair>
 		])
 	}
 }
+
+export class TupleSubspaceSnapshot<S extends KeyValuePair>
+	implements TupleSnapshotApi<S>
+{
+	constructor(
+		private snapshot: TupleSnapshotApi<any>,
+		public subspacePrefix: Tuple
+	) {}
+
+	scan<T extends S["key"], P extends TuplePrefix<T>>(
+		args: ScanArgs<T, P> = {}
+	): Identity<FilterTupleValuePairByPrefix<S, P>[]> {
+		const storageScanArgs = normalizeSubspaceScanArgs(this.subspacePrefix, args)
+		const pairs = this.snapshot.scan(storageScanArgs)
+		const result = removePrefixFromTupleValuePairs(this.subspacePrefix, pairs)
+		return result as FilterTupleValuePairByPrefix<S, P>[]
+	}
+
+	*iterate<T extends S["key"], P extends TuplePrefix<T>>(
+		args: ScanArgs<T, P> = {}
+	): Iterable<FilterTupleValuePairByPrefix<S, P>> {
+		const storageScanArgs = normalizeSubspaceScanArgs(this.subspacePrefix, args)
+		for (const pair of this.snapshot.iterate(storageScanArgs)) {
+			yield removePrefixFromTupleValuePair(
+				this.subspacePrefix,
+				pair
+			) as FilterTupleValuePairByPrefix<S, P>
+		}
+	}
+
+	get<T extends S["key"]>(tuple: T): Identity<ValueForTuple<S, T> | undefined> {
+		const fullTuple = prependPrefixToTuple(this.subspacePrefix, tuple)
+		return this.snapshot.get(fullTuple)
+	}
+
+	exists<T extends S["key"]>(tuple: T): Identity<boolean> {
+		const fullTuple = prependPrefixToTuple(this.subspacePrefix, tuple)
+		return this.snapshot.exists(fullTuple)
+	}
+}
+
+/** The transaction is already done so errors are logged like subscribers. */
+function runHooks(hooks: (() => Identity<void> | void)[]) {
+	for (const fn of hooks) {
+		try {
+			fn()
+		} catch (error) {
+			console.error(error)
+		}
+	}
+}
+
+function copySavepoint({ writes, conflicts, hooks }: Savepoint): Savepoint {
+	return {
+		writes: {
+			set: [...writes.set],
+			remove: [...writes.remove],
+			clear: [...writes.clear],
+			atomic: [...writes.atomic],
+		},
+		conflicts: { read: [...conflicts.read], write: [...conflicts.write] },
+		hooks: {
+			beforeCommit: [...hooks.beforeCommit],
+			afterCommit: [...hooks.afterCommit],
+			cancel: [...hooks.cancel],
+		},
+	}
+}
@@ -10,15 +10,28 @@ import { strict as assert } from "assert"
 import * as _ from "lodash"
 import { sum } from "lodash"
 import { describe, it } from "mocha"
+import { desc, Descending } from "../../helpers/descending"
 import { randomId } from "../../helpers/randomId"
-import { KeyValuePair, MAX, MIN, WriteOps } from "../../storage/types"
+import { InMemoryTupleStorage } from "../../storage/InMemoryTupleStorage"
+import { KeyValuePair, MAX, MIN, Tuple, WriteOps } from "../../storage/types"
 import { assertEqual } from "../../test/assertHelpers"
 import { sortedValues } from "../../test/fixtures"
+import { ReadWriteConflictError } from "../ConcurrencyLog"
+import { RetryInfo } from "../retryPolicy"
 import { transactionalWrite } from "../transactionalWrite"
+import { TransactionExpiredError } from "../TransactionExpiry"
 import { Assert } from "../typeHelpers"
-import { subscribeQuery } from "./subscribeQuery"
+import { Change, ChangeBatch, ScanDiff } from "../types"
+import { observeQuery, subscribeQuery } from "./subscribeQuery"
+import { subscribeScan } from "./subscribeScan"
 import { transactionalReadWrite } from "./transactionalReadWrite"
-import { TupleDatabaseClientApi, TupleTransactionApi } from "./types"
+import { TupleDatabase } from "./TupleDatabase"
+import { TupleDatabaseClient } from "./TupleDatabaseClient"
+import {
+	TupleDatabaseClientApi,
+	TupleRootTransactionApi,
+	TupleTransactionApi,
+} from "./types"
 
 const isSync = true
 
@@ -1570,6 +1583,213 @@ export function databaseTestSuite(
 			})
 		})
 
+		describe("subscribe changes", () => {
+			it("calls back with the before and after values", () => {
+				const store = createStorage(randomId())
+				store.commit({
+					set: [
+						{ key: ["a", 1], value: 1 },
+						{ key: ["a", 2], value: 2 },
+					],
+				})
+
+				const changes: Change[] = []
+				store.subscribe(
+					{ prefix: ["a"] },
+					(writes, txId, c) => {
+						changes.push(...c!)
+					},
+					{ changes: true }
+				)
+
+				store
+					.transact()
+					.set(["a", 1], 10)
+					.remove(["a", 2])
+					.set(["a", 3], 3)
+					.remove(["a", 4])
+					.set(["b", 1], 1)
+					.commit()
+
+				assertEqual(changes, [
+					{ key: ["a", 1], before: 1, after: 10 },
+					{ key: ["a", 2], before: 2, after: undefined },
+					{ key: ["a", 3], before: undefined, after: 3 },
+				])
+			})
+
+			it("includes cleared values", () => {
+				const store = createStorage(randomId())
+				store.commit({
+					set: [
+						{ key: ["a", 1], value: 1 },
+						{ key: ["a", 2], value: 2 },
+						{ key: ["b", 1], value: 1 },
+					],
+				})
+
+				const changes: Change[] = []
+				store.subscribe(
+					{ gte: ["a", 2] },
+					(writes, txId, c) => {
+						changes.push(...c!)
+					},
+					{ changes: true }
+				)
+
+				const tx = store.transact()
+				tx.clear({ gte: ["a"] })
+				tx.set(["b", 1], 10)
+				tx.commit()
+
+				assertEqual(changes, [
+					{ key: ["a", 2], before: 2, after: undefined },
+					{ key: ["b", 1], before: 1, after: 10 },
+				])
+			})
+
+			it("only when subscribed with changes", () => {
+				const store = createStorage(randomId())
+
+				const changes: (Change[] | undefined)[] = []
+				store.subscribe({ prefix: ["a"] }, (writes, txId, c) => {
+					changes.push(c)
+				})
+
+				store.commit({ set: [{ key: ["a"], value: 1 }] })
+				assertEqual(changes, [undefined])
+			})
+
+			it("works with subspaces", () => {
+				const store = createStorage(randomId())
+				store.commit({ set: [{ key: ["a", "b", 1], value: 1 }] })
+
+				const changes: Change[] = []
+				store.subspace(["a"]).subscribe(
+					{},
+					(writes, txId, c) => {
+						changes.push(...c!)
+					},
+					{ changes: true }
+				)
+
+				store.commit({ set: [{ key: ["a", "b", 1], value: 2 }] })
+				assertEqual(changes, [{ key: ["b", 1], before: 1, after: 2 }])
+			})
+		})
+
+		describe("observe", () => {
+			it("calls next with every batch until unsubscribed", () => {
+				const store = createStorage(randomId())
+
+				const batches: ChangeBatch[] = []
+				const subscription = store
+					.observe({ prefix: ["a"] }, { changes: true })
+					.subscribe((batch) => batches.push(batch))
+
+				store.commit({ set: [{ key: ["a", 1], value: 1 }] })
+				subscription.unsubscribe()
+				store.commit({ set: [{ key: ["a", 2], value: 2 }] })
+
+				assertEqual(batches.length, 1)
+				assertEqual(batches[0].writes, {
+					set: [{ key: ["a", 1], value: 1 }],
+					remove: [],
+				})
+				assertEqual(batches[0].changes, [
+					{ key: ["a", 1], before: undefined, after: 1 },
+				])
+			})
+
+			it("observeQuery emits the result and every change", () => {
+				const store = createStorage(randomId())
+				store.commit({ set: [{ key: ["a"], value: 1 }] })
+
+				const results: any[] = []
+				const subscription = observeQuery(store, (db) =>
+					db.get(["a"])
+				).subscribe((result) => results.push(result))
+				// Wait for the first result.
+				new Promise((resolve) => setTimeout(resolve, 10))
+				assertEqual(results, [1])
+
+				store.commit({ set: [{ key: ["a"], value: 2 }] })
+				subscription.unsubscribe()
+				store.commit({ set: [{ key: ["a"], value: 3 }] })
+				assertEqual(results, [1, 2])
+			})
+		})
+
+		describe("commit order", () => {
+			it("emits commits from callbacks after the current emit", () => {
+				const store = createStorage(randomId())
+				const events: string[] = []
+
+				store.subscribe({ prefix: ["a"] }, () => {
+					events.push("a1")
+					store.commit({ set: [{ key: ["b"], value: 1 }] })
+				})
+				store.subscribe({ prefix: ["a"] }, () => {
+					events.push("a2")
+				})
+				store.subscribe({ prefix: ["b"] }, () => {
+					events.push("b")
+				})
+
+				store.commit({ set: [{ key: ["a"], value: 1 }] })
+				// Both callbacks for the first commit run before the second commit.
+				assertEqual(_.sortBy(events.slice(0, 2)), ["a1", "a2"])
+				assertEqual(events[2], "b")
+				assertEqual(store.get(["b"]), 1)
+			})
+
+			it("writes commits from callbacks right away", () => {
+				const store = createStorage(randomId())
+				const seen: any[] = []
+
+				store.subscribe({ prefix: ["a"] }, () => {
+					const committed: unknown = store.commit({
+						set: [{ key: ["b"], value: 1 }],
+					})
+					seen.push(committed instanceof Promise)
+					committed
+					seen.push(store.get(["b"]))
+
+					// Conflicts are thrown to the callback.
+					const tx = store.transact()
+					tx.get(["b"])
+					tx.set(["b"], 2)
+					store.commit({ set: [{ key: ["b"], value: 3 }] })
+					try {
+						tx.commit()
+					} catch (error) {
+						seen.push(error instanceof ReadWriteConflictError)
+					}
+				})
+
+				store.commit({ set: [{ key: ["a"], value: 1 }] })
+				assertEqual(seen, [!isSync, 1, true])
+				assertEqual(store.get(["b"]), 3)
+			})
+
+			if (!isSync) {
+				it("emits concurrent commits in commit order", () => {
+					const store = createStorage(randomId())
+					const values: number[] = []
+					store.subscribe({ prefix: ["a"] }, ({ set }) => {
+						for (const { value } of set || []) values.push(value)
+					})
+
+					const commits = _.range(10).map((i) =>
+						store.commit({ set: [{ key: ["a"], value: i }] })
+					)
+					for (const commit of commits) commit
+					assertEqual(values, _.range(10))
+					assertEqual(store.get(["a"]), 9)
+				})
+			}
+		})
+
 		describe("subscribeQuery", () => {
 			it("works", () => {
 				type Schema =
@@ -1674,6 +1894,344 @@ export function databaseTestSuite(
 				store.transact().set(["chet"], 3).commit()
 				assert.equal(total, 5)
 			})
+
+			it("calls onError when it fails to run again", () => {
+				const store = createStorage(randomId())
+				store.commit({ set: [{ key: ["a"], value: 1 }] })
+
+				const errors: any[] = []
+				const results: any[] = []
+				subscribeQuery(
+					store,
+					(db) => {
+						const a = db.get(["a"])
+						if (a === 2) throw new Error("Oops")
+						return a
+					},
+					(result) => {
+						results.push(result)
+					},
+					{
+						onError: (error) => {
+							errors.push(error)
+						},
+					}
+				)
+
+				store.commit({ set: [{ key: ["a"], value: 2 }] })
+				store.commit({ set: [{ key: ["a"], value: 3 }] })
+				assertEqual(
+					errors.map((error) => error.message),
+					["Oops"]
+				)
+				assertEqual(results, [3])
+			})
+		})
+
+		if (!isSync) {
+			describe("subscribeQuery snapshots", () => {
+				const sleep = (ms: number) =>
+					new Promise((resolve) => setTimeout(resolve, ms))
+
+				it("never sees part of a commit", () => {
+					const store = createStorage(randomId())
+					store.commit({
+						set: [
+							{ key: ["a"], value: 0 },
+							{ key: ["b"], value: 0 },
+						],
+					})
+
+					let commit: Identity<void> | undefined
+					const computed: any[] = []
+					const results: any[] = []
+					const { result } = subscribeQuery(
+						store,
+						(db) => {
+							const a = db.get(["a"])
+							if (!commit) {
+								// Commit in between the two reads.
+								commit = store.commit({
+									set: [
+										{ key: ["a"], value: 1 },
+										{ key: ["b"], value: 1 },
+									],
+								})
+								sleep(10)
+							}
+							const b = db.get(["b"])
+							computed.push({ a, b })
+							return { a, b }
+						},
+						(result) => {
+							results.push(result)
+						}
+					)
+					commit
+
+					assertEqual(computed[0], { a: 0, b: 0 })
+					assertEqual(result, { a: 1, b: 1 })
+					for (const { a, b } of [...computed, ...results]) assertEqual(a, b)
+				})
+
+				it("only calls back with the latest commit", () => {
+					const store = createStorage(randomId())
+					store.commit({ set: [{ key: ["a"], value: 0 }] })
+
+					let commit: Identity<void> | undefined
+					const results: any[] = []
+					subscribeQuery(
+						store,
+						(db) => {
+							const a = db.get(["a"])
+							if (a === 1 && !commit) {
+								commit = store.commit({ set: [{ key: ["a"], value: 2 }] })
+								sleep(10)
+							}
+							return a
+						},
+						(result) => {
+							results.push(result)
+						}
+					)
+
+					store.commit({ set: [{ key: ["a"], value: 1 }] })
+					commit
+					assertEqual(results, [2])
+				})
+
+				it("gives up once it runs out of retries", () => {
+					const store = createStorage(randomId())
+
+					let attempts = 0
+					const commits: Identity<void>[] = []
+					assert.throws(
+						() =>
+							subscribeQuery(
+								store,
+								(db) => {
+									attempts += 1
+									const a = db.get(["a"])
+									// Change what we read every time.
+									commits.push(
+										store.commit({ set: [{ key: ["a"], value: attempts }] })
+									)
+									sleep(10)
+									return a
+								},
+								() => {},
+								{ retries: 2 }
+							),
+						ReadWriteConflictError
+					)
+					for (const commit of commits) commit
+					assert.equal(attempts, 3)
+				})
+			})
+		}
+
+		describe("subscribeScan", () => {
+			it("calls back with diffs", () => {
+				const store = createStorage(randomId())
+				store.commit({
+					set: [
+						{ key: ["a", 1], value: 1 },
+						{ key: ["a", 3], value: 3 },
+						{ key: ["b", 1], value: 1 },
+					],
+				})
+
+				const calls: ScanDiff[][] = []
+				const { result, destroy } = subscribeScan(
+					store,
+					{ prefix: ["a"] },
+					(diffs) => {
+						calls.push(diffs)
+					}
+				)
+				assertEqual(result, [
+					{ key: ["a", 1], value: 1 },
+					{ key: ["a", 3], value: 3 },
+				])
+
+				store.transact().set(["a", 2], 2).set(["a", 3], 30).commit()
+				store.transact().remove(["a", 1]).commit()
+				store.transact().set(["b", 2], 2).commit()
+				assertEqual(calls, [
+					[
+						{ type: "insert", index: 1, pair: { key: ["a", 2], value: 2 } },
+						{ type: "update", index: 2, pair: { key: ["a", 3], value: 30 } },
+					],
+					[{ type: "remove", index: 0 }],
+				])
+
+				destroy()
+				store.transact().set(["a", 4], 4).commit()
+				assertEqual(calls.length, 2)
+			})
+
+			it("doesn't call back when a value is set to the same value", () => {
+				const store = createStorage(randomId())
+				store.commit({ set: [{ key: ["a", 1], value: { x: 1 } }] })
+
+				let calls = 0
+				subscribeScan(store, { prefix: ["a"] }, () => {
+					calls++
+				})
+
+				store.transact().set(["a", 1], { x: 1 }).commit()
+				assertEqual(calls, 0)
+			})
+
+			it("clears", () => {
+				const store = createStorage(randomId())
+				store.commit({
+					set: [
+						{ key: ["a", 1], value: 1 },
+						{ key: ["a", 2], value: 2 },
+						{ key: ["a", 3], value: 3 },
+					],
+				})
+
+				let result: KeyValuePair[] = []
+				const calls: ScanDiff[][] = []
+				subscribeScan(store, { prefix: ["a"] }, (diffs, r) => {
+					calls.push(diffs)
+					result = r
+				})
+
+				const tx = store.transact()
+				tx.clear({ prefix: ["a"], gte: [2] })
+				tx.commit()
+				assertEqual(calls, [
+					[
+						{ type: "remove", index: 2 },
+						{ type: "remove", index: 1 },
+					],
+				])
+				assertEqual(result, [{ key: ["a", 1], value: 1 }])
+			})
+
+			it("only scans again when the window shifts", () => {
+				const store = createStorage(randomId())
+				store.commit({
+					set: [
+						{ key: ["a", 2], value: 2 },
+						{ key: ["a", 4], value: 4 },
+						{ key: ["a", 6], value: 6 },
+					],
+				})
+
+				let scans = 0
+				const db: typeof store = Object.create(store)
+				db.scan = (...args: any[]) => {
+					scans++
+					return (store.scan as any)(...args)
+				}
+
+				const calls: ScanDiff[][] = []
+				let { result } = subscribeScan(
+					db,
+					{ prefix: ["a"], limit: 2 },
+					(diffs, r) => {
+						calls.push(diffs)
+						result = r
+					}
+				)
+				assertEqual(scans, 1)
+				assertEqual(result, [
+					{ key: ["a", 2], value: 2 },
+					{ key: ["a", 4], value: 4 },
+				])
+
+				// After the window.
+				store.transact().set(["a", 5], 5).commit()
+				assertEqual(calls, [])
+
+				// Pushes the last item out of the window.
+				store.transact().set(["a", 1], 1).commit()
+				assertEqual(calls, [
+					[
+						{ type: "insert", index: 0, pair: { key: ["a", 1], value: 1 } },
+						{ type: "remove", index: 2 },
+					],
+				])
+				assertEqual(scans, 1)
+
+				// Pulls the next item into the window.
+				calls.length = 0
+				store.transact().remove(["a", 1]).commit()
+				assertEqual(calls, [
+					[
+						{ type: "remove", index: 0 },
+						{ type: "insert", index: 1, pair: { key: ["a", 4], value: 4 } },
+					],
+				])
+				assertEqual(scans, 2)
+				assertEqual(result, [
+					{ key: ["a", 2], value: 2 },
+					{ key: ["a", 4], value: 4 },
+				])
+			})
+
+			it("reverse", () => {
+				const store = createStorage(randomId())
+				store.commit({
+					set: [
+						{ key: ["a", 1], value: 1 },
+						{ key: ["a", 3], value: 3 },
+						{ key: ["a", 5], value: 5 },
+					],
+				})
+
+				const calls: ScanDiff[][] = []
+				let { result } = subscribeScan(
+					store,
+					{ prefix: ["a"], reverse: true, limit: 2 },
+					(diffs, r) => {
+						calls.push(diffs)
+						result = r
+					}
+				)
+
+				store.transact().set(["a", 2], 2).commit()
+				assertEqual(calls, [])
+
+				store.transact().set(["a", 6], 6).commit()
+				assertEqual(calls, [
+					[
+						{ type: "insert", index: 0, pair: { key: ["a", 6], value: 6 } },
+						{ type: "remove", index: 2 },
+					],
+				])
+				assertEqual(result, [
+					{ key: ["a", 6], value: 6 },
+					{ key: ["a", 5], value: 5 },
+				])
+			})
+
+			it("diffs always apply to the previous result", () => {
+				const store = createStorage(randomId())
+				const args = { prefix: ["a"], limit: 5 }
+
+				let { result } = subscribeScan(store, args, (diffs, r) => {
+					result = applyScanDiffs(result, diffs)
+					assertEqual(result, r)
+				})
+
+				for (const i of _.range(100)) {
+					const tx = store.transact()
+					for (const j of _.range(_.random(1, 3))) {
+						const [start, end] = _.sortBy([_.random(10), _.random(10)])
+						const op = _.random(3)
+						if (op === 0) tx.remove(["a", start])
+						else if (op === 1) tx.clear({ gte: ["a", start], lte: ["a", end] })
+						else tx.set(["a", start], _.random(3))
+					}
+					tx.commit()
+					assertEqual(result, store.scan(args))
+				}
+			})
 		})
 
 		describe("subspace", () => {
@@ -2134,8 +2692,1067 @@ export function databaseTestSuite(
 				})
 				resetScore(store)
 			})
+
+			it("Commits before resolving for  clients.", () => {
+				const id = randomId()
+				type Schema = { key: ["score"]; value: number }
+				const store = createStorage<Schema>(id)
+
+				const resetScore = transactionalWrite<Schema>()((tx) => {
+					tx.set(["score"], 0)
+				})
+				resetScore(store)
+				assertEqual(store.get(["score"]), 0)
+			})
+
+			it("Retries when the commit conflicts.", () => {
+				// Writes alone don't conflict, so the storage does it instead.
+				class ConflictOnceStorage extends InMemoryTupleStorage {
+					conflicts = 1
+					commit(writes: WriteOps) {
+						if (this.conflicts-- > 0) {
+							throw new ReadWriteConflictError(undefined, ["score"], {})
+						}
+						super.commit(writes)
+					}
+				}
+				type Schema = { key: ["score"]; value: number }
+				const store = new TupleDatabaseClient<Schema>(
+					new TupleDatabase(new ConflictOnceStorage())
+				)
+
+				let attempts = 0
+				const resetScore = transactionalWrite<Schema>({
+					onSuccess: (n) => (attempts = n),
+				})((tx) => {
+					tx.set(["score"], 0)
+					return "reset"
+				})
+				assertEqual(resetScore(store), "reset")
+				assertEqual(attempts, 2)
+				assertEqual(store.get(["score"]), 0)
+			})
 		})
 
-		// New tests here...
-	})
+		describe("iterate", () => {
+			const items: KeyValuePair[] = _.range(10).map((i) => ({
+				key: ["a", i],
+				value: i,
+			}))
+
+			it("works the same as scan", () => {
+				const store = createStorage(randomId())
+				store.commit({ set: [...items, { key: ["b", 0], value: 0 }] })
+
+				const argsList = [
+					{},
+					{ prefix: ["a"] },
+					{ prefix: ["a"], gt: [2], lte: [7] },
+					{ prefix: ["a"], gte: [2], lt: [7], reverse: true },
+					{ prefix: ["a"], limit: 3 },
+					{ prefix: ["a"], limit: 3, reverse: true },
+				]
+				for (const args of argsList) {
+					assertEqual(collect(store.iterate(args)), store.scan(args))
+				}
+			})
+
+			it("can stop part way through", () => {
+				const store = createStorage(randomId())
+				store.commit({ set: items })
+
+				const result: KeyValuePair[] = []
+				for (const pair of store.iterate({ prefix: ["a"] })) {
+					result.push(pair)
+					if (result.length === 2) break
+				}
+				assertEqual(result, items.slice(0, 2))
+
+				store.commit({ remove: [["a", 0]] })
+				assertEqual(store.get(["a", 0]), undefined)
+			})
+
+			it("can commit while iterating", () => {
+				const store = createStorage(randomId())
+				// More than a batch for storages that iterate in batches.
+				const many = _.range(250).map((i) => ({ key: ["a", i], value: i }))
+				store.commit({ set: many })
+
+				const result: KeyValuePair[] = []
+				for (const pair of store.iterate({ prefix: ["a"] })) {
+					result.push(pair)
+					store.commit({ set: [{ key: ["b", result.length], value: 0 }] })
+				}
+				assertEqual(result, many)
+				assertEqual(store.scan({ prefix: ["b"] }).length, 250)
+			})
+
+			it("tx.iterate merges pending writes", () => {
+				const store = createStorage(randomId())
+				store.commit({ set: items })
+
+				const tx = store.transact()
+				tx.set(["a", -1], -1)
+				tx.set(["a", 2.5], 2.5)
+				tx.set(["a", 4], 99)
+				tx.remove(["a", 5])
+				tx.set(["a", 20], 20)
+
+				const argsList = [
+					{ prefix: ["a"] },
+					{ prefix: ["a"], reverse: true },
+					{ prefix: ["a"], gte: [2], lte: [6] },
+					{ prefix: ["a"], gt: [2], lt: [6], reverse: true },
+					{ prefix: ["a"], limit: 6 },
+					{ prefix: ["a"], limit: 6, reverse: true },
+				]
+				for (const args of argsList) {
+					assertEqual(collect(tx.iterate(args)), tx.scan(args))
+				}
+			})
+
+			it("tx.iterate in a subspace", () => {
+				type Schema = { key: ["a", number]; value: number }
+				const store = createStorage<Schema>(randomId())
+				store.commit({ set: items as Schema[] })
+
+				const tx = store.transact()
+				tx.set(["a", 3.5], 3.5)
+				const a = tx.subspace(["a"])
+				a.remove([3])
+
+				assertEqual(collect(a.iterate({ gt: [2], lt: [5] })), [
+					{ key: [3.5], value: 3.5 },
+					{ key: [4], value: 4 },
+				])
+			})
+
+			it("tx.iterate conflicts with writes to the same range", () => {
+				const store = createStorage(randomId())
+				store.commit({ set: items })
+
+				const tx = store.transact()
+				collect(tx.iterate({ prefix: ["a"] }))
+
+				store.transact().set(["a", 100], null).commit()
+				assert.throws(() => tx.commit())
+			})
+		})
+
+		describe("desc", () => {
+			type Schema = {
+				key: ["score", Descending<number>, string]
+				value: null
+			}
+
+			const scores: Schema["key"][] = [
+				["score", desc(3), "a"],
+				["score", desc(3), "b"],
+				["score", desc(2), "c"],
+				["score", desc(1), "a"],
+			]
+
+			it("sorts descending components in reverse", () => {
+				const store = createStorage<Schema>(randomId())
+				const tx = store.transact()
+				for (const key of _.shuffle(scores)) tx.set(key, null)
+				tx.commit()
+
+				const result = store.scan({ prefix: ["score"] })
+				assertEqual(
+					result.map(({ key }) => key),
+					scores
+				)
+				const score: number = result[0].key[1].value
+				assertEqual(score, 3)
+			})
+
+			it("scans with descending bounds", () => {
+				const store = createStorage<Schema>(randomId())
+				store.commit({ set: scores.map((key) => ({ key, value: null })) })
+
+				const tx = store.transact()
+				tx.remove(["score", desc(2), "c"])
+				tx.set(["score", desc(2.5), "d"], null)
+				const result = tx.scan({
+					prefix: ["score"],
+					gt: [desc(3), MAX],
+					lt: [desc(1)],
+				})
+				assertEqual(
+					result.map(({ key }) => key),
+					[["score", desc(2.5), "d"]]
+				)
+			})
+		})
+
+		describe("clear", () => {
+			const items: KeyValuePair[] = _.range(10).map((n) => ({
+				key: ["a", n],
+				value: n,
+			}))
+			const keys = (pairs: KeyValuePair[]) => pairs.map(({ key }) => key[1])
+
+			it("removes a range from storage", () => {
+				const store = createStorage(randomId())
+				store.commit({ set: [...items, { key: ["b", 0], value: 0 }] })
+
+				store.commit({ clear: [{ gte: ["a", 3], lt: ["a", 7] }] })
+				assertEqual(keys(store.scan({ prefix: ["a"] })), [0, 1, 2, 7, 8, 9])
+
+				store
+					.transact()
+					.clear({ prefix: ["a"] })
+					.commit()
+				assertEqual(store.scan(), [{ key: ["b", 0], value: 0 }])
+			})
+
+			it("clears before setting in the same commit", () => {
+				const store = createStorage(randomId())
+				store.commit({ set: items })
+				store.commit({
+					clear: [{ gte: ["a"], lte: ["a", MAX] }],
+					set: [{ key: ["a", 5], value: "x" }],
+				})
+				assertEqual(store.scan(), [{ key: ["a", 5], value: "x" }])
+			})
+
+			it("tx reads its own clears", () => {
+				const store = createStorage(randomId())
+				store.commit({ set: items })
+
+				const tx = store.transact()
+				tx.clear({ prefix: ["a"], gte: [2], lt: [8] })
+				tx.set(["a", 5], "x")
+
+				assertEqual(keys(tx.scan({ prefix: ["a"] })), [0, 1, 5, 8, 9])
+				assertEqual(keys(tx.scan({ prefix: ["a"], limit: 3 })), [0, 1, 5])
+				assertEqual(
+					keys(tx.scan({ prefix: ["a"], limit: 2, reverse: true })),
+					[9, 8]
+				)
+				assertEqual(
+					collect(tx.iterate({ prefix: ["a"], limit: 4 })),
+					tx.scan({ prefix: ["a"], limit: 4 })
+				)
+				assertEqual(tx.get(["a", 3]), undefined)
+				assertEqual(tx.exists(["a", 4]), false)
+				assertEqual(tx.get(["a", 5]), "x")
+				assertEqual(tx.get(["a", 9]), 9)
+
+				tx.commit()
+				assertEqual(keys(store.scan()), [0, 1, 5, 8, 9])
+			})
+
+			it("tx clear removes pending writes in the range", () => {
+				const store = createStorage(randomId())
+				store.commit({ set: items })
+
+				const tx = store.transact()
+				tx.set(["a", 100], 100)
+				tx.set(["b", 0], 0)
+				tx.remove(["a", 1])
+				tx.clear({ prefix: ["a"] })
+				assertEqual(tx.scan(), [{ key: ["b", 0], value: 0 }])
+				assertEqual(tx.writes.set.length, 1)
+				assertEqual(tx.writes.remove.length, 0)
+
+				tx.commit()
+				assertEqual(store.scan(), [{ key: ["b", 0], value: 0 }])
+			})
+
+			it("tx clear in a subspace", () => {
+				type Schema = { key: [string, number]; value: number }
+				const store = createStorage<Schema>(randomId())
+				store.commit({
+					set: [...(items as Schema[]), { key: ["b", 0], value: 0 }],
+				})
+
+				const tx = store.transact()
+				tx.subspace(["a"]).clear({ gt: [7] })
+				tx.subspace(["a"]).write({ clear: [{ lte: [1] }] })
+				assertEqual(tx.subspace(["a"]).get([2]), 2)
+				assertEqual(tx.subspace(["a"]).get([8]), undefined)
+				assertEqual(tx.subspace(["a"]).get([1]), undefined)
+				tx.commit()
+
+				assertEqual(keys(store.scan({ prefix: ["a"] })), [2, 3, 4, 5, 6, 7])
+				assertEqual(store.get(["b", 0]), 0)
+			})
+
+			it("clears only within a subspace", () => {
+				const store = createStorage(randomId())
+				store.commit({
+					set: [
+						{ key: ["a", 1], value: 1 },
+						{ key: ["b", 1], value: 1 },
+						{ key: ["b", 2], value: 2 },
+						{ key: ["c", 1], value: 1 },
+					],
+				})
+
+				store.subspace(["b"]).commit({ clear: [{ gte: [2] }] })
+				assertEqual(
+					store.scan().map(({ key }) => key),
+					[
+						["a", 1],
+						["b", 1],
+						["c", 1],
+					]
+				)
+
+				store.subspace(["b"]).commit({ clear: [{}] })
+				assertEqual(
+					store.scan().map(({ key }) => key),
+					[
+						["a", 1],
+						["c", 1],
+					]
+				)
+			})
+
+			it("conflicts with reads in the cleared range", () => {
+				const store = createStorage(randomId())
+				store.commit({ set: items })
+
+				const tx1 = store.transact()
+				tx1.get(["a", 5])
+				tx1.set(["c"], 1)
+
+				const tx2 = store.transact()
+				tx2.get(["a", 9])
+				tx2.set(["c"], 2)
+
+				store
+					.transact()
+					.clear({ prefix: ["a"], lt: [8] })
+					.commit()
+
+				assert.throws(() => tx1.commit())
+				tx2.commit()
+				assertEqual(store.get(["c"]), 2)
+			})
+
+			it("emits clears to overlapping subscriptions", () => {
+				const store = createStorage(randomId())
+				store.commit({ set: items })
+
+				const emits: { [name: string]: WriteOps[] } = { a: [], b: [], sub: [] }
+				store.subscribe({ prefix: ["a"], gte: [3] }, (writes) => {
+					emits.a.push(writes)
+				})
+				store.subscribe({ prefix: ["b"] }, (writes) => {
+					emits.b.push(writes)
+				})
+				store.subspace(["a"]).subscribe({}, (writes) => {
+					emits.sub.push(writes)
+				})
+
+				store
+					.transact()
+					.clear({ prefix: ["a"], gte: [1], lt: [5] })
+					.commit()
+
+				assertEqual(emits.a, [
+					{ set: [], remove: [], clear: [{ gte: ["a", 3], lt: ["a", 5] }] },
+				])
+				assertEqual(emits.b, [])
+				assertEqual(emits.sub, [
+					{ set: [], remove: [], clear: [{ gte: [1], lt: [5] }] },
+				])
+			})
+		})
+
+		describe("atomic", () => {
+			it("applies each op against the current value", () => {
+				const store = createStorage(randomId())
+				store.commit({
+					set: [
+						{ key: ["add"], value: 1 },
+						{ key: ["min"], value: 5 },
+						{ key: ["max"], value: 5 },
+						{ key: ["bitOr"], value: 0b01 },
+						{ key: ["appendIfFits"], value: [1] },
+						{ key: ["setIfAbsent"], value: "a" },
+					],
+				})
+
+				store.commit({
+					atomic: [
+						{ op: "add", key: ["add"], value: 2 },
+						{ op: "add", key: ["add"], value: 3 },
+						{ op: "min", key: ["min"], value: 3 },
+						{ op: "max", key: ["max"], value: 3 },
+						{ op: "bitOr", key: ["bitOr"], value: 0b10 },
+						{ op: "appendIfFits", key: ["appendIfFits"], value: [2] },
+						{ op: "setIfAbsent", key: ["setIfAbsent"], value: "b" },
+						{ op: "setIfAbsent", key: ["new"], value: "c" },
+					],
+				})
+
+				assertEqual(store.scan(), [
+					{ key: ["add"], value: 6 },
+					{ key: ["appendIfFits"], value: [1, 2] },
+					{ key: ["bitOr"], value: 0b11 },
+					{ key: ["max"], value: 5 },
+					{ key: ["min"], value: 3 },
+					{ key: ["new"], value: "c" },
+					{ key: ["setIfAbsent"], value: "a" },
+				])
+			})
+
+			it("concurrent atomic mutations don't conflict", () => {
+				const store = createStorage(randomId())
+				store.commit({ set: [{ key: ["count"], value: 0 }] })
+
+				const tx1 = store.transact().atomic("add", ["count"], 1)
+				const tx2 = store.transact().atomic("add", ["count"], 1)
+
+				const tx3 = store.transact()
+				const count = tx3.get(["count"])
+				tx3.set(["count"], count + 10)
+
+				tx1.commit()
+				tx2.commit()
+				assert.throws(() => tx3.commit())
+				assertEqual(store.get(["count"]), 2)
+			})
+
+			it("tx reads its own atomic mutations", () => {
+				const store = createStorage(randomId())
+				store.commit({ set: [{ key: ["count"], value: 5 }] })
+
+				const tx = store.transact()
+				tx.atomic("add", ["count"], 2)
+				tx.atomic("add", ["count"], 1)
+				tx.atomic("setIfAbsent", ["other"], 1)
+				assertEqual(tx.get(["count"]), 8)
+				assertEqual(tx.exists(["other"]), true)
+				assertEqual(tx.scan(), [
+					{ key: ["count"], value: 8 },
+					{ key: ["other"], value: 1 },
+				])
+				assertEqual(collect(tx.iterate({ reverse: true })), [
+					{ key: ["other"], value: 1 },
+					{ key: ["count"], value: 8 },
+				])
+
+				store.commit({ set: [{ key: ["count"], value: 100 }] })
+				assert.throws(() => tx.commit())
+			})
+
+			it("applies right away when the value is known", () => {
+				const store = createStorage(randomId())
+				store.commit({ set: [{ key: ["a"], value: 5 }] })
+
+				const tx = store.transact()
+				tx.set(["a"], 1).atomic("add", ["a"], 2)
+				tx.remove(["b"]).atomic("add", ["b"], 3)
+				tx.atomic("add", ["c"], 1).set(["c"], 10)
+				assertEqual(tx.writes.atomic, [])
+				tx.commit()
+
+				assertEqual(store.scan(), [
+					{ key: ["a"], value: 3 },
+					{ key: ["b"], value: 3 },
+					{ key: ["c"], value: 10 },
+				])
+			})
+
+			it("emits the result to subscribers", () => {
+				const store = createStorage(randomId())
+				store.commit({ set: [{ key: ["count"], value: 1 }] })
+
+				const emits: WriteOps[] = []
+				store.subscribe({ prefix: ["count"] }, (writes) => {
+					emits.push(writes)
+				})
+
+				store.transact().atomic("add", ["count"], 1).commit()
+				assertEqual(emits, [
+					{ set: [{ key: ["count"], value: 2 }], remove: [] },
+				])
+			})
+		})
+
+		describe("snapshot reads", () => {
+			it("reads from the version of its first read", () => {
+				const store = createStorage(randomId())
+				store.commit({
+					set: [
+						{ key: ["a"], value: 1 },
+						{ key: ["b"], value: 2 },
+						{ key: ["c"], value: 3 },
+					],
+				})
+
+				const tx = store.transact()
+				assertEqual(tx.get(["a"]), 1)
+				store.commit({
+					set: [
+						{ key: ["a"], value: 10 },
+						{ key: ["a", 1], value: 11 },
+					],
+					remove: [["b"]],
+				})
+				store.commit({ clear: [{ gte: ["c"] }] })
+
+				assertEqual(tx.get(["a"]), 1)
+				assertEqual(tx.exists(["b"]), true)
+				assertEqual(tx.scan(), [
+					{ key: ["a"], value: 1 },
+					{ key: ["b"], value: 2 },
+					{ key: ["c"], value: 3 },
+				])
+				assertEqual(tx.scan({ limit: 2 }), [
+					{ key: ["a"], value: 1 },
+					{ key: ["b"], value: 2 },
+				])
+				assertEqual(collect(tx.iterate({ reverse: true, limit: 2 })), [
+					{ key: ["c"], value: 3 },
+					{ key: ["b"], value: 2 },
+				])
+				tx.cancel()
+
+				assertEqual(store.scan(), [
+					{ key: ["a"], value: 10 },
+					{ key: ["a", 1], value: 11 },
+				])
+			})
+
+			it("sees the latest version in a new transaction", () => {
+				const store = createStorage(randomId())
+				store.commit({ set: [{ key: ["a"], value: 1 }] })
+
+				const tx1 = store.transact()
+				tx1.get(["b"])
+				store.commit({ set: [{ key: ["a"], value: 2 }] })
+				const tx2 = store.transact()
+				tx2.get(["b"])
+				store.commit({ set: [{ key: ["a"], value: 3 }] })
+
+				assertEqual(tx1.get(["a"]), 1)
+				assertEqual(tx2.get(["a"]), 2)
+				assertEqual(store.transact().get(["a"]), 3)
+			})
+
+			it("takes the read version on the first read", () => {
+				const store = createStorage(randomId())
+				store.commit({ set: [{ key: ["a"], value: 1 }] })
+
+				const tx = store.transact()
+				store.commit({ set: [{ key: ["a"], value: 2 }] })
+				assertEqual(tx.get(["a"]), 2)
+				tx.set(["b"], 2)
+				tx.commit()
+			})
+
+			it("conflicts with writes from before the read", () => {
+				const store = createStorage(randomId())
+				store.commit({ set: [{ key: ["a"], value: 1 }] })
+
+				const tx = store.transact()
+				tx.get(["b"])
+				store.transact().set(["a"], 2).commit()
+
+				const a = tx.get(["a"])
+				tx.set(["b"], a)
+				assert.throws(() => tx.commit())
+			})
+		})
+
+		describe("tx.snapshot", () => {
+			it("reads without conflicting", () => {
+				const store = createStorage(randomId())
+				store.commit({
+					set: [
+						{ key: ["name"], value: "chet" },
+						{ key: ["score"], value: 1 },
+					],
+				})
+
+				const tx = store.transact()
+				const name = tx.snapshot.get(["name"])
+				assertEqual(tx.snapshot.exists(["score"]), true)
+				assertEqual(tx.snapshot.scan(), [
+					{ key: ["name"], value: "chet" },
+					{ key: ["score"], value: 1 },
+				])
+				tx.set(["greeting"], "hello " + name)
+
+				store.transact().set(["name"], "meghan").remove(["score"]).commit()
+
+				// Still reads from the same version as the rest of the transaction.
+				assertEqual(tx.snapshot.get(["name"]), "chet")
+				tx.commit()
+				assertEqual(store.get(["greeting"]), "hello chet")
+			})
+
+			it("merges pending writes", () => {
+				const store = createStorage(randomId())
+				store.commit({
+					set: [
+						{ key: ["a"], value: 1 },
+						{ key: ["b"], value: 2 },
+						{ key: ["c"], value: 3 },
+					],
+				})
+
+				const tx = store.transact()
+				tx.set(["a"], 10).remove(["b"]).atomic("add", ["c"], 1)
+				assertEqual(tx.snapshot.get(["a"]), 10)
+				assertEqual(tx.snapshot.exists(["b"]), false)
+				assertEqual(collect(tx.snapshot.iterate({ reverse: true })), [
+					{ key: ["c"], value: 4 },
+					{ key: ["a"], value: 10 },
+				])
+
+				store.commit({ set: [{ key: ["c"], value: 100 }] })
+				tx.commit()
+				assertEqual(store.get(["c"]), 101)
+			})
+
+			it("reads from a subspace", () => {
+				type Schema = { key: [string, number]; value: number }
+				const store = createStorage<Schema>(randomId())
+				store.commit({
+					set: [
+						{ key: ["a", 1], value: 1 },
+						{ key: ["b", 1], value: 2 },
+					],
+				})
+
+				const tx = store.transact()
+				const a = tx.subspace(["a"])
+				a.set([2], 2)
+				assertEqual(a.snapshot.scan(), [
+					{ key: [1], value: 1 },
+					{ key: [2], value: 2 },
+				])
+				assertEqual(a.snapshot.get([1]), 1)
+
+				store.commit({ set: [{ key: ["a", 1], value: 10 }] })
+				tx.commit()
+			})
+		})
+
+		describe("conflict ranges", () => {
+			it("addReadConflictRange conflicts without reading", () => {
+				const store = createStorage(randomId())
+
+				const tx = store.transact()
+				tx.addReadConflictRange({ prefix: ["score"] })
+				tx.set(["total"], 0)
+
+				store.transact().set(["score", "chet"], 1).commit()
+				assert.throws(() => tx.commit())
+			})
+
+			it("addWriteConflictRange conflicts without writing", () => {
+				const store = createStorage(randomId())
+				store.commit({ set: [{ key: ["score", "chet"], value: 1 }] })
+
+				const tx = store.transact()
+				tx.scan({ prefix: ["score"] })
+				tx.set(["total"], 1)
+
+				store
+					.transact()
+					.addWriteConflictRange({ gte: ["score"], lt: ["score", "d"] })
+					.commit()
+				assert.throws(() => tx.commit())
+				assertEqual(store.scan(), [{ key: ["score", "chet"], value: 1 }])
+			})
+
+			it("serializes transactions on a lock key", () => {
+				const store = createStorage(randomId())
+				const lock = (tx: TupleRootTransactionApi) =>
+					tx
+						.addReadConflictRange({ prefix: ["lock"] })
+						.addWriteConflictRange({ prefix: ["lock"] })
+
+				const job1 = lock(store.transact()).set(["job", 1], true)
+				const job2 = lock(store.transact()).set(["job", 2], true)
+				job1.commit()
+				assert.throws(() => job2.commit())
+				lock(store.transact()).set(["job", 2], true).commit()
+
+				assertEqual(store.scan(), [
+					{ key: ["job", 1], value: true },
+					{ key: ["job", 2], value: true },
+				])
+			})
+
+			it("prefixes conflict ranges in a subspace", () => {
+				type Schema = { key: [string, number]; value: number }
+				const store = createStorage<Schema>(randomId())
+
+				const tx = store.transact()
+				tx.subspace(["a"]).addReadConflictRange({ gte: [1], lt: [2] })
+
+				store.transact().set(["b", 1], 1).commit()
+				store.transact().set(["a", 2], 2).commit()
+				tx.commit()
+
+				const tx2 = store.transact()
+				tx2.subspace(["a"]).addReadConflictRange({ gte: [1], lt: [2] })
+
+				const tx3 = store.transact()
+				tx3.subspace(["a"]).addWriteConflictRange({ prefix: [1] })
+				tx3.commit()
+				assert.throws(() => tx2.commit())
+			})
+		})
+
+		describe("savepoints", () => {
+			it("rollbackTo discards the writes since the savepoint", () => {
+				const store = createStorage(randomId())
+
+				const tx = store.transact()
+				tx.set(["a"], 1)
+				const savepoint = tx.savepoint()
+				tx.set(["b"], 2)
+				tx.remove(["a"])
+				tx.clear({ prefix: ["c"] })
+				tx.rollbackTo(savepoint)
+				assertEqual(tx.scan(), [{ key: ["a"], value: 1 }])
+
+				// The same savepoint can be rolled back to again.
+				tx.set(["b"], 2)
+				tx.rollbackTo(savepoint).set(["c"], 3)
+				tx.commit()
+				assertEqual(store.scan(), [
+					{ key: ["a"], value: 1 },
+					{ key: ["c"], value: 3 },
+				])
+			})
+
+			it("nested discards the writes and reads when it throws", () => {
+				const store = createStorage(randomId())
+				store.commit({ set: [{ key: ["score"], value: 0 }] })
+
+				const tx = store.transact()
+				assert.throws(() =>
+					tx.nested((tx) => {
+						const score = tx.get(["score"])!
+						tx.set(["total"], score + 1)
+						throw new Error("Oops")
+					})
+				)
+				tx.set(["other"], 1)
+
+				// Doesn't conflict because the read was rolled back.
+				store.transact().set(["score"], 1).commit()
+				tx.commit()
+				assertEqual(store.scan(), [
+					{ key: ["other"], value: 1 },
+					{ key: ["score"], value: 1 },
+				])
+			})
+
+			it("nested discards the hooks when it throws", () => {
+				const store = createStorage(randomId())
+				const events: string[] = []
+
+				const tx = store.transact()
+				tx.onAfterCommit(() => {
+					events.push("outer")
+				})
+				assert.throws(() =>
+					tx.nested((tx) => {
+						tx.onBeforeCommit(() => {
+							events.push("before")
+						})
+						tx.onAfterCommit(() => {
+							events.push("after")
+						})
+						tx.onCancel(() => {
+							events.push("cancel")
+						})
+						throw new Error("Oops")
+					})
+				)
+				tx.commit()
+				assertEqual(events, ["outer"])
+			})
+
+			it("nested keeps the writes and returns the result", () => {
+				type Schema = { key: ["a", number]; value: number }
+				const store = createStorage<Schema>(randomId())
+
+				const tx = store.transact()
+				const result = tx.subspace(["a"]).nested((tx) => {
+					tx.set([1], 1)
+					return "done"
+				})
+				assertEqual(result, "done")
+				tx.commit()
+				assertEqual(store.scan(), [{ key: ["a", 1], value: 1 }])
+			})
+		})
+
+		describe("commit hooks", () => {
+			it("runs the hooks around the commit", () => {
+				const store = createStorage(randomId())
+				const events: string[] = []
+
+				const tx = store.transact()
+				tx.set(["a"], 1)
+				tx.onBeforeCommit((tx) => {
+					events.push("before")
+					const a = tx.get(["a"])!
+					tx.set(["b"], a + 1)
+				})
+				tx.onAfterCommit(() => {
+					events.push("after")
+					assertEqual(store.get(["b"]), 2)
+				})
+				tx.onCancel(() => {
+					events.push("cancel")
+				})
+
+				tx.commit()
+				assertEqual(events, ["before", "after"])
+			})
+
+			it("cancels when a before commit hook throws", () => {
+				const store = createStorage(randomId())
+				const events: string[] = []
+
+				const tx = store.transact()
+				tx.set(["a"], 1)
+				tx.onBeforeCommit(() => {
+					throw new Error("Invalid")
+				})
+				tx.onAfterCommit(() => {
+					events.push("after")
+				})
+				tx.onCancel(() => {
+					events.push("cancel")
+				})
+
+				assert.throws(() => tx.commit())
+				assertEqual(events, ["cancel"])
+				assertEqual(store.scan(), [])
+			})
+
+			it("hooks on a subspace write within the subspace", () => {
+				type Schema = { key: ["a", number]; value: number }
+				const store = createStorage<Schema>(randomId())
+
+				const tx = store.transact()
+				tx.subspace(["a"]).onBeforeCommit((tx) => {
+					tx.set([1], 1)
+				})
+				tx.commit()
+				assertEqual(store.scan(), [{ key: ["a", 1], value: 1 }])
+			})
+
+			it("transactionalReadWrite only runs them for the attempt that commits", () => {
+				type Schema = { key: ["score"]; value: number }
+				const store = createStorage<Schema>(randomId())
+				store.commit({ set: [{ key: ["score"], value: 0 }] })
+
+				let attempts = 0
+				const committed: number[] = []
+				const conflicted: number[] = []
+				const incScore = transactionalReadWrite<Schema>()((tx) => {
+					const attempt = ++attempts
+					const score = tx.get(["score"])!
+					// Conflict the first time around.
+					if (attempt === 1) {
+						store.transact().set(["score"], 10).commit()
+					}
+					tx.set(["score"], score + 1)
+					tx.onAfterCommit(() => {
+						committed.push(attempt)
+					})
+					tx.onCancel(() => {
+						conflicted.push(attempt)
+					})
+				})
+
+				incScore(store)
+				assertEqual(committed, [2])
+				assertEqual(conflicted, [1])
+
+				const canceled: number[] = []
+				const fail = transactionalReadWrite<Schema>()((tx) => {
+					tx.onCancel(() => {
+						canceled.push(1)
+					})
+					throw new Error("Oops")
+				})
+				assert.throws(() => fail(store))
+				assertEqual(canceled, [1])
+			})
+		})
+
+		describe("transaction expiry", () => {
+			it("cleans up transactions that are never committed", () => {
+				const db = new TupleDatabase(new InMemoryTupleStorage(), {
+					maxTransactionAge: 0,
+				})
+				const store = new TupleDatabaseClient(db)
+
+				const tx = store.transact()
+				tx.addReadConflictRange({ prefix: ["a"] })
+				tx.set(["a"], 1)
+				assertEqual(db.log.log.length, 1)
+
+				store.commit({ set: [{ key: ["b"], value: 2 }] })
+				assertEqual(db.log.log, [])
+
+				assert.throws(() => tx.commit(), TransactionExpiredError)
+				assertEqual(store.scan(), [{ key: ["b"], value: 2 }])
+			})
+
+			it("rejects the commit once the expired transaction is forgotten", () => {
+				const db = new TupleDatabase(new InMemoryTupleStorage(), {
+					maxTransactionAge: 0,
+				})
+				const store = new TupleDatabaseClient(db)
+
+				const tx = store.transact()
+				tx.addReadConflictRange({ prefix: ["a"] })
+				tx.set(["a"], 1)
+				store.commit({ set: [{ key: ["a"], value: 2 }] })
+
+				// Only the 10,000 most recently expired transactions are remembered.
+				for (let i = 0; i < 10_000; i++) {
+					store.transact().addReadConflictRange({ prefix: ["b"] })
+				}
+				store.commit({ set: [{ key: ["b"], value: 3 }] })
+
+				assert.throws(() => tx.commit(), TransactionExpiredError)
+				assertEqual(store.get(["a"]), 2)
+			})
+
+			it("keeps nothing for a transaction that never reads", () => {
+				const db = new TupleDatabase(new InMemoryTupleStorage())
+				const store = new TupleDatabaseClient(db)
+
+				const tx = store.transact()
+				tx.set(["a"], 0)
+				for (let i = 0; i < 10; i++) {
+					store.commit({ set: [{ key: ["b", i], value: i }] })
+				}
+				assertEqual(db.log.log, [])
+				assert.equal(db.history.isPinned(), false)
+			})
+
+			it("can't read once the transaction has expired", () => {
+				const store = new TupleDatabaseClient(
+					new TupleDatabase(new InMemoryTupleStorage(), {
+						maxTransactionAge: 0,
+					})
+				)
+
+				const tx = store.transact()
+				assert.throws(() => tx.scan(), TransactionExpiredError)
+				tx.cancel()
+			})
+		})
+
+		describe("traceConflicts", () => {
+			it("records the conflicts on the database", () => {
+				const db = new TupleDatabase(new InMemoryTupleStorage(), {
+					traceConflicts: true,
+				})
+				const store = new TupleDatabaseClient(db)
+
+				const tx = store.transact()
+				tx.scan({ prefix: ["score"] })
+				store.transact().set(["score", "chet"], 1).commit()
+				assert.throws(() => tx.commit())
+
+				assertEqual(db.conflicts!.conflicts.length, 1)
+				assertEqual(db.conflicts!.hotWrites(), [
+					{ value: ["score", "chet"], count: 1 },
+				])
+				assertEqual(db.conflicts!.hotConflicts(), [
+					{
+						value: {
+							readBounds: db.conflicts!.conflicts[0].readBounds,
+							write: ["score", "chet"],
+						},
+						count: 1,
+					},
+				])
+			})
+		})
+
+		describe("retry policy", () => {
+			it("calls the hooks with the conflict and the attempts", () => {
+				type Schema = { key: ["score"]; value: number }
+				const store = createStorage<Schema>(randomId())
+				store.commit({ set: [{ key: ["score"], value: 0 }] })
+
+				const retries: RetryInfo[] = []
+				let attempts = 0
+				const incScore = transactionalReadWrite<Schema>({
+					initialDelay: 1,
+					onRetry: (info) => retries.push(info),
+					onSuccess: (n) => (attempts = n),
+				})((tx) => {
+					const score = tx.get(["score"])!
+					// Conflict the first time around.
+					if (retries.length === 0) {
+						store.transact().set(["score"], 10).commit()
+					}
+					tx.set(["score"], score + 1)
+				})
+
+				incScore(store)
+				assertEqual(store.get(["score"]), 11)
+				assertEqual(attempts, 2)
+				assertEqual(retries.length, 1)
+				assertEqual(retries[0].attempts, 1)
+
+				const { error } = retries[0]
+				assert.ok(error instanceof ReadWriteConflictError)
+				// The write is to the storage key which may be within a subspace.
+				assertEqual(_.last(error.write as Tuple), "score")
+			})
+
+			it("only retries retryable errors up to the max attempts", () => {
+				const store = createStorage(randomId())
+
+				let calls = 0
+				const fail = transactionalReadWrite({
+					maxAttempts: 3,
+					isRetryable: (error) =>
+						error instanceof Error && error.message === "retry",
+				})((tx, message: string) => {
+					calls += 1
+					throw new Error(message)
+				})
+
+				assert.throws(() => fail(store, "retry"))
+				assertEqual(calls, 3)
+
+				calls = 0
+				assert.throws(() => fail(store, "fail"))
+				assertEqual(calls, 1)
+			})
+		})
+
+		// New tests here...
+	})
+}
+
+function applyScanDiffs(result: KeyValuePair[], diffs: ScanDiff[]) {
+	result = [...result]
+	for (const diff of diffs) {
+		if (diff.type === "insert") result.splice(diff.index, 0, diff.pair)
+		else if (diff.type === "update") result.splice(diff.index, 1, diff.pair)
+		else result.splice(diff.index, 1)
+	}
+	return result
+}
+
+function collect<T>(iterable: Iterable<T>) {
+	const items: T[] = []
+	for (const item of iterable) items.push(item)
+	return items
 }
@@ -6,18 +6,40 @@ This file is generated from async/retryAsync.ts
 
 type Identity<T> = T
 
-import { ReadWriteConflictError } from "../../database/ConcurrencyLog"
+import {
+	getRetryDelay,
+	getRetryPolicy,
+	isConflictError,
+	RetryPolicy,
+	sleep,
+} from "../retryPolicy"
 
-export function retry<O>(retries: number, fn: () => Identity<O>) {
+const isSync = true
+
+export function retry<O>(retries: number | RetryPolicy, fn: () => Identity<O>) {
+	const policy = getRetryPolicy(retries)
+	const {
+		maxAttempts = 6,
+		isRetryable = isConflictError,
+		onRetry,
+		onSuccess,
+	} = policy
+
+	let attempts = 1
 	while (true) {
+		let result: O
 		try {
-			const result = fn()
-			return result
+			result = fn()
 		} catch (error) {
-			if (retries <= 0) throw error
-			const isConflict = error instanceof ReadWriteConflictError
-			if (!isConflict) throw error
-			retries -= 1
+			if (attempts >= maxAttempts || !isRetryable(error)) throw error
+			// Sync retries would block the process while waiting.
+			const delay = isSync ? 0 : getRetryDelay(policy, attempts)
+			onRetry?.({ attempts, error, delay })
+			if (delay > 0) sleep(delay)
+			attempts += 1
+			continue
 		}
+		onSuccess?.(attempts)
+		return result
 	}
 }
@@ -7,11 +7,15 @@ This file is generated from async/subscribeQueryAsync.ts
 type Identity<T> = T
 
 import { isEmptyWrites } from "../../helpers/isEmptyWrites"
+import { createObservable, Observable } from "../../helpers/observable"
 import { Queue } from "../../helpers/Queue"
 import { KeyValuePair } from "../../storage/types"
-import { TxId } from "../types"
+import { SubscribeQueryOptions, TxId } from "../types"
+import { retry } from "./retry"
 import { TupleDatabaseClient } from "./TupleDatabaseClient"
-import { TupleDatabaseClientApi } from "./types"
+import { TupleDatabaseClientApi, TupleRootTransactionApi } from "./types"
+
+const isSync = true
 
 const throwError = () => {
 	throw new Error()
@@ -20,12 +24,37 @@ const throwError = () => {
 export function subscribeQuery<S extends KeyValuePair, T>(
 	db: TupleDatabaseClientApi<S>,
 	fn: (db: TupleDatabaseClientApi<S>) => Identity<T>,
-	callback: (result: T) => void
+	callback: (result: T) => void,
+	options: SubscribeQueryOptions = {}
 ): Identity<{ result: T; destroy: () => void }> {
+	const { retries = 5, onError } = options
 	let destroyed = false
 	const listeners = new Set<any>()
 
-	const compute = () => fn(listenDb)
+	// Every compute reads from one snapshot so that it never sees some commits
+	// but not others. Committing the read transaction afterwards tells us when
+	// something we read has changed since, possibly before we were listening.
+	const compute = () =>
+		retry(retries, () => {
+			// Only listen to what this attempt reads.
+			resetListeners()
+			const tx = db.transact()
+			let result: T
+			try {
+				result = fn(createListenDb(tx))
+			} catch (error) {
+				tx.cancel()
+				throw error
+			}
+
+			// Nothing else can commit during a sync compute.
+			if (isSync) {
+				tx.cancel()
+				return result
+			}
+			tx.commit()
+			return result
+		})
 
 	const resetListeners = () => {
 		listeners.forEach((destroy) => destroy())
@@ -33,6 +62,7 @@ export function subscribeQuery<S extends KeyValuePair, T>(
 	}
 
 	let lastComputedTxId: string | undefined
+	let lastEmittedTxId: string | undefined
 
 	const recompute = (txId: TxId) => {
 		if (destroyed) return
@@ -41,46 +71,94 @@ export function subscribeQuery<S extends KeyValuePair, T>(
 
 		// Recompute.
 		lastComputedTxId = txId
-		resetListeners()
-		const result = compute()
+		let result: T
+		try {
+			result = compute()
+		} catch (error) {
+			if (destroyed) return
+			// Keep listening to what the last attempt read so we try again later.
+			if (!onError) throw error
+			onError(error)
+			return
+		}
+		if (destroyed) return
+		// A newer commit came in while computing and will recompute after this, so
+		// we skip this result rather than calling back with every commit in between.
+		if (txId !== lastEmittedTxId) return
 		callback(result)
 	}
 
 	const recomputeQueue = new Queue()
 
-	// Subscribe for every scan that gets called.
-	const listenDb = new TupleDatabaseClient<S>({
-		scan: (args: any, txId) => {
-			// if (txId)
-			// 	// Maybe one day we can transactionally subscribe to a bunch of things. But
-			// 	// for now, lets just avoid that...
-			// 	throw new Error("Not allowed to subscribe transactionally.")
-
-			const destroy = db.subscribe(args, (_writes, txId) =>
-				recomputeQueue.enqueue(() => recompute(txId))
-			)
-			listeners.add(destroy)
-
-			const results = db.scan(args)
-			return results
-		},
-		cancel: (txId) => {
-			db.cancel(txId)
-		},
-		commit: (writes, txId) => {
-			if (!isEmptyWrites(writes))
-				throw new Error("No writing in a subscribeQuery.")
-			// Commit to resolve conflicts with transactional reads.
-			db.commit({}, txId)
-		},
-		subscribe: throwError,
-		close: throwError,
-	})
+	const listen = (args: any) => {
+		const destroy = db.subscribe(args, (_writes, txId) => {
+			lastEmittedTxId = txId
+			return recomputeQueue.enqueue(() => recompute(txId))
+		})
+		listeners.add(destroy)
+	}
+
+	// Subscribe for every scan that gets called and read from the snapshot.
+	const createListenDb = (tx: TupleRootTransactionApi<S>) =>
+		new TupleDatabaseClient<S>({
+			// Reads always come from the compute's snapshot so there is nothing to pin.
+			begin: () => 0,
+			scan: (args: any, txId) => {
+				listen(args)
+				const results = tx.scan(args)
+				return results
+			},
+			iterate: function* (args: any, txId) {
+				listen(args)
+				yield* tx.iterate(args)
+			},
+			cancel: (txId) => {},
+			commit: (writes, txId) => {
+				if (!isEmptyWrites(writes))
+					throw new Error("No writing in a subscribeQuery.")
+			},
+			subscribe: throwError,
+			close: throwError,
+		})
 
-	const result = compute()
 	const destroy = () => {
 		resetListeners()
 		destroyed = true
 	}
+	let result: T
+	try {
+		result = recomputeQueue.enqueue(() => compute()) as T
+	} catch (error) {
+		destroy()
+		throw error
+	}
 	return { result, destroy }
 }
+
+/**
+ * Emits the result of the query and then every time it changes. Errors once the
+ * query fails to run again.
+ */
+export function observeQuery<S extends KeyValuePair, T>(
+	db: TupleDatabaseClientApi<S>,
+	fn: (db: TupleDatabaseClientApi<S>) => Identity<T>,
+	options: Omit<SubscribeQueryOptions, "onError"> = {}
+): Observable<T> {
+	return createObservable<T>((next, error) => {
+		// Hold onto any change that comes in before the first result.
+		let initialized = false
+		const pending: T[] = []
+		const { result, destroy } = subscribeQuery(
+			db,
+			fn,
+			(result) => {
+				if (initialized) next(result)
+				else pending.push(result)
+			},
+			{ ...options, onError: error }
+		)
+		initialized = true
+		for (const value of [result, ...pending]) next(value)
+		return destroy
+	})
+}
@@ -0,0 +1,167 @@
+/*
+
+This file is generated from async/subscribeScanAsync.ts
+
+*/
+
+type Identity<T> = T
+
+import { isEqual } from "lodash"
+import { generalizedBinarySearch } from "../../helpers/binarySearch"
+import { compareTuple } from "../../helpers/compareTuple"
+import { Queue } from "../../helpers/Queue"
+import { isTupleWithinBounds } from "../../helpers/sortedTupleArray"
+import { KeyValuePair, Tuple, WriteOps } from "../../storage/types"
+import { FilterTupleValuePairByPrefix, TuplePrefix } from "../typeHelpers"
+import { ScanArgs, ScanDiff } from "../types"
+import { TupleDatabaseClientApi } from "./types"
+
+/**
+ * Keeps the result of a single scan up to date by applying each write to it
+ * rather than scanning again, and calls back with the diffs. With a limit, we
+ * only scan again when a removal shifts later results into the window.
+ */
+export function subscribeScan<
+	S extends KeyValuePair,
+	T extends S["key"],
+	P extends TuplePrefix<T>
+>(
+	db: TupleDatabaseClientApi<S>,
+	args: ScanArgs<T, P>,
+	callback: (
+		diffs: ScanDiff<FilterTupleValuePairByPrefix<S, P>>[],
+		result: FilterTupleValuePairByPrefix<S, P>[]
+	) => void
+): Identity<{
+	result: FilterTupleValuePairByPrefix<S, P>[]
+	destroy: () => void
+}> {
+	type Pair = FilterTupleValuePairByPrefix<S, P>
+
+	const { limit, reverse } = args
+	const compareKeys = (a: Tuple, b: Tuple) =>
+		reverse ? compareTuple(b, a) : compareTuple(a, b)
+	const search = generalizedBinarySearch(
+		(pair: KeyValuePair) => pair.key,
+		compareKeys
+	)
+
+	let destroyed = false
+	let scanned = false
+	let result: Pair[] = []
+	// There may be more results after the window when it's full.
+	let truncated = false
+
+	const scan = () => {
+		result = db.scan(args)
+		truncated = limit !== undefined && result.length >= limit
+	}
+
+	const update = (writes: WriteOps<Pair>) => {
+		// The first scan already includes anything written before it.
+		if (destroyed || !scanned) return
+		// Copy so that the results we've already called back with don't change.
+		result = [...result]
+		const diffs: ScanDiff<Pair>[] = []
+		let shifted = false
+
+		const removeAt = (index: number) => {
+			result.splice(index, 1)
+			diffs.push({ type: "remove", index })
+			if (truncated) shifted = true
+		}
+
+		for (const bounds of writes.clear || []) {
+			for (let i = result.length - 1; i >= 0; i--) {
+				if (isTupleWithinBounds(result[i].key, bounds)) removeAt(i)
+			}
+		}
+
+		for (const tuple of writes.remove || []) {
+			const { found } = search(result, tuple)
+			if (found !== undefined) removeAt(found)
+		}
+
+		for (const pair of writes.set || []) {
+			const { found, closest } = search(result, pair.key)
+			if (found !== undefined) {
+				if (isEqual(result[found].value, pair.value)) continue
+				result[found] = pair
+				diffs.push({ type: "update", index: found, pair })
+				continue
+			}
+
+			// Anything after a full window is outside of it.
+			if (truncated && closest === result.length) continue
+			result.splice(closest, 0, pair)
+			diffs.push({ type: "insert", index: closest, pair })
+
+			if (limit !== undefined && result.length > limit) {
+				const index = result.length - 1
+				result.pop()
+				diffs.push({ type: "remove", index })
+				truncated = true
+			}
+		}
+
+		if (shifted) {
+			const prev = result
+			scan()
+			diffs.push(...getScanDiffs(prev, result, compareKeys))
+		}
+
+		if (diffs.length === 0) return
+		callback(diffs, result)
+	}
+
+	// Apply the writes in the order they were committed. Subscribe before the
+	// first scan so that we don't miss any writes in between.
+	const updateQueue = new Queue()
+	const unsubscribe = db.subscribe(args, (writes) =>
+		updateQueue.enqueue(() => update(writes))
+	)
+	updateQueue.enqueue(() => {
+		scan()
+		scanned = true
+	})
+
+	const destroy = () => {
+		unsubscribe()
+		destroyed = true
+	}
+	return { result, destroy }
+}
+
+/** The diffs to turn one sorted result into another. */
+function getScanDiffs<T extends KeyValuePair>(
+	prev: T[],
+	next: T[],
+	compareKeys: (a: Tuple, b: Tuple) => number
+) {
+	const diffs: ScanDiff<T>[] = []
+	let i = 0
+	let j = 0
+	while (i < prev.length || j < next.length) {
+		const dir =
+			i >= prev.length
+				? 1
+				: j >= next.length
+				? -1
+				: compareKeys(prev[i].key, next[j].key)
+		if (dir === 0) {
+			if (!isEqual(prev[i].value, next[j].value)) {
+				diffs.push({ type: "update", index: j, pair: next[j] })
+			}
+			i++
+			j++
+		} else if (dir < 0) {
+			// Everything before j has been updated, so prev[i] is at j.
+			diffs.push({ type: "remove", index: j })
+			i++
+		} else {
+			diffs.push({ type: "insert", index: j, pair: next[j] })
+			j++
+		}
+	}
+	return diffs
+}
@@ -7,6 +7,7 @@ This file is generated from async/transactionalReadWriteAsync.ts
 type Identity<T> = T
 
 import { KeyValuePair } from "../../main"
+import { RetryPolicy } from "../retryPolicy"
 import { retry } from "./retry"
 import { TupleDatabaseClientApi, TupleTransactionApi } from "./types"
 
@@ -17,7 +18,7 @@ import { TupleDatabaseClientApi, TupleTransactionApi } from "./types"
 // we can partially infer generic type parameters.
 // https://stackoverflow.com/questions/60377365/typescript-infer-type-of-generic-after-optional-first-generic
 export function transactionalReadWrite<S extends KeyValuePair = KeyValuePair>(
-	retries = 5
+	retries: number | RetryPolicy = 5
 ) {
 	return function <I extends any[], O>(
 		fn: (tx: TupleTransactionApi<S>, ...args: I) => Identity<O>
@@ -29,7 +30,15 @@ export function transactionalReadWrite<S extends KeyValuePair = KeyValuePair>(
 			if ("set" in dbOrTx) return fn(dbOrTx, ...args)
 			return retry(retries, () => {
 				const tx = dbOrTx.transact()
-				const result = fn(tx, ...args)
+				let result: O
+				try {
+					result = fn(tx, ...args)
+				} catch (error) {
+					// So that the onCancel hooks of this attempt run.
+					tx.cancel()
+					throw error
+				}
+				// The onAfterCommit hooks only run if this attempt doesn't conflict.
 				tx.commit()
 				return result
 			})
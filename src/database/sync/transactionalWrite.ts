@@ -0,0 +1,47 @@
+/*
+
+This file is generated from async/transactionalWriteAsync.ts
+
+*/
+
+type Identity<T> = T
+
+import { KeyValuePair } from "../../storage/types"
+import { RetryPolicy } from "../retryPolicy"
+import { TransactionWriteApi } from "../types"
+import { retry } from "./retry"
+import { TupleDatabaseClientApi, TupleTransactionApi } from "./types"
+
+/**
+ * Similar to transactionalReadWrite but only allows writes.
+ */
+export function transactionalWrite<S extends KeyValuePair = KeyValuePair>(
+	retries: number | RetryPolicy = 5
+) {
+	return function <I extends any[], O>(
+		fn: (tx: TransactionWriteApi<S>, ...args: I) => O
+	) {
+		return function (
+			dbOrTx:
+				| TupleDatabaseClientApi<S>
+				| TupleTransactionApi<S>
+				| TransactionWriteApi<S>,
+			...args: I
+		): Identity<O> {
+			if ("set" in dbOrTx) return fn(dbOrTx, ...args)
+			return retry(retries, () => {
+				const tx = dbOrTx.transact()
+				let result: O
+				try {
+					result = fn(tx, ...args)
+				} catch (error) {
+					// So that the onCancel hooks of this attempt run.
+					tx.cancel()
+					throw error
+				}
+				tx.commit()
+				return result
+			})
+		}
+	}
+}
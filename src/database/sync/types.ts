@@ -6,30 +6,66 @@ This file is generated from async/asyncTypes.ts
 
 type Identity<T> = T
 
-import { KeyValuePair, ScanStorageArgs, WriteOps } from "../../storage/types"
+import { Observable, Watcher } from "../../helpers/observable"
+import {
+	AtomicOp,
+	KeyValuePair,
+	ScanStorageArgs,
+	WriteOps,
+} from "../../storage/types"
 import {
 	FilterTupleValuePairByPrefix,
 	RemoveTupleValuePairPrefix,
 	TuplePrefix,
 	ValueForTuple,
 } from "../typeHelpers"
-import { ScanArgs, TxId, Unsubscribe } from "../types"
+import {
+	Change,
+	ChangeBatch,
+	ClearArgs,
+	ConflictRanges,
+	Savepoint,
+	ScanArgs,
+	SubscribeOptions,
+	TxId,
+	Unsubscribe,
+	WatchOptions,
+} from "../types"
 
 /** The low-level API for implementing new storage layers. */
 export type TupleStorageApi = {
 	scan: (args?: ScanStorageArgs) => Identity<KeyValuePair[]>
+	/** Optional. Otherwise, we iterate by scanning in batches. */
+	iterate?: (args?: ScanStorageArgs) => Iterable<KeyValuePair>
 	commit: (writes: WriteOps) => Identity<void>
 	close: () => Identity<void>
 }
 
 /** Wraps TupleStorageApi with reactivity and MVCC */
 export type TupleDatabaseApi = {
-	scan: (args?: ScanStorageArgs, txId?: TxId) => Identity<KeyValuePair[]>
-	commit: (writes: WriteOps, txId?: TxId) => Identity<void>
+	/** Pin the current version so the transaction reads from a snapshot. */
+	begin: (txId: TxId) => number
+	/** Snapshot reads use the transaction's version without conflicting. */
+	scan: (
+		args?: ScanStorageArgs,
+		txId?: TxId,
+		snapshot?: boolean
+	) => Identity<KeyValuePair[]>
+	iterate: (
+		args?: ScanStorageArgs,
+		txId?: TxId,
+		snapshot?: boolean
+	) => Iterable<KeyValuePair>
+	commit: (
+		writes: WriteOps,
+		txId?: TxId,
+		conflicts?: ConflictRanges
+	) => Identity<void>
 	cancel: (txId: string) => Identity<void>
 	subscribe: (
 		args: ScanStorageArgs,
-		callback: Callback
+		callback: Callback,
+		options?: SubscribeOptions
 	) => Identity<Unsubscribe>
 	close: () => Identity<void>
 }
@@ -43,10 +79,24 @@ export type TupleDatabaseClientApi<S extends KeyValuePair = KeyValuePair> = {
 		args?: ScanArgs<T, P>,
 		txId?: TxId
 	) => Identity<FilterTupleValuePairByPrefix<S, P>[]>
+	iterate: <T extends S["key"], P extends TuplePrefix<T>>(
+		args?: ScanArgs<T, P>,
+		txId?: TxId
+	) => Iterable<FilterTupleValuePairByPrefix<S, P>>
 	subscribe: <T extends S["key"], P extends TuplePrefix<T>>(
 		args: ScanArgs<T, P>,
-		callback: Callback<FilterTupleValuePairByPrefix<S, P>>
+		callback: Callback<FilterTupleValuePairByPrefix<S, P>>,
+		options?: SubscribeOptions
 	) => Identity<Unsubscribe>
+	/** Iterate over the batches of writes to a range as they're committed. */
+	watch: <T extends S["key"], P extends TuplePrefix<T>>(
+		args: ScanArgs<T, P>,
+		options?: WatchOptions
+	) => Watcher<ChangeBatch<FilterTupleValuePairByPrefix<S, P>>>
+	observe: <T extends S["key"], P extends TuplePrefix<T>>(
+		args: ScanArgs<T, P>,
+		options?: SubscribeOptions
+	) => Observable<ChangeBatch<FilterTupleValuePairByPrefix<S, P>>>
 	close: () => Identity<void>
 
 	// ReadApis
@@ -72,10 +122,14 @@ export type TupleRootTransactionApi<S extends KeyValuePair = KeyValuePair> = {
 	scan: <T extends S["key"], P extends TuplePrefix<T>>(
 		args?: ScanArgs<T, P>
 	) => Identity<FilterTupleValuePairByPrefix<S, P>[]>
+	iterate: <T extends S["key"], P extends TuplePrefix<T>>(
+		args?: ScanArgs<T, P>
+	) => Iterable<FilterTupleValuePairByPrefix<S, P>>
 	get: <T extends S["key"]>(
 		tuple: T
 	) => Identity<ValueForTuple<S, T> | undefined>
 	exists: <T extends S["key"]>(tuple: T) => Identity<boolean>
+	snapshot: TupleSnapshotApi<S>
 
 	// Subspace
 	// Demotes to a non-root transaction so you cannot commit, cancel, or inspect
@@ -85,12 +139,42 @@ export type TupleRootTransactionApi<S extends KeyValuePair = KeyValuePair> = {
 	) => TupleTransactionApi<RemoveTupleValuePairPrefix<S, P>>
 
 	// WriteApis
-	set: <T extends S>(
-		tuple: T["key"],
-		value: T["value"]
+	set: <Key extends S["key"]>(
+		tuple: Key,
+		value: ValueForTuple<S, Key>
 	) => TupleRootTransactionApi<S>
 	remove: (tuple: S["key"]) => TupleRootTransactionApi<S>
+	clear: <T extends S["key"], P extends TuplePrefix<T>>(
+		args?: ClearArgs<T, P>
+	) => TupleRootTransactionApi<S>
+	atomic: <Key extends S["key"]>(
+		op: AtomicOp,
+		tuple: Key,
+		value: ValueForTuple<S, Key>
+	) => TupleRootTransactionApi<S>
 	write: (writes: WriteOps<S>) => TupleRootTransactionApi<S>
+	addReadConflictRange: <T extends S["key"], P extends TuplePrefix<T>>(
+		args?: ClearArgs<T, P>
+	) => TupleRootTransactionApi<S>
+	addWriteConflictRange: <T extends S["key"], P extends TuplePrefix<T>>(
+		args?: ClearArgs<T, P>
+	) => TupleRootTransactionApi<S>
+
+	// Hooks
+	/** Runs before committing. It can add writes, or throw to cancel instead. */
+	onBeforeCommit: (
+		fn: (tx: TupleRootTransactionApi<S>) => Identity<void> | void
+	) => TupleRootTransactionApi<S>
+	onAfterCommit: (fn: () => Identity<void> | void) => TupleRootTransactionApi<S>
+	onCancel: (fn: () => Identity<void> | void) => TupleRootTransactionApi<S>
+
+	// Savepoints
+	savepoint: () => Savepoint
+	rollbackTo: (savepoint: Savepoint) => TupleRootTransactionApi<S>
+	/** Roll back everything that the function did when it throws. */
+	nested: <O>(
+		fn: (tx: TupleRootTransactionApi<S>) => Identity<O>
+	) => Identity<O>
 
 	// RootTransactionApis
 	commit: () => Identity<void>
@@ -105,10 +189,14 @@ export type TupleTransactionApi<S extends KeyValuePair = KeyValuePair> = {
 	scan: <T extends S["key"], P extends TuplePrefix<T>>(
 		args?: ScanArgs<T, P>
 	) => Identity<FilterTupleValuePairByPrefix<S, P>[]>
+	iterate: <T extends S["key"], P extends TuplePrefix<T>>(
+		args?: ScanArgs<T, P>
+	) => Iterable<FilterTupleValuePairByPrefix<S, P>>
 	get: <T extends S["key"]>(
 		tuple: T
 	) => Identity<ValueForTuple<S, T> | undefined>
 	exists: <T extends S["key"]>(tuple: T) => Identity<boolean>
+	snapshot: TupleSnapshotApi<S>
 
 	// Subspace
 	subspace: <P extends TuplePrefix<S["key"]>>(
@@ -121,7 +209,52 @@ export type TupleTransactionApi<S extends KeyValuePair = KeyValuePair> = {
 		value: ValueForTuple<S, Key>
 	) => TupleTransactionApi<S>
 	remove: (tuple: S["key"]) => TupleTransactionApi<S>
+	clear: <T extends S["key"], P extends TuplePrefix<T>>(
+		args?: ClearArgs<T, P>
+	) => TupleTransactionApi<S>
+	atomic: <Key extends S["key"]>(
+		op: AtomicOp,
+		tuple: Key,
+		value: ValueForTuple<S, Key>
+	) => TupleTransactionApi<S>
 	write: (writes: WriteOps<S>) => TupleTransactionApi<S>
+	addReadConflictRange: <T extends S["key"], P extends TuplePrefix<T>>(
+		args?: ClearArgs<T, P>
+	) => TupleTransactionApi<S>
+	addWriteConflictRange: <T extends S["key"], P extends TuplePrefix<T>>(
+		args?: ClearArgs<T, P>
+	) => TupleTransactionApi<S>
+
+	// Hooks
+	/** Runs before committing. It can add writes, or throw to cancel instead. */
+	onBeforeCommit: (
+		fn: (tx: TupleTransactionApi<S>) => Identity<void> | void
+	) => TupleTransactionApi<S>
+	onAfterCommit: (fn: () => Identity<void> | void) => TupleTransactionApi<S>
+	onCancel: (fn: () => Identity<void> | void) => TupleTransactionApi<S>
+
+	// Savepoints
+	savepoint: () => Savepoint
+	rollbackTo: (savepoint: Savepoint) => TupleTransactionApi<S>
+	/** Roll back everything that the function did when it throws. */
+	nested: <O>(fn: (tx: TupleTransactionApi<S>) => Identity<O>) => Identity<O>
+}
+
+/**
+ * Reads through a transaction that include its pending writes but don't
+ * conflict with writes from other transactions.
+ */
+export type TupleSnapshotApi<S extends KeyValuePair = KeyValuePair> = {
+	scan: <T extends S["key"], P extends TuplePrefix<T>>(
+		args?: ScanArgs<T, P>
+	) => Identity<FilterTupleValuePairByPrefix<S, P>[]>
+	iterate: <T extends S["key"], P extends TuplePrefix<T>>(
+		args?: ScanArgs<T, P>
+	) => Iterable<FilterTupleValuePairByPrefix<S, P>>
+	get: <T extends S["key"]>(
+		tuple: T
+	) => Identity<ValueForTuple<S, T> | undefined>
+	exists: <T extends S["key"]>(tuple: T) => Identity<boolean>
 }
 
 /** Useful for indicating that a function does not commit any writes. */
@@ -132,6 +265,10 @@ export type ReadOnlyTupleDatabaseClientApi<
 		args?: ScanArgs<T, P>,
 		txId?: TxId
 	) => Identity<FilterTupleValuePairByPrefix<S, P>[]>
+	iterate: <T extends S["key"], P extends TuplePrefix<T>>(
+		args?: ScanArgs<T, P>,
+		txId?: TxId
+	) => Iterable<FilterTupleValuePairByPrefix<S, P>>
 	get: <T extends S["key"]>(
 		tuple: T,
 		txId?: TxId
@@ -144,7 +281,9 @@ export type ReadOnlyTupleDatabaseClientApi<
 	// subscribe?
 }
 
+/** Changes are only given when subscribing with `{changes: true}`. */
 export type Callback<S extends KeyValuePair = KeyValuePair> = (
 	writes: WriteOps<S>,
-	txId: TxId
+	txId: TxId,
+	changes?: Change<S>[]
 ) => void | Identity<void>
@@ -1,38 +1,38 @@
-import { KeyValuePair, WriteOps } from "../storage/types"
+import { KeyValuePair } from "../storage/types"
 import {
 	AsyncTupleDatabaseClientApi,
 	AsyncTupleTransactionApi,
 } from "./async/asyncTypes"
-import { retry } from "./sync/retry"
+import { transactionalWriteAsync } from "./async/transactionalWriteAsync"
+import { RetryPolicy } from "./retryPolicy"
+import { transactionalWrite as transactionalWriteSync } from "./sync/transactionalWrite"
+import { TupleDatabaseClient } from "./sync/TupleDatabaseClient"
 import { TupleDatabaseClientApi, TupleTransactionApi } from "./sync/types"
-import {
-	RemoveTupleValuePairPrefix,
-	TuplePrefix,
-	ValueForTuple,
-} from "./typeHelpers"
-
-export type TransactionWriteApi<S extends KeyValuePair> = {
-	set: <T extends S["key"]>(
-		tuple: T,
-		value: ValueForTuple<S, T>
-	) => TransactionWriteApi<S>
-	remove: (tuple: S["key"]) => TransactionWriteApi<S>
-	write: (writes: WriteOps<S>) => TransactionWriteApi<S>
-	subspace: <P extends TuplePrefix<S["key"]>>(
-		prefix: P
-	) => TransactionWriteApi<RemoveTupleValuePairPrefix<S, P>>
-}
+import { TransactionWriteApi } from "./types"
 
 /**
  * Similar to transactionalReadWrite and transactionalReadWriteAsync but only allows writes.
+ * Async clients are committed with transactionalWriteAsync, so this returns a Promise for them.
  */
 export function transactionalWrite<S extends KeyValuePair = KeyValuePair>(
-	retries = 5
+	retries: number | RetryPolicy = 5
 ) {
 	return function <I extends any[], O>(
 		fn: (tx: TransactionWriteApi<S>, ...args: I) => O
 	) {
-		return function (
+		function write(
+			dbOrTx: AsyncTupleDatabaseClientApi<S>,
+			...args: I
+		): Promise<O>
+		function write(
+			dbOrTx:
+				| AsyncTupleTransactionApi<S>
+				| TupleDatabaseClientApi<S>
+				| TupleTransactionApi<S>
+				| TransactionWriteApi<S>,
+			...args: I
+		): O
+		function write(
 			dbOrTx:
 				| AsyncTupleDatabaseClientApi<S>
 				| AsyncTupleTransactionApi<S>
@@ -40,14 +40,20 @@ export function transactionalWrite<S extends KeyValuePair = KeyValuePair>(
 				| TupleTransactionApi<S>
 				| TransactionWriteApi<S>,
 			...args: I
-		): O {
+		): O | Promise<O> {
+			// Transactions are written to and left for the caller to commit.
 			if ("set" in dbOrTx) return fn(dbOrTx, ...args)
-			return retry(retries, () => {
-				const tx = dbOrTx.transact()
-				const result = fn(tx, ...args)
-				tx.commit()
-				return result
-			})
+			if (dbOrTx instanceof TupleDatabaseClient) {
+				return transactionalWriteSync<S>(retries)(fn)(
+					dbOrTx as TupleDatabaseClientApi<S>,
+					...args
+				)
+			}
+			return transactionalWriteAsync<S>(retries)(fn)(
+				dbOrTx as AsyncTupleDatabaseClientApi<S>,
+				...args
+			)
 		}
+		return write
 	}
 }
@@ -1,5 +1,19 @@
-import { MAX, MIN, Tuple } from "../storage/types"
-import { RemoveTuplePrefix, TuplePrefix } from "./typeHelpers"
+import { Bounds } from "../helpers/sortedTupleArray"
+import {
+	AtomicOp,
+	KeyValuePair,
+	MAX,
+	MIN,
+	Tuple,
+	WriteOps,
+} from "../storage/types"
+import { RetryPolicy } from "./retryPolicy"
+import {
+	RemoveTuplePrefix,
+	RemoveTupleValuePairPrefix,
+	TuplePrefix,
+	ValueForTuple,
+} from "./typeHelpers"
 
 export type ScanArgs<
 	T extends Tuple,
@@ -16,10 +30,131 @@ export type PrefixScanArgs<T extends Tuple, P extends TuplePrefix<T>> = {
 	reverse?: boolean
 }
 
+/** The range that a transaction's clear removes or a conflict range covers. */
+export type ClearArgs<T extends Tuple, P extends TuplePrefix<T>> = Omit<
+	ScanArgs<T, P>,
+	"limit" | "reverse"
+>
+
+/** Ranges that a transaction conflicts on without actually reading or writing. */
+export type ConflictRanges = {
+	read: Bounds[]
+	write: Bounds[]
+	/** The version that the transaction read from, if it has read. */
+	readVersion?: number
+}
+
+/** Functions to run around committing or canceling a transaction. */
+export type TransactionHooks<T> = {
+	beforeCommit: ((tx: T) => Promise<void> | void)[]
+	afterCommit: (() => Promise<void> | void)[]
+	cancel: (() => Promise<void> | void)[]
+}
+
+/** A transaction's pending writes, conflict ranges and hooks at some point in time. */
+export type Savepoint = {
+	writes: Required<WriteOps>
+	conflicts: ConflictRanges
+	hooks: TransactionHooks<any>
+}
+
 type AllowMinMax<T extends Tuple> = {
 	[K in keyof T]: T[K] | typeof MIN | typeof MAX
 }
 
 export type TxId = string
 
+export type TupleDatabaseOptions = {
+	/**
+	 * Milliseconds after which a transaction that hasn't been committed or
+	 * canceled is cleaned up. Committing it afterwards throws a
+	 * TransactionExpiredError. Transactions never expire by default, so one that
+	 * has read and is left open keeps the history of every commit after it.
+	 */
+	maxTransactionAge?: number
+	/**
+	 * Keep a history of the most recent conflicts in `db.conflicts` to find out
+	 * which key ranges conflict the most.
+	 */
+	traceConflicts?: boolean
+}
+
 export type Unsubscribe = () => void
+
+export type SubscribeOptions = {
+	/**
+	 * Also call back with how every key within the bounds changed, including
+	 * the value that it had before the commit.
+	 */
+	changes?: boolean
+}
+
+export type SubscribeQueryOptions = {
+	/**
+	 * How many times to run the query again when something it read changes
+	 * before it finishes. Defaults to 5.
+	 */
+	retries?: number | RetryPolicy
+	/**
+	 * Called when running the query again after a commit fails, such as when it
+	 * runs out of retries. The query still runs again on the next relevant
+	 * commit. Without it, the error is logged.
+	 */
+	onError?: (error: unknown) => void
+}
+
+export type WatchOptions = SubscribeOptions & {
+	/**
+	 * How many batches to hold until they're iterated. Commits wait for the
+	 * iterator to catch up once the buffer is full. Defaults to 100.
+	 */
+	bufferSize?: number
+}
+
+/** The arguments to a subscribe callback, for watch and observe. */
+export type ChangeBatch<S extends KeyValuePair = KeyValuePair> = {
+	writes: WriteOps<S>
+	txId: TxId
+	/** Only when subscribing with `{changes: true}`. */
+	changes?: Change<S>[]
+}
+
+/**
+ * A key that was written by a commit. `before` is undefined when the key was
+ * inserted and `after` is undefined when it was removed.
+ */
+export type Change<S extends KeyValuePair = KeyValuePair> = {
+	key: S["key"]
+	before: S["value"] | undefined
+	after: S["value"] | undefined
+}
+
+/**
+ * One step in updating the result of a scan. Each index is into the result
+ * after the steps before it, the same as calling Array#splice in order.
+ */
+export type ScanDiff<S extends KeyValuePair = KeyValuePair> =
+	| { type: "insert"; index: number; pair: S }
+	| { type: "update"; index: number; pair: S }
+	| { type: "remove"; index: number }
+
+/** The write half of a transaction, for transactionalWrite. */
+export type TransactionWriteApi<S extends KeyValuePair> = {
+	set: <T extends S["key"]>(
+		tuple: T,
+		value: ValueForTuple<S, T>
+	) => TransactionWriteApi<S>
+	remove: (tuple: S["key"]) => TransactionWriteApi<S>
+	clear: <T extends S["key"], P extends TuplePrefix<T>>(
+		args?: ClearArgs<T, P>
+	) => TransactionWriteApi<S>
+	atomic: <T extends S["key"]>(
+		op: AtomicOp,
+		tuple: T,
+		value: ValueForTuple<S, T>
+	) => TransactionWriteApi<S>
+	write: (writes: WriteOps<S>) => TransactionWriteApi<S>
+	subspace: <P extends TuplePrefix<S["key"]>>(
+		prefix: P
+	) => TransactionWriteApi<RemoveTupleValuePairPrefix<S, P>>
+}
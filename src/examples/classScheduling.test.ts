@@ -107,8 +107,8 @@ const drop = transactionalReadWrite<SchoolSchema>()(
 
 		if (!attends.exists([student, className])) return // Not taking this class.
 
-		const remainingSeats = course.get([className])!
-		course.set([className], remainingSeats + 1)
+		// Doesn't read the seat count so concurrent drops won't conflict.
+		course.atomic("add", [className], 1)
 		attends.remove([student, className])
 	}
 )
@@ -202,6 +202,7 @@ describe("Class Scheduling Example", () => {
 		assert.equal(getClasses(db, student1).length, 1)
 		drop(db, student1, class1)
 		assert.equal(getClasses(db, student1).length, 0)
+		assert.equal(db.subspace(["class"]).get([class1]), 4)
 	})
 
 	it("drop - not taking this class", () => {
@@ -3,6 +3,7 @@ import { describe, it } from "mocha"
 import { transactionalReadWrite } from "../database/sync/transactionalReadWrite"
 import { TupleDatabase } from "../database/sync/TupleDatabase"
 import { TupleDatabaseClient } from "../database/sync/TupleDatabaseClient"
+import { desc, Descending } from "../helpers/descending"
 import { namedTupleToObject } from "../helpers/namedTupleToObject"
 import { ReadOnlyTupleDatabaseClientApi } from "../main"
 import { InMemoryTupleStorage } from "../storage/InMemoryTupleStorage"
@@ -40,7 +41,8 @@ type Schema =
 			key: [
 				"feed",
 				{ username: string },
-				{ timestamp: number },
+				// Newest posts first.
+				{ timestamp: Descending<number> },
 				{ postId: string }
 			]
 			value: null
@@ -57,7 +59,15 @@ const addFollow = transactionalReadWrite<Schema>()(
 			.map(({ key }) => namedTupleToObject(key))
 			.forEach(({ timestamp, postId }) => {
 				// Write those posts to the user's feed.
-				tx.set(["feed", { username: from }, { timestamp }, { postId }], null)
+				tx.set(
+					[
+						"feed",
+						{ username: from },
+						{ timestamp: desc(timestamp) },
+						{ postId },
+					],
+					null
+				)
 			})
 	}
 )
@@ -77,7 +87,15 @@ const createPost = transactionalReadWrite<Schema>()((tx, post: Post) => {
 
 	// Write to their feed.
 	followers.forEach((username) => {
-		tx.set(["feed", { username }, { timestamp }, { postId: post.id }], null)
+		tx.set(
+			[
+				"feed",
+				{ username },
+				{ timestamp: desc(timestamp) },
+				{ postId: post.id },
+			],
+			null
+		)
 	})
 })
 
@@ -148,6 +166,6 @@ describe("Social App", () => {
 		})
 
 		assert.deepEqual(getProfile(db, "chet"), ["post1", "post3"])
-		assert.deepEqual(getFeed(db, "meghan"), ["post1", "post3"])
+		assert.deepEqual(getFeed(db, "meghan"), ["post3", "post1"])
 	})
 })
@@ -0,0 +1,135 @@
+import { strict as assert } from "assert"
+import * as _ from "lodash"
+import { describe, it } from "mocha"
+import { BTree, BTreeScanArgs } from "./BTree"
+import { compare } from "./compare"
+import * as sortedList from "./sortedList"
+
+function entries(list: number[]) {
+	return list.map((key) => ({ key, value: key * 10 }))
+}
+
+describe("BTree", () => {
+	it("inserts in correct order", () => {
+		const items = _.range(1000)
+		const tree = new BTree<number, number>(compare, 4)
+		for (const item of _.shuffle(items)) {
+			tree.set(item, item * 10)
+		}
+		assert.deepEqual(tree.scan(), entries(items))
+		assert.equal(tree.size, 1000)
+	})
+
+	it("set will replace a value", () => {
+		const tree = new BTree<number, string>(compare, 4)
+		tree.set(1, "a")
+		tree.set(1, "b")
+		assert.equal(tree.get(1), "b")
+		assert.equal(tree.size, 1)
+	})
+
+	it("get and has", () => {
+		const tree = new BTree<number, number>(compare, 4)
+		for (const item of _.range(0, 100, 2)) {
+			tree.set(item, item * 10)
+		}
+		assert.equal(tree.get(10), 100)
+		assert.equal(tree.get(11), undefined)
+		assert.equal(tree.has(98), true)
+		assert.equal(tree.has(99), false)
+	})
+
+	it("removes items correctly", () => {
+		const tree = new BTree<number, number>(compare, 4)
+		for (const item of _.range(10)) {
+			tree.set(item, item * 10)
+		}
+
+		assert.equal(tree.delete(2), true)
+		assert.equal(tree.delete(4), true)
+		assert.equal(tree.delete(4), false)
+		tree.set(4, 40)
+		assert.equal(tree.delete(5), true)
+		assert.equal(tree.delete(15), false)
+
+		assert.deepEqual(tree.scan(), entries([0, 1, 3, 4, 6, 7, 8, 9]))
+		assert.equal(tree.size, 8)
+	})
+
+	it("removes everything", () => {
+		const items = _.range(1000)
+		const tree = new BTree<number, number>(compare, 4)
+		for (const item of _.shuffle(items)) {
+			tree.set(item, item * 10)
+		}
+		for (const item of _.shuffle(items)) {
+			tree.delete(item)
+		}
+		assert.deepEqual(tree.scan(), [])
+		assert.deepEqual(tree.scan({ reverse: true }), [])
+		assert.equal(tree.size, 0)
+	})
+
+	it("throws on invalid bounds", () => {
+		const tree = new BTree<number, number>(compare)
+		assert.throws(() => tree.scan({ gt: 2, lt: 1 }))
+	})
+
+	it("iterate continues after the tree changes", () => {
+		const tree = new BTree<number, number>(compare, 4)
+		for (const item of _.range(0, 100, 2)) {
+			tree.set(item, item * 10)
+		}
+
+		const result: number[] = []
+		for (const { key } of tree.iterate({ gte: 10, lt: 30 })) {
+			result.push(key)
+			if (key === 20) {
+				// Enough to split and merge nodes.
+				for (const item of _.range(0, 100, 2)) tree.delete(item)
+				for (const item of _.range(0, 100, 3)) tree.set(item, item * 10)
+			}
+		}
+		assert.deepEqual(result, [10, 12, 14, 16, 18, 20, 21, 24, 27])
+	})
+
+	it("scans the same as a sorted list", () => {
+		const tree = new BTree<number, number>(compare, 4)
+		const list: number[] = []
+
+		// Interleave writes and deletes so that nodes get split, borrowed from and merged.
+		for (let i = 0; i < 2000; i++) {
+			const item = _.random(1, 300)
+			if (Math.random() < 0.6) {
+				tree.set(item, item * 10)
+				sortedList.set(list, item, compare)
+			} else {
+				tree.delete(item)
+				sortedList.remove(list, item, compare)
+			}
+		}
+		assert.equal(tree.size, list.length)
+
+		for (let i = 0; i < 500; i++) {
+			// Zero is falsy which sortedList doesn't handle as a bound.
+			const [a, b] = [_.random(1, 310), _.random(1, 310)].sort(compare)
+			const args: BTreeScanArgs<number> = {
+				limit: Math.random() < 0.5 ? _.random(1, 20) : undefined,
+				reverse: Math.random() < 0.5,
+			}
+			if (Math.random() < 0.7) {
+				if (Math.random() < 0.5) args.gt = a
+				else args.gte = a
+			}
+			if (Math.random() < 0.7) {
+				if (Math.random() < 0.5) args.lt = b
+				else args.lte = b
+			}
+			assert.deepEqual(
+				tree.scan(args),
+				entries(sortedList.scan(list, args, compare)),
+				JSON.stringify(args)
+			)
+		}
+	})
+})
@@ -0,0 +1,364 @@
+import { Compare } from "./compare"
+
+/*
+
+An in-memory B+tree. All of the entries live in the leaves and the leaves are
+linked together so that we can scan in either direction without walking back
+up the tree. Every write is O(log n) whereas inserting into a sorted array is
+O(n) because of Array.splice.
+
+*/
+
+type Leaf<K, V> = {
+	leaf: true
+	keys: K[]
+	values: V[]
+	prev: Leaf<K, V> | undefined
+	next: Leaf<K, V> | undefined
+}
+
+type Branch<K, V> = {
+	leaf: false
+	// keys[i] is the smallest key in children[i + 1].
+	keys: K[]
+	children: Node<K, V>[]
+}
+
+type Node<K, V> = Leaf<K, V> | Branch<K, V>
+
+export type BTreeScanArgs<K> = {
+	gt?: K
+	gte?: K
+	lt?: K
+	lte?: K
+	limit?: number
+	reverse?: boolean
+}
+
+/** Index of the first key >= key. */
+function lowerBound<K>(keys: K[], key: K, cmp: Compare<K>) {
+	let lo = 0
+	let hi = keys.length
+	while (lo < hi) {
+		const mid = (lo + hi) >> 1
+		if (cmp(keys[mid], key) < 0) lo = mid + 1
+		else hi = mid
+	}
+	return lo
+}
+
+/** Index of the first key > key. */
+function upperBound<K>(keys: K[], key: K, cmp: Compare<K>) {
+	let lo = 0
+	let hi = keys.length
+	while (lo < hi) {
+		const mid = (lo + hi) >> 1
+		if (cmp(keys[mid], key) <= 0) lo = mid + 1
+		else hi = mid
+	}
+	return lo
+}
+
+export class BTree<K, V> {
+	private root: Node<K, V>
+	private minKeys: number
+	/** Incremented whenever keys are added or removed. */
+	private version = 0
+	size = 0
+
+	constructor(private cmp: Compare<K>, private maxKeys = 64) {
+		if (maxKeys < 3) throw new Error("BTree maxKeys must be at least 3.")
+		this.minKeys = Math.floor(maxKeys / 2)
+		this.root = this.createLeaf()
+	}
+
+	private createLeaf(): Leaf<K, V> {
+		return {
+			leaf: true,
+			keys: [],
+			values: [],
+			prev: undefined,
+			next: undefined,
+		}
+	}
+
+	/** Find the leaf that would contain this key. */
+	private findLeaf(key: K) {
+		let node = this.root
+		while (!node.leaf) {
+			node = node.children[upperBound(node.keys, key, this.cmp)]
+		}
+		return node
+	}
+
+	private firstLeaf() {
+		let node = this.root
+		while (!node.leaf) node = node.children[0]
+		return node
+	}
+
+	private lastLeaf() {
+		let node = this.root
+		while (!node.leaf) node = node.children[node.children.length - 1]
+		return node
+	}
+
+	get(key: K): V | undefined {
+		const leaf = this.findLeaf(key)
+		const i = lowerBound(leaf.keys, key, this.cmp)
+		if (i < leaf.keys.length && this.cmp(leaf.keys[i], key) === 0) {
+			return leaf.values[i]
+		}
+	}
+
+	has(key: K) {
+		const leaf = this.findLeaf(key)
+		const i = lowerBound(leaf.keys, key, this.cmp)
+		return i < leaf.keys.length && this.cmp(leaf.keys[i], key) === 0
+	}
+
+	set(key: K, value: V) {
+		const split = this.insert(this.root, key, value)
+		if (split) {
+			this.root = {
+				leaf: false,
+				keys: [split.key],
+				children: [this.root, split.node],
+			}
+		}
+	}
+
+	/** Returns the new right sibling if the node had to be split. */
+	private insert(
+		node: Node<K, V>,
+		key: K,
+		value: V
+	): { key: K; node: Node<K, V> } | undefined {
+		if (node.leaf) {
+			const i = lowerBound(node.keys, key, this.cmp)
+			if (i < node.keys.length && this.cmp(node.keys[i], key) === 0) {
+				node.keys[i] = key
+				node.values[i] = value
+				return
+			}
+			node.keys.splice(i, 0, key)
+			node.values.splice(i, 0, value)
+			this.size += 1
+			this.version += 1
+			if (node.keys.length <= this.maxKeys) return
+
+			const mid = node.keys.length >> 1
+			const right: Leaf<K, V> = {
+				leaf: true,
+				keys: node.keys.splice(mid),
+				values: node.values.splice(mid),
+				prev: node,
+				next: node.next,
+			}
+			if (node.next) node.next.prev = right
+			node.next = right
+			return { key: right.keys[0], node: right }
+		}
+
+		const i = upperBound(node.keys, key, this.cmp)
+		const split = this.insert(node.children[i], key, value)
+		if (!split) return
+
+		node.keys.splice(i, 0, split.key)
+		node.children.splice(i + 1, 0, split.node)
+		if (node.keys.length <= this.maxKeys) return
+
+		const mid = node.keys.length >> 1
+		const upKey = node.keys[mid]
+		const right: Branch<K, V> = {
+			leaf: false,
+			keys: node.keys.splice(mid + 1),
+			children: node.children.splice(mid + 1),
+		}
+		node.keys.pop()
+		return { key: upKey, node: right }
+	}
+
+	delete(key: K): boolean {
+		const deleted = this.remove(this.root, key)
+		if (!this.root.leaf && this.root.children.length === 1) {
+			this.root = this.root.children[0]
+		}
+		return deleted
+	}
+
+	private remove(node: Node<K, V>, key: K): boolean {
+		if (node.leaf) {
+			const i = lowerBound(node.keys, key, this.cmp)
+			if (i >= node.keys.length || this.cmp(node.keys[i], key) !== 0) {
+				return false
+			}
+			node.keys.splice(i, 1)
+			node.values.splice(i, 1)
+			this.size -= 1
+			this.version += 1
+			return true
+		}
+
+		const i = upperBound(node.keys, key, this.cmp)
+		const deleted = this.remove(node.children[i], key)
+		if (deleted) this.rebalance(node, i)
+		return deleted
+	}
+
+	/** Fix up children[i] if it has too few keys by borrowing or merging with a sibling. */
+	private rebalance(parent: Branch<K, V>, i: number) {
+		const child = parent.children[i]
+		if (child.keys.length >= this.minKeys) return
+
+		const left = parent.children[i - 1]
+		const right = parent.children[i + 1]
+
+		if (child.leaf) {
+			const leftLeaf = left as Leaf<K, V> | undefined
+			const rightLeaf = right as Leaf<K, V> | undefined
+			if (leftLeaf && leftLeaf.keys.length > this.minKeys) {
+				child.keys.unshift(leftLeaf.keys.pop()!)
+				child.values.unshift(leftLeaf.values.pop()!)
+				parent.keys[i - 1] = child.keys[0]
+			} else if (rightLeaf && rightLeaf.keys.length > this.minKeys) {
+				child.keys.push(rightLeaf.keys.shift()!)
+				child.values.push(rightLeaf.values.shift()!)
+				parent.keys[i] = rightLeaf.keys[0]
+			} else if (leftLeaf) {
+				this.mergeLeaves(leftLeaf, child)
+				parent.keys.splice(i - 1, 1)
+				parent.children.splice(i, 1)
+			} else if (rightLeaf) {
+				this.mergeLeaves(child, rightLeaf)
+				parent.keys.splice(i, 1)
+				parent.children.splice(i + 1, 1)
+			}
+			return
+		}
+
+		const leftBranch = left as Branch<K, V> | undefined
+		const rightBranch = right as Branch<K, V> | undefined
+		if (leftBranch && leftBranch.keys.length > this.minKeys) {
+			child.keys.unshift(parent.keys[i - 1])
+			child.children.unshift(leftBranch.children.pop()!)
+			parent.keys[i - 1] = leftBranch.keys.pop()!
+		} else if (rightBranch && rightBranch.keys.length > this.minKeys) {
+			child.keys.push(parent.keys[i])
+			child.children.push(rightBranch.children.shift()!)
+			parent.keys[i] = rightBranch.keys.shift()!
+		} else if (leftBranch) {
+			leftBranch.keys.push(parent.keys[i - 1], ...child.keys)
+			leftBranch.children.push(...child.children)
+			parent.keys.splice(i - 1, 1)
+			parent.children.splice(i, 1)
+		} else if (rightBranch) {
+			child.keys.push(parent.keys[i], ...rightBranch.keys)
+			child.children.push(...rightBranch.children)
+			parent.keys.splice(i, 1)
+			parent.children.splice(i + 1, 1)
+		}
+	}
+
+	private mergeLeaves(left: Leaf<K, V>, right: Leaf<K, V>) {
+		left.keys.push(...right.keys)
+		left.values.push(...right.values)
+		left.next = right.next
+		if (right.next) right.next.prev = left
+	}
+
+	/** Position of the first key after (or equal to) the given key. */
+	private seekAfter(key: K, inclusive: boolean) {
+		const leaf = this.findLeaf(key)
+		const i = inclusive
+			? lowerBound(leaf.keys, key, this.cmp)
+			: upperBound(leaf.keys, key, this.cmp)
+		return this.forward(leaf, i)
+	}
+
+	/** Position of the last key before (or equal to) the given key. */
+	private seekBefore(key: K, inclusive: boolean) {
+		const leaf = this.findLeaf(key)
+		const i = inclusive
+			? upperBound(leaf.keys, key, this.cmp) - 1
+			: lowerBound(leaf.keys, key, this.cmp) - 1
+		return this.backward(leaf, i)
+	}
+
+	/** Skip over the ends of leaves until we land on a key. */
+	private forward(leaf: Leaf<K, V> | undefined, i: number) {
+		while (leaf && i >= leaf.keys.length) {
+			leaf = leaf.next
+			i = 0
+		}
+		if (leaf) return { leaf, i }
+	}
+
+	private backward(leaf: Leaf<K, V> | undefined, i: number) {
+		while (leaf && i < 0) {
+			leaf = leaf.prev
+			i = leaf ? leaf.keys.length - 1 : -1
+		}
+		if (leaf) return { leaf, i }
+	}
+
+	/**
+	 * The tree can be modified while iterating and we'll pick up after the last
+	 * key that was yielded.
+	 */
+	*iterate(args: BTreeScanArgs<K> = {}): Generator<{ key: K; value: V }> {
+		const start = args.gte ?? args.gt
+		const end = args.lte ?? args.lt
+
+		if (start !== undefined && end !== undefined && this.cmp(start, end) > 0) {
+			throw new Error("Invalid bounds.")
+		}
+
+		const isWithinBounds = (key: K) => {
+			if (args.gt !== undefined && this.cmp(key, args.gt) <= 0) return false
+			if (args.gte !== undefined && this.cmp(key, args.gte) < 0) return false
+			if (args.lt !== undefined && this.cmp(key, args.lt) >= 0) return false
+			if (args.lte !== undefined && this.cmp(key, args.lte) > 0) return false
+			return true
+		}
+
+		let position: { leaf: Leaf<K, V>; i: number } | undefined
+		if (args.reverse) {
+			position =
+				end === undefined
+					? this.backward(this.lastLeaf(), this.lastLeaf().keys.length - 1)
+					: this.seekBefore(end, args.lte !== undefined)
+		} else {
+			position =
+				start === undefined
+					? this.forward(this.firstLeaf(), 0)
+					: this.seekAfter(start, args.gte !== undefined)
+		}
+
+		const limit = args.limit || Infinity
+		let version = this.version
+		for (let count = 0; position && count < limit; count++) {
+			const { leaf, i } = position
+			const key = leaf.keys[i]
+			if (!isWithinBounds(key)) return
+
+			yield { key, value: leaf.values[i] }
+
+			if (version !== this.version) {
+				// The tree changed so we need to find our place again.
+				version = this.version
+				position = args.reverse
+					? this.seekBefore(key, false)
+					: this.seekAfter(key, false)
+			} else {
+				position = args.reverse
+					? this.backward(leaf, i - 1)
+					: this.forward(leaf, i + 1)
+			}
+		}
+	}
+
+	scan(args: BTreeScanArgs<K> = {}) {
+		return Array.from(this.iterate(args))
+	}
+}
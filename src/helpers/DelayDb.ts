@@ -11,10 +11,15 @@ export function DelayDb(
 	delay = 0
 ): AsyncTupleDatabaseApi {
 	return {
+		begin: (...args) => db.begin(...args),
 		scan: async (...args) => {
 			await sleep(delay)
 			return db.scan(...args)
 		},
+		iterate: async function* (...args) {
+			await sleep(delay)
+			yield* db.iterate(...args)
+		},
 		commit: async (...args) => {
 			await sleep(delay)
 			return db.commit(...args)
@@ -0,0 +1,57 @@
+import { strict as assert } from "assert"
+import * as _ from "lodash"
+import { describe, it } from "mocha"
+import { compare } from "./compare"
+import { Interval, IntervalEntry, IntervalTree } from "./IntervalTree"
+
+function randomInterval(): Interval<number> {
+	const a = _.random(0, 100)
+	const b = _.random(0, 100)
+	return {
+		low: Math.random() < 0.1 ? undefined : Math.min(a, b),
+		high: Math.random() < 0.1 ? undefined : Math.max(a, b),
+	}
+}
+
+function isOverlapping(a: Interval<number>, b: Interval<number>) {
+	const low = (x: Interval<number>) => x.low ?? -Infinity
+	const high = (x: Interval<number>) => x.high ?? Infinity
+	return low(a) <= high(b) && low(b) <= high(a)
+}
+
+describe("IntervalTree", () => {
+	it("finds overlapping intervals", () => {
+		const tree = new IntervalTree<number, number>(compare)
+		tree.insert({ low: 1, high: 3 }, 1)
+		tree.insert({ low: 5, high: 8 }, 2)
+		tree.insert({ low: 2, high: undefined }, 3)
+		tree.insert({ low: undefined, high: 0 }, 4)
+
+		assert.deepEqual([...tree.overlapping({ low: 4, high: 4 })], [3])
+		assert.deepEqual([...tree.overlapping({ low: 3, high: 5 })], [1, 3, 2])
+		assert.deepEqual([...tree.overlapping({ low: undefined, high: 1 })], [4, 1])
+		assert.deepEqual([...tree.values()], [4, 1, 3, 2])
+	})
+
+	it("matches a brute force search after random inserts and removes", () => {
+		const tree = new IntervalTree<number, number>(compare)
+		const entries: IntervalEntry<number, number>[] = []
+
+		for (const i of _.range(2000)) {
+			if (entries.length > 0 && Math.random() < 0.4) {
+				const [entry] = entries.splice(_.random(entries.length - 1), 1)
+				assert.equal(tree.remove(entry), true)
+			} else {
+				entries.push(tree.insert(randomInterval(), i))
+			}
+
+			const query = randomInterval()
+			const expected = entries
+				.filter((entry) => isOverlapping(entry, query))
+				.map((entry) => entry.value)
+			const actual = [...tree.overlapping(query)]
+			assert.deepEqual(_.sortBy(actual), _.sortBy(expected))
+		}
+		assert.equal(tree.size, entries.length)
+	})
+})
@@ -0,0 +1,208 @@
+import { Tuple } from "../storage/types"
+import { Compare } from "./compare"
+import { Bounds } from "./sortedTupleArray"
+
+/*
+
+An AVL tree of intervals sorted by their low end, where every node also knows
+the highest end within its subtree. That lets us skip over any subtree that
+ends before the interval we're looking for, so finding the intervals that
+overlap is O(log n + k) instead of checking every interval.
+
+An undefined end is unbounded. Both ends are inclusive, so callers with
+exclusive bounds will get a few extra results that they need to filter out.
+
+*/
+
+export type Interval<K> = { low: K | undefined; high: K | undefined }
+
+type Node<K, V> = Interval<K> & {
+	id: number
+	value: V
+	left: Node<K, V> | undefined
+	right: Node<K, V> | undefined
+	height: number
+	/** The highest end of any interval in this subtree. */
+	maxHigh: K | undefined
+}
+
+/** The interval of tuples within the bounds, including the exclusive ends. */
+export function boundsInterval(bounds: Bounds): Interval<Tuple> {
+	return { low: bounds.gte || bounds.gt, high: bounds.lte || bounds.lt }
+}
+
+/** Returned by insert so that the same interval can be removed later. */
+export type IntervalEntry<K, V> = Interval<K> & { id: number; value: V }
+
+export class IntervalTree<K, V> {
+	private root: Node<K, V> | undefined
+	private nextId = 0
+	size = 0
+
+	constructor(private cmp: Compare<K>) {}
+
+	insert(interval: Interval<K>, value: V): IntervalEntry<K, V> {
+		const node: Node<K, V> = {
+			low: interval.low,
+			high: interval.high,
+			id: this.nextId++,
+			value,
+			left: undefined,
+			right: undefined,
+			height: 1,
+			maxHigh: interval.high,
+		}
+		this.root = this.insertNode(this.root, node)
+		this.size += 1
+		return node
+	}
+
+	remove(entry: IntervalEntry<K, V>) {
+		const size = this.size
+		this.root = this.removeNode(this.root, entry)
+		return this.size < size
+	}
+
+	/** Every interval that overlaps with this one, sorted by the low end. */
+	*overlapping(interval: Interval<K>): Generator<V> {
+		for (const entry of this.entries(interval)) yield entry.value
+	}
+
+	/** Same as overlapping but with the entries so that they can be removed. */
+	*entries(
+		interval: Interval<K> = { low: undefined, high: undefined }
+	): Generator<IntervalEntry<K, V>> {
+		// Iterating with a stack so that we don't create a generator per node.
+		const stack: Node<K, V>[] = []
+		let node = this.root
+		while (node || stack.length > 0) {
+			while (node && !this.endsBefore(node.maxHigh, interval.low)) {
+				stack.push(node)
+				node = node.left
+			}
+			node = stack.pop()
+			if (!node) return
+			// This node and everything after it starts after the interval ends.
+			if (this.startsAfter(node.low, interval.high)) return
+			if (!this.endsBefore(node.high, interval.low)) yield node
+			node = node.right
+		}
+	}
+
+	*values(): Generator<V> {
+		yield* this.overlapping({ low: undefined, high: undefined })
+	}
+
+	private endsBefore(high: K | undefined, low: K | undefined) {
+		if (high === undefined || low === undefined) return false
+		return this.cmp(high, low) < 0
+	}
+
+	private startsAfter(low: K | undefined, high: K | undefined) {
+		if (low === undefined || high === undefined) return false
+		return this.cmp(low, high) > 0
+	}
+
+	/** Sort by the low end, then by insertion order. */
+	private compareNodes(a: IntervalEntry<K, V>, b: IntervalEntry<K, V>) {
+		if (a.low === undefined && b.low !== undefined) return -1
+		if (a.low !== undefined && b.low === undefined) return 1
+		if (a.low !== undefined && b.low !== undefined) {
+			const dir = this.cmp(a.low, b.low)
+			if (dir !== 0) return dir
+		}
+		return a.id - b.id
+	}
+
+	private maxHigh(a: K | undefined, b: K | undefined) {
+		if (a === undefined || b === undefined) return undefined
+		return this.cmp(a, b) >= 0 ? a : b
+	}
+
+	private update(node: Node<K, V>) {
+		const { left, right } = node
+		node.height = Math.max(left?.height || 0, right?.height || 0) + 1
+		let maxHigh = node.high
+		if (left) maxHigh = this.maxHigh(maxHigh, left.maxHigh)
+		if (right) maxHigh = this.maxHigh(maxHigh, right.maxHigh)
+		node.maxHigh = maxHigh
+		return node
+	}
+
+	private rotateLeft(node: Node<K, V>) {
+		const right = node.right!
+		node.right = right.left
+		right.left = this.update(node)
+		return this.update(right)
+	}
+
+	private rotateRight(node: Node<K, V>) {
+		const left = node.left!
+		node.left = left.right
+		left.right = this.update(node)
+		return this.update(left)
+	}
+
+	private balance(node: Node<K, V>) {
+		this.update(node)
+		const factor = (node.left?.height || 0) - (node.right?.height || 0)
+		if (factor > 1) {
+			const left = node.left!
+			if ((left.left?.height || 0) < (left.right?.height || 0)) {
+				node.left = this.rotateLeft(left)
+			}
+			return this.rotateRight(node)
+		}
+		if (factor < -1) {
+			const right = node.right!
+			if ((right.right?.height || 0) < (right.left?.height || 0)) {
+				node.right = this.rotateRight(right)
+			}
+			return this.rotateLeft(node)
+		}
+		return node
+	}
+
+	private insertNode(
+		node: Node<K, V> | undefined,
+		inserted: Node<K, V>
+	): Node<K, V> {
+		if (!node) return inserted
+		if (this.compareNodes(inserted, node) < 0) {
+			node.left = this.insertNode(node.left, inserted)
+		} else {
+			node.right = this.insertNode(node.right, inserted)
+		}
+		return this.balance(node)
+	}
+
+	private removeNode(
+		node: Node<K, V> | undefined,
+		entry: IntervalEntry<K, V>
+	): Node<K, V> | undefined {
+		if (!node) return
+		const dir = this.compareNodes(entry, node)
+		if (dir < 0) {
+			node.left = this.removeNode(node.left, entry)
+		} else if (dir > 0) {
+			node.right = this.removeNode(node.right, entry)
+		} else {
+			this.size -= 1
+			if (!node.left) return node.right
+			if (!node.right) return node.left
+			// Replace this node with the first node on the right.
+			let first = node.right
+			while (first.left) first = first.left
+			first.right = this.removeFirst(node.right)
+			first.left = node.left
+			return this.balance(first)
+		}
+		return this.balance(node)
+	}
+
+	private removeFirst(node: Node<K, V>): Node<K, V> | undefined {
+		if (!node.left) return node.right
+		node.left = this.removeFirst(node.left)
+		return this.balance(node)
+	}
+}
@@ -42,6 +42,66 @@ describe("Queue", () => {
 		await q2
 		assert.deepEqual(items, [1, 2])
 	})
+
+	it("continues after an error", async () => {
+		const q = new Queue()
+
+		const items: any[] = []
+
+		const d1 = new DeferredPromise()
+		const q1 = q.enqueue(async () => {
+			await d1.promise
+			throw new Error("Failed")
+		})
+
+		const q2 = q.enqueue(async () => {
+			items.push(2)
+		})
+
+		d1.resolve()
+		await assert.rejects(async () => q1)
+		await q2
+		assert.deepEqual(items, [2])
+
+		await assert.rejects(async () =>
+			q.enqueue(async () => {
+				throw new Error("Failed")
+			})
+		)
+		await q.enqueue(async () => items.push(3))
+		assert.deepEqual(items, [2, 3])
+	})
+
+	it("runs re-entrant items after the current one in order", async () => {
+		const q = new Queue()
+
+		const items: any[] = []
+		const nested: any[] = []
+
+		q.enqueue(() => {
+			items.push(1)
+			nested.push(
+				q.enqueue(() => {
+					items.push(3)
+					nested.push(q.enqueue(() => items.push(5)))
+				})
+			)
+			nested.push(q.enqueue(() => items.push(4)))
+			items.push(2)
+		})
+		assert.deepEqual(items, [1, 2, 3, 4, 5])
+
+		// Re-entrant items can't return synchronously.
+		await Promise.all(nested)
+
+		let failed: any
+		q.enqueue(() => {
+			failed = q.enqueue(() => {
+				throw new Error("Failed")
+			})
+		})
+		await assert.rejects(async () => failed)
+	})
 })
 
 /**
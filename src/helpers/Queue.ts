@@ -3,26 +3,70 @@ export type Thunk<T> = () => Promise<T> | T
 export class Queue {
 	private currentPromise: Promise<any> | undefined
 
+	// Items that were enqueued while a synchronous item was running, such as a
+	// commit from a subscriber callback, run after it in the order they came in.
+	private running = false
+	private draining = false
+	private pending: (() => void)[] = []
+
 	public enqueue<T>(fn: Thunk<T>): Promise<T> | T {
+		if (this.running) return this.defer(fn)
+
 		if (this.currentPromise) {
-			const nextPromise = this.currentPromise.then(fn).then((result) => {
-				if (this.currentPromise === nextPromise) this.currentPromise = undefined
-				return result
-			})
-			this.currentPromise = nextPromise
-			return nextPromise
+			// Run after the previous item even if it failed.
+			return this.track(this.currentPromise.then(noop, noop).then(fn))
 		}
 
-		const result = fn()
-		if (result instanceof Promise) {
-			const nextPromise = result.then((result) => {
-				if (this.currentPromise === nextPromise) this.currentPromise = undefined
-				return result
+		this.running = true
+		try {
+			const result = fn()
+			if (result instanceof Promise) {
+				return this.track(result)
+			}
+			return result
+		} finally {
+			this.running = false
+			this.drain()
+		}
+	}
+
+	private defer<T>(fn: Thunk<T>) {
+		return new Promise<T>((resolve, reject) => {
+			this.pending.push(() => {
+				try {
+					resolve(this.enqueue(fn))
+				} catch (error) {
+					reject(error)
+				}
 			})
-			this.currentPromise = nextPromise
-			return nextPromise
+		})
+	}
+
+	private drain() {
+		// Only the outermost item drains so that nested items stay in order.
+		if (this.draining) return
+		this.draining = true
+		try {
+			while (this.pending.length > 0) this.pending.shift()!()
+		} finally {
+			this.draining = false
 		}
+	}
 
-		return result
+	private track<T>(promise: Promise<T>) {
+		const nextPromise: Promise<T> = promise.then(
+			(result) => {
+				if (this.currentPromise === nextPromise) this.currentPromise = undefined
+				return result
+			},
+			(error) => {
+				if (this.currentPromise === nextPromise) this.currentPromise = undefined
+				throw error
+			}
+		)
+		this.currentPromise = nextPromise
+		return nextPromise
 	}
 }
+
+function noop() {}
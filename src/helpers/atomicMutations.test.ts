@@ -0,0 +1,55 @@
+import { strict as assert } from "assert"
+import { describe, it } from "mocha"
+import { applyAtomicMutation, maxAppendLength } from "./atomicMutations"
+
+describe("applyAtomicMutation", () => {
+	it("sets the value when there isn't one", () => {
+		for (const op of [
+			"add",
+			"min",
+			"max",
+			"bitOr",
+			"appendIfFits",
+			"setIfAbsent",
+		] as const) {
+			assert.deepEqual(applyAtomicMutation(op, undefined, 2), 2)
+		}
+	})
+
+	it("add", () => {
+		assert.equal(applyAtomicMutation("add", 1, 2), 3)
+		assert.equal(applyAtomicMutation("add", 1, -2), -1)
+		assert.throws(() => applyAtomicMutation("add", "a", 2))
+	})
+
+	it("min and max", () => {
+		assert.equal(applyAtomicMutation("min", 1, 2), 1)
+		assert.equal(applyAtomicMutation("min", 2, 1), 1)
+		assert.equal(applyAtomicMutation("max", 1, 2), 2)
+		assert.equal(applyAtomicMutation("max", "a", "b"), "b")
+		// Uses the same order as tuples.
+		assert.equal(applyAtomicMutation("max", 10, "a"), "a")
+	})
+
+	it("bitOr", () => {
+		assert.equal(applyAtomicMutation("bitOr", 0b0101, 0b0011), 0b0111)
+		assert.throws(() => applyAtomicMutation("bitOr", null, 1))
+	})
+
+	it("appendIfFits", () => {
+		assert.equal(applyAtomicMutation("appendIfFits", "ab", "c"), "abc")
+		assert.deepEqual(
+			applyAtomicMutation("appendIfFits", [1], [2, 3]),
+			[1, 2, 3]
+		)
+
+		const full = "a".repeat(maxAppendLength)
+		assert.equal(applyAtomicMutation("appendIfFits", full, "b"), full)
+		assert.throws(() => applyAtomicMutation("appendIfFits", "a", [1]))
+	})
+
+	it("setIfAbsent", () => {
+		assert.equal(applyAtomicMutation("setIfAbsent", 1, 2), 1)
+		assert.equal(applyAtomicMutation("setIfAbsent", null, 2), null)
+	})
+})
@@ -0,0 +1,62 @@
+/*
+
+Atomic mutations are applied when a transaction commits against whatever value
+is in storage at that time. They don't read anything through the transaction so
+concurrent transactions can update the same key without conflicting.
+
+- add: adds two numbers.
+- min / max: keeps the smaller / larger value according to compareValue.
+- bitOr: bitwise or of two 32-bit integers.
+- appendIfFits: appends a string or array to the current string or array unless
+	the result would be longer than maxAppendLength.
+- setIfAbsent: sets the value only if there isn't one already.
+
+Every mutation sets the given value when there isn't a value already.
+
+*/
+
+import { AtomicOp } from "../storage/types"
+import { compareValue } from "./compareTuple"
+import { UnreachableError } from "./Unreachable"
+
+export const maxAppendLength = 100_000
+
+export function applyAtomicMutation(op: AtomicOp, current: any, value: any) {
+	if (current === undefined) return value
+
+	if (op === "add") {
+		assertType(op, "number", current, value)
+		return current + value
+	}
+	if (op === "min") {
+		return compareValue(value, current) < 0 ? value : current
+	}
+	if (op === "max") {
+		return compareValue(value, current) > 0 ? value : current
+	}
+	if (op === "bitOr") {
+		assertType(op, "number", current, value)
+		return current | value
+	}
+	if (op === "appendIfFits") {
+		if (typeof current === "string" && typeof value === "string") {
+			const result = current + value
+			return result.length <= maxAppendLength ? result : current
+		}
+		if (Array.isArray(current) && Array.isArray(value)) {
+			if (current.length + value.length > maxAppendLength) return current
+			return [...current, ...value]
+		}
+		throw new TypeError(`Cannot ${op} ${typeof value} to ${typeof current}.`)
+	}
+	if (op === "setIfAbsent") {
+		return current
+	}
+	throw new UnreachableError(op, "Unknown atomic op")
+}
+
+function assertType(op: AtomicOp, type: string, current: any, value: any) {
+	if (typeof current !== type || typeof value !== type) {
+		throw new TypeError(`Cannot ${op} ${typeof value} to ${typeof current}.`)
+	}
+}
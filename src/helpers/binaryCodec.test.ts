@@ -0,0 +1,132 @@
+import { strict as assert } from "assert"
+import * as _ from "lodash"
+import { describe, it } from "mocha"
+import { Tuple } from "../storage/types"
+import { sortedValues } from "../test/fixtures"
+import {
+	compareBytes,
+	decodeTuple,
+	decodeValue,
+	encodeTuple,
+	encodeValue,
+} from "./binaryCodec"
+import { compare } from "./compare"
+import { compareTuple, TupleToString, ValueToString } from "./compareTuple"
+
+function toHex(bytes: Uint8Array) {
+	return Array.from(bytes)
+		.map((byte) => byte.toString(16).padStart(2, "0"))
+		.join(" ")
+}
+
+describe("binaryCodec", () => {
+	describe("encodeValue", () => {
+		it("Encodes and decodes properly", () => {
+			for (const value of sortedValues) {
+				const encoded = encodeValue(value)
+				const decoded = decodeValue(encoded)
+				assert.deepStrictEqual(
+					decoded,
+					value,
+					[ValueToString(value), toHex(encoded), ValueToString(decoded)].join(
+						" -> "
+					)
+				)
+			}
+		})
+
+		it("Encodes in lexicographical order", () => {
+			for (let i = 0; i < sortedValues.length; i++) {
+				for (let j = 0; j < sortedValues.length; j++) {
+					const a = encodeValue(sortedValues[i])
+					const b = encodeValue(sortedValues[j])
+					assert.equal(
+						compareBytes(a, b),
+						compare(i, j),
+						`${ValueToString(sortedValues[i])} (${toHex(a)}) vs ${ValueToString(
+							sortedValues[j]
+						)} (${toHex(b)})`
+					)
+				}
+			}
+		})
+
+		it("Encodes -0 the same as 0", () => {
+			assert.deepEqual(encodeValue(-0), encodeValue(0))
+		})
+
+		it("Borrows the FoundationDB tuple layer encodings", () => {
+			assert.equal(toHex(encodeTuple([null, false, true])), "00 26 27")
+			assert.equal(toHex(encodeTuple([1.5])), "21 bf f8 00 00 00 00 00 00")
+			assert.equal(toHex(encodeTuple([-1.5])), "21 40 07 ff ff ff ff ff ff")
+			assert.equal(toHex(encodeTuple([[null, [true]]])), "05 00 ff 05 27 00 00")
+		})
+	})
+
+	describe("encodeTuple", () => {
+		it("Encodes and decodes properly", () => {
+			const test = (tuple: Tuple) => {
+				const encoded = encodeTuple(tuple)
+				const decoded = decodeTuple(encoded)
+				assert.deepStrictEqual(
+					decoded,
+					tuple,
+					[TupleToString(tuple), toHex(encoded), TupleToString(decoded)].join(
+						" -> "
+					)
+				)
+			}
+			test([])
+			test(["\u{1F600}", "a\u00e9\u4e2d", "\uD800"])
+			for (const a of sortedValues) {
+				test([a])
+				test([[a]])
+				test([{ a }])
+				for (const b of sortedValues) {
+					test([a, b])
+					test([[a, b], b])
+				}
+			}
+		})
+
+		it("Encodes in the same order as compareTuple", () => {
+			const test = (aTuple: Tuple, bTuple: Tuple) => {
+				const a = encodeTuple(aTuple)
+				const b = encodeTuple(bTuple)
+				assert.equal(
+					compareBytes(a, b),
+					compareTuple(aTuple, bTuple),
+					`${TupleToString(aTuple)} (${toHex(a)}) vs ${TupleToString(
+						bTuple
+					)} (${toHex(b)})`
+				)
+			}
+
+			for (const a of sortedValues) {
+				for (const b of sortedValues) {
+					test([a, a], [a, b])
+					test([a], [b, a])
+					test([[a]], [[a, b]])
+					test([[a], a], [[b], b])
+					test([{ a }], [{ a: b }])
+				}
+			}
+
+			const sample = (): Tuple =>
+				_.range(_.random(0, 3)).map(() =>
+					Math.random() < 0.2
+						? _.sampleSize(sortedValues, _.random(0, 2))
+						: sortedValues[_.random(sortedValues.length - 1)]
+				)
+
+			for (let iter = 0; iter < 20_000; iter++) {
+				test(sample(), sample())
+			}
+
+			// UTF-8 would sort characters outside of the BMP after "\uFFFF".
+			test(["\uFFFF"], ["\u{1F600}"])
+			test(["\uD7FF"], ["\u{1F600}"])
+			test(["\u{1F600}"], ["\uE000"])
+		})
+	})
+})
@@ -0,0 +1,301 @@
+/*
+
+A binary alternative to ./codec modeled after the FoundationDB tuple layer.
+https://github.com/apple/foundationdb/blob/main/design/tuple.md
+
+Encoded tuples are compared byte-by-byte which gives the same order as
+compareTuple. Keeping that order matters more than interop, so this is NOT
+compatible with the tuple layer and other implementations can't decode it. The
+tuple layer sorts strings (0x02) before nested tuples and numbers, compares
+strings by code point rather than by UTF-16 code unit, and sorts integers
+(0x0c-0x1c) apart from doubles, none of which match compareTuple.
+
+We use the tuple layer encodings wherever the order allows:
+
+- null is 0x00.
+- numbers are all encoded as doubles (0x21) so they sort together.
+- nested tuples are 0x05 and end with 0x00. A null inside is 0x00 0xff.
+- false is 0x26 and true is 0x27.
+
+The rest use type codes that the tuple layer leaves unassigned so that they
+sort the way compareTuple does:
+
+- objects are 0x04 followed by the sorted entries as nested tuples, ending with 0x00.
+- strings are 0x23 followed by CESU-8 with 0x00 escaped as 0x00 0xff, ending with 0x00.
+  CESU-8 is UTF-8 except that characters outside of the BMP are encoded as
+  their UTF-16 surrogate pairs so that they sort like JavaScript strings do.
+- descending values are 0x24 followed by their encoding with every bit flipped, ending with 0xff.
+- custom value types are 0x25 followed by their byte and their encoded value.
+
+*/
+
+import { isPlainObject } from "lodash"
+import { Tuple, Value } from "../storage/types"
+import { encodingTypeOf } from "./codec"
+import { compare } from "./compare"
+import { Descending } from "./descending"
+import { UnreachableError } from "./Unreachable"
+import { getValueType, getValueTypeByByte } from "./valueTypes"
+
+export const binaryTypeCode = {
+	null: 0x00,
+	object: 0x04,
+	array: 0x05,
+	number: 0x21,
+	string: 0x23,
+	descending: 0x24,
+	custom: 0x25,
+	false: 0x26,
+	true: 0x27,
+} as const
+
+const escapeByte = 0xff
+
+export function encodeTuple(tuple: Tuple): Uint8Array {
+	const bytes: number[] = []
+	for (const value of tuple) {
+		writeValue(bytes, value, false)
+	}
+	return Uint8Array.from(bytes)
+}
+
+export function decodeTuple(bytes: Uint8Array): Tuple {
+	const reader = { bytes, pos: 0 }
+	const tuple: Tuple = []
+	while (reader.pos < bytes.length) {
+		tuple.push(readValue(reader, false))
+	}
+	return tuple
+}
+
+export function encodeValue(value: Value): Uint8Array {
+	return encodeTuple([value])
+}
+
+export function decodeValue(bytes: Uint8Array): Value {
+	return decodeTuple(bytes)[0]
+}
+
+/** Lexicographical comparison, the same as memcmp. */
+export function compareBytes(a: Uint8Array, b: Uint8Array): number {
+	const len = Math.min(a.length, b.length)
+	for (let i = 0; i < len; i++) {
+		if (a[i] !== b[i]) return compare(a[i], b[i])
+	}
+	return compare(a.length, b.length)
+}
+
+function writeValue(bytes: number[], value: Value, nested: boolean) {
+	const type = encodingTypeOf(value)
+	if (type === "null") {
+		bytes.push(binaryTypeCode.null)
+		// Distinguish a null from the end of a nested tuple.
+		if (nested) bytes.push(escapeByte)
+	} else if (type === "boolean") {
+		bytes.push(value ? binaryTypeCode.true : binaryTypeCode.false)
+	} else if (type === "number") {
+		bytes.push(binaryTypeCode.number)
+		writeDouble(bytes, value as number)
+	} else if (type === "string") {
+		bytes.push(binaryTypeCode.string)
+		writeEscaped(bytes, encodeString(value as string))
+		bytes.push(0x00)
+	} else if (type === "array") {
+		bytes.push(binaryTypeCode.array)
+		for (const item of value as Value[]) {
+			writeValue(bytes, item, true)
+		}
+		bytes.push(0x00)
+	} else if (type === "object") {
+		if (!isPlainObject(value)) {
+			throw new Error("Cannot serialize this object.")
+		}
+		bytes.push(binaryTypeCode.object)
+		const entries = Object.entries(value as object)
+			.sort(([k1], [k2]) => compare(k1, k2))
+			// We allow undefined values in objects, but we want to strip them out before
+			// serializing.
+			.filter(([key, value]) => value !== undefined)
+		for (const entry of entries) {
+			writeValue(bytes, entry, true)
+		}
+		bytes.push(0x00)
+	} else if (type === "descending") {
+		bytes.push(binaryTypeCode.descending)
+		const inner: number[] = []
+		writeValue(inner, (value as Descending).value, false)
+		for (const byte of inner) bytes.push(byte ^ 0xff)
+		// An encoded value can only be a prefix of another when it's followed by
+		// an escaped 0x00 0xff, which is 0x00 when flipped. This byte sorts the
+		// shorter one after it.
+		bytes.push(0xff)
+	} else if (type === "custom") {
+		const valueType = getValueType(value)!
+		bytes.push(binaryTypeCode.custom, valueType.byte)
+		writeValue(bytes, valueType.encode(value), nested)
+	} else {
+		throw new UnreachableError(type, "Unknown value type")
+	}
+}
+
+type Reader = { bytes: Uint8Array; pos: number }
+
+function readValue(reader: Reader, nested: boolean): Value {
+	const { bytes } = reader
+	const code = bytes[reader.pos++]
+	if (code === binaryTypeCode.null) {
+		if (nested) reader.pos++
+		return null
+	}
+	if (code === binaryTypeCode.false) {
+		return false
+	}
+	if (code === binaryTypeCode.true) {
+		return true
+	}
+	if (code === binaryTypeCode.number) {
+		return readDouble(reader)
+	}
+	if (code === binaryTypeCode.string) {
+		return decodeString(readEscaped(reader))
+	}
+	if (code === binaryTypeCode.array) {
+		return readNested(reader)
+	}
+	if (code === binaryTypeCode.descending) {
+		const inverted = {
+			bytes: bytes.map((byte) => byte ^ 0xff),
+			pos: reader.pos,
+		}
+		const value = readValue(inverted, false)
+		reader.pos = inverted.pos + 1
+		return new Descending(value)
+	}
+	if (code === binaryTypeCode.custom) {
+		const valueType = getValueTypeByByte(bytes[reader.pos++])
+		return valueType.decode(readValue(reader, nested))
+	}
+	if (code === binaryTypeCode.object) {
+		const obj = {}
+		for (const [key, value] of readNested(reader) as Array<[string, Value]>) {
+			obj[key] = value
+		}
+		return obj
+	}
+	throw new Error(`Invalid type code: ${code}`)
+}
+
+function readNested(reader: Reader) {
+	const { bytes } = reader
+	const tuple: Tuple = []
+	while (true) {
+		if (reader.pos >= bytes.length) {
+			throw new Error("Unterminated nested tuple.")
+		}
+		if (bytes[reader.pos] === 0x00 && bytes[reader.pos + 1] !== escapeByte) {
+			reader.pos++
+			return tuple
+		}
+		tuple.push(readValue(reader, true))
+	}
+}
+
+function encodeString(value: string) {
+	const bytes: number[] = []
+	for (let i = 0; i < value.length; i++) {
+		const unit = value.charCodeAt(i)
+		if (unit < 0x80) {
+			bytes.push(unit)
+		} else if (unit < 0x800) {
+			bytes.push(0xc0 | (unit >> 6), 0x80 | (unit & 0x3f))
+		} else {
+			bytes.push(
+				0xe0 | (unit >> 12),
+				0x80 | ((unit >> 6) & 0x3f),
+				0x80 | (unit & 0x3f)
+			)
+		}
+	}
+	return bytes
+}
+
+function decodeString(bytes: number[]) {
+	const units: number[] = []
+	for (let i = 0; i < bytes.length; ) {
+		const byte = bytes[i]
+		if (byte < 0x80) {
+			units.push(byte)
+			i += 1
+		} else if (byte < 0xe0) {
+			units.push(((byte & 0x1f) << 6) | (bytes[i + 1] & 0x3f))
+			i += 2
+		} else {
+			units.push(
+				((byte & 0x0f) << 12) |
+					((bytes[i + 1] & 0x3f) << 6) |
+					(bytes[i + 2] & 0x3f)
+			)
+			i += 3
+		}
+	}
+	let value = ""
+	// Avoid exceeding the maximum number of arguments.
+	for (let i = 0; i < units.length; i += 0x1000) {
+		value += String.fromCharCode(...units.slice(i, i + 0x1000))
+	}
+	return value
+}
+
+function writeEscaped(bytes: number[], data: number[]) {
+	for (const byte of data) {
+		bytes.push(byte)
+		if (byte === 0x00) bytes.push(escapeByte)
+	}
+}
+
+function readEscaped(reader: Reader) {
+	const { bytes } = reader
+	const data: number[] = []
+	while (true) {
+		if (reader.pos >= bytes.length) {
+			throw new Error("Unterminated string.")
+		}
+		const byte = bytes[reader.pos++]
+		if (byte !== 0x00) {
+			data.push(byte)
+		} else if (bytes[reader.pos] === escapeByte) {
+			data.push(0x00)
+			reader.pos++
+		} else {
+			return data
+		}
+	}
+}
+
+// Big-endian IEEE 754 with the sign bit flipped for positive numbers and every
+// bit flipped for negative numbers so that they sort correctly.
+function writeDouble(bytes: number[], value: number) {
+	const view = new DataView(new ArrayBuffer(8))
+	// -0 and 0 are equal according to compareTuple.
+	view.setFloat64(0, value === 0 ? 0 : value)
+	const negative = view.getUint8(0) & 0x80
+	for (let i = 0; i < 8; i++) {
+		const byte = view.getUint8(i)
+		bytes.push(negative ? byte ^ 0xff : i === 0 ? byte ^ 0x80 : byte)
+	}
+}
+
+function readDouble(reader: Reader) {
+	const { bytes } = reader
+	if (reader.pos + 8 > bytes.length) {
+		throw new Error("Truncated number.")
+	}
+	const view = new DataView(new ArrayBuffer(8))
+	const negative = !(bytes[reader.pos] & 0x80)
+	for (let i = 0; i < 8; i++) {
+		const byte = bytes[reader.pos + i]
+		view.setUint8(i, negative ? byte ^ 0xff : i === 0 ? byte ^ 0x80 : byte)
+	}
+	reader.pos += 8
+	return view.getFloat64(0)
+}
@@ -4,7 +4,9 @@ import * as elen from "elen"
 import { invert, isPlainObject, sortBy } from "lodash"
 import { Tuple, Value } from "../storage/types"
 import { compare } from "./compare"
+import { Descending } from "./descending"
 import { UnreachableError } from "./Unreachable"
+import { getValueType, getValueTypeByByte } from "./valueTypes"
 
 // null < object < array < number < string < boolean
 export const encodingByte = {
@@ -16,12 +18,22 @@ export const encodingByte = {
 	boolean: "g",
 } as const
 
-export type EncodingType = keyof typeof encodingByte
+// Descending values and custom value types go between strings and booleans.
+// There's no byte left in between so they share the boolean byte and "\x01"
+// and "\x02" sort before "false".
+const descendingPrefix = encodingByte.boolean + "\x01"
+const customPrefix = encodingByte.boolean + "\x02"
 
-export const encodingRank = sortBy(
-	Object.entries(encodingByte),
-	([key, value]) => value
-).map(([key]) => key as EncodingType)
+export type EncodingType = keyof typeof encodingByte | "descending" | "custom"
+
+export const encodingRank: EncodingType[] = [
+	...sortBy(Object.entries(encodingByte), ([key, value]) => value)
+		.map(([key]) => key as EncodingType)
+		.filter((key) => key !== "boolean"),
+	"descending",
+	"custom",
+	"boolean",
+]
 
 export function encodeValue(value: Value): string {
 	if (value === null) {
@@ -39,6 +51,17 @@ export function encodeValue(value: Value): string {
 	if (Array.isArray(value)) {
 		return encodingByte.array + encodeTuple(value)
 	}
+	if (value instanceof Descending) {
+		return descendingPrefix + invertEncoding(encodeTuple([value.value]))
+	}
+	const valueType = getValueType(value)
+	if (valueType) {
+		return (
+			customPrefix +
+			String.fromCharCode(valueType.byte) +
+			encodeValue(valueType.encode(value))
+		)
+	}
 	if (typeof value === "object") {
 		return encodingByte.object + encodeObjectValue(value)
 	}
@@ -61,6 +84,12 @@ export function encodingTypeOf(value: Value): EncodingType {
 	if (Array.isArray(value)) {
 		return "array"
 	}
+	if (value instanceof Descending) {
+		return "descending"
+	}
+	if (getValueType(value)) {
+		return "custom"
+	}
 	if (typeof value === "object") {
 		return "object"
 	}
@@ -72,7 +101,16 @@ const decodeType = invert(encodingByte) as {
 }
 
 export function decodeValue(str: string): Value {
-	const encoding: EncodingType = decodeType[str[0]]
+	if (str.startsWith(descendingPrefix)) {
+		const inverted = str.slice(descendingPrefix.length)
+		return new Descending(decodeTuple(revertEncoding(inverted))[0])
+	}
+	if (str.startsWith(customPrefix)) {
+		const valueType = getValueTypeByByte(str.charCodeAt(customPrefix.length))
+		return valueType.decode(decodeValue(str.slice(customPrefix.length + 1)))
+	}
+
+	const encoding = decodeType[str[0]]
 	const rest = str.slice(1)
 
 	if (encoding === "null") {
@@ -163,3 +201,49 @@ function decodeObjectValue(str: string) {
 	}
 	return obj
 }
+
+/**
+ * Invert an encoded tuple so that it sorts in the opposite order. This works
+ * because an encoded single-value tuple is never a prefix of another one.
+ *
+ * The result is ASCII so that storages comparing UTF-8 bytes agree with
+ * compareValue. Code units below 0x7d become a single character and the rest
+ * become "\x02" followed by three base-64 digits, which sorts before them.
+ */
+function invertEncoding(str: string) {
+	let result = ""
+	for (let i = 0; i < str.length; i++) {
+		const code = str.charCodeAt(i)
+		if (code < 0x7d) {
+			result += String.fromCharCode(0x7f - code)
+		} else {
+			const n = 0xffff - code
+			result +=
+				"\x02" +
+				String.fromCharCode(
+					0x40 + (n >> 12),
+					0x40 + ((n >> 6) & 0x3f),
+					0x40 + (n & 0x3f)
+				)
+		}
+	}
+	return result
+}
+
+function revertEncoding(str: string) {
+	let result = ""
+	for (let i = 0; i < str.length; i++) {
+		const code = str.charCodeAt(i)
+		if (code !== 0x02) {
+			result += String.fromCharCode(0x7f - code)
+		} else {
+			const n =
+				((str.charCodeAt(i + 1) - 0x40) << 12) |
+				((str.charCodeAt(i + 2) - 0x40) << 6) |
+				(str.charCodeAt(i + 3) - 0x40)
+			result += String.fromCharCode(0xffff - n)
+			i += 3
+		}
+	}
+	return result
+}
@@ -2,7 +2,9 @@ import { isPlainObject } from "lodash"
 import { Tuple, Value } from "../storage/types"
 import { encodingRank, encodingTypeOf } from "./codec"
 import { compare } from "./compare"
+import { Descending } from "./descending"
 import { UnreachableError } from "./Unreachable"
+import { compareCustomValue } from "./valueTypes"
 
 export function compareValue(a: Value, b: Value): number {
 	const at = encodingTypeOf(a)
@@ -12,10 +14,9 @@ export function compareValue(a: Value, b: Value): number {
 			return compareTuple(a as any, b as any)
 		} else if (at === "object") {
 			if (a === b) return 0
-			// TODO: prototype.compare for classes.
 			// NOTE: it's a bit contentious to allow for unsortable data inside a sorted array.
 			// But it is convenient at times to be able to do this sometimes and just assume that
-			// thee classes are unsorted.
+			// thee classes are unsorted. Use registerValueType to make a class sortable.
 			if (isPlainObject(a)) {
 				if (isPlainObject(b)) {
 					// Plain objects are ordered.
@@ -40,6 +41,10 @@ export function compareValue(a: Value, b: Value): number {
 			return compare(a as number, b as number)
 		} else if (at === "string") {
 			return compare(a as string, b as string)
+		} else if (at === "descending") {
+			return compareValue((b as Descending).value, (a as Descending).value)
+		} else if (at === "custom") {
+			return compareCustomValue(a, b)
 		} else {
 			throw new UnreachableError(at)
 		}
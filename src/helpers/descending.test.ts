@@ -0,0 +1,109 @@
+import { strict as assert } from "assert"
+import * as _ from "lodash"
+import { describe, it } from "mocha"
+import { Tuple, Value } from "../storage/types"
+import { sortedValues } from "../test/fixtures"
+import * as binaryCodec from "./binaryCodec"
+import * as codec from "./codec"
+import { compare } from "./compare"
+import { compareTuple, compareValue, TupleToString } from "./compareTuple"
+import { desc } from "./descending"
+import { parseJSON, stringifyJSON } from "./valueTypes"
+
+describe("Descending", () => {
+	const descendingValues = [...sortedValues].reverse().map(desc)
+
+	// Descending values sort between strings and booleans.
+	const values: Value[] = [
+		...sortedValues.slice(0, -2),
+		...descendingValues,
+		...sortedValues.slice(-2),
+	]
+
+	it("compareValue reverses the order", () => {
+		for (let i = 0; i < values.length; i++) {
+			for (let j = 0; j < values.length; j++) {
+				assert.equal(
+					compareValue(values[i], values[j]),
+					compare(i, j),
+					`${i} vs ${j}`
+				)
+			}
+		}
+	})
+
+	it("mixes with ascending components", () => {
+		const tuples = [
+			["a", desc(3), 1],
+			["a", desc(3), 2],
+			["a", desc(2), 1],
+			["a", desc(1), 1],
+			["b", desc(10), 1],
+		]
+		assert.deepEqual(_.shuffle(tuples).sort(compareTuple), tuples)
+	})
+
+	it("nested descending values", () => {
+		const tuples = [[desc([1, desc(1)])], [desc([1, desc(2)])], [desc([1])]]
+		assert.deepEqual(_.shuffle(tuples).sort(compareTuple), tuples)
+	})
+
+	const codecs = [
+		{ name: "codec", ...codec, compare },
+		{ name: "binaryCodec", ...binaryCodec, compare: binaryCodec.compareBytes },
+	]
+
+	for (const { name, encodeTuple, decodeTuple, compare } of codecs) {
+		describe(name, () => {
+			it("Encodes and decodes properly", () => {
+				for (const value of descendingValues) {
+					for (const tuple of [
+						[value],
+						[value, value],
+						[[value, null], desc(value)],
+						[{ a: value }],
+					]) {
+						assert.deepEqual(
+							decodeTuple(encodeTuple(tuple) as any),
+							tuple,
+							TupleToString(tuple)
+						)
+					}
+				}
+				// Every code unit except for lone surrogates.
+				const str =
+					_.range(0, 0xd800, 7)
+						.concat(_.range(0xe000, 0x10000, 7))
+						.map((code) => String.fromCharCode(code))
+						.join("") + "\ud83d\ude00"
+				assert.deepEqual(decodeTuple(encodeTuple([desc(str)]) as any), [
+					desc(str),
+				])
+			})
+
+			it("Encodes in the same order as compareTuple", () => {
+				const sample = (): Tuple =>
+					_.range(_.random(0, 3)).map(() => {
+						const value = values[_.random(values.length - 1)]
+						return Math.random() < 0.2 ? [value] : value
+					})
+
+				for (let iter = 0; iter < 5_000; iter++) {
+					const a = sample()
+					const b = sample()
+					assert.equal(
+						compare(encodeTuple(a) as any, encodeTuple(b) as any),
+						compareTuple(a, b),
+						`${TupleToString(a)} vs ${TupleToString(b)}`
+					)
+				}
+			})
+		})
+	}
+
+	it("stringifyJSON and parseJSON", () => {
+		const pair = { key: ["a", desc(1), desc([desc("b")])], value: null }
+		// Strict deepEqual also compares prototypes.
+		assert.deepEqual(parseJSON(stringifyJSON(pair)), pair)
+	})
+})
@@ -0,0 +1,18 @@
+import { Value } from "../storage/types"
+
+/**
+ * Wraps a tuple component so that it sorts in descending order. This lets you
+ * mix ascending and descending components in the same key. For example, a
+ * feed that lists the newest posts first: ["feed", username, desc(timestamp)]
+ */
+export class Descending<T extends Value = Value> {
+	constructor(public value: T) {}
+}
+
+/**
+ * Literal types are widened so that desc(1) matches Descending<number> in a
+ * schema. Use desc<"a">("a") for a string literal type.
+ */
+export function desc<T>(value: T & Value): Descending<Extract<T, Value>> {
+	return new Descending(value as Extract<T, Value>)
+}
@@ -0,0 +1,59 @@
+import { strict as assert } from "assert"
+import { describe, it } from "mocha"
+import {
+	intersectBounds,
+	isBoundsOverlappingBounds,
+} from "./isBoundsOverlappingBounds"
+import { Bounds } from "./sortedTupleArray"
+
+describe("isBoundsOverlappingBounds", () => {
+	const test = (a: Bounds, b: Bounds, expected: boolean) => {
+		const message = `${JSON.stringify(a)} ${JSON.stringify(b)}`
+		assert.equal(isBoundsOverlappingBounds(a, b), expected, message)
+		assert.equal(isBoundsOverlappingBounds(b, a), expected, message)
+	}
+
+	it("disjoint bounds", () => {
+		test({ gte: [0], lte: [1] }, { gte: [2], lte: [3] }, false)
+		test({ lt: [1] }, { gt: [2] }, false)
+	})
+
+	it("overlapping bounds", () => {
+		test({ gte: [0], lte: [2] }, { gte: [1], lte: [3] }, true)
+		test({ gte: [0], lte: [3] }, { gte: [1], lte: [2] }, true)
+		test({ lt: [2] }, { gt: [1] }, true)
+	})
+
+	it("touching bounds", () => {
+		test({ gte: [0], lte: [1] }, { gte: [1], lte: [2] }, true)
+		test({ gte: [0], lt: [1] }, { gte: [1], lte: [2] }, false)
+		test({ gte: [0], lte: [1] }, { gt: [1], lte: [2] }, false)
+		test({ gte: [0], lt: [1] }, { gt: [1], lte: [2] }, false)
+	})
+
+	it("unbounded", () => {
+		test({}, { gte: [1], lte: [2] }, true)
+		test({ gte: [1] }, { lte: [2] }, true)
+		test({ gte: [3] }, { lte: [2] }, false)
+	})
+})
+
+describe("intersectBounds", () => {
+	it("takes the tighter bounds", () => {
+		assert.deepEqual(
+			intersectBounds({ gte: [0], lte: [2] }, { gt: [1], lt: [3] }),
+			{ gt: [1], lte: [2] }
+		)
+		assert.deepEqual(intersectBounds({}, { gte: [1], lt: [3] }), {
+			gte: [1],
+			lt: [3],
+		})
+	})
+
+	it("exclusive bounds win a tie", () => {
+		assert.deepEqual(
+			intersectBounds({ gte: [1], lte: [2] }, { gt: [1], lt: [2] }),
+			{ gt: [1], lt: [2] }
+		)
+	})
+})
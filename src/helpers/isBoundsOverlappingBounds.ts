@@ -0,0 +1,51 @@
+import { compareTuple } from "./compareTuple"
+import { Bounds } from "./sortedTupleArray"
+
+/** Whether every tuple in `a` sorts before every tuple in `b`. */
+function isBoundsBeforeBounds(a: Bounds, b: Bounds) {
+	const end = a.lte || a.lt
+	const start = b.gte || b.gt
+	if (!end || !start) return false
+	const dir = compareTuple(end, start)
+	if (a.lte && b.gte) return dir === -1
+	return dir !== 1
+}
+
+export function isBoundsOverlappingBounds(a: Bounds, b: Bounds) {
+	return !isBoundsBeforeBounds(a, b) && !isBoundsBeforeBounds(b, a)
+}
+
+function maxLower(a: Bounds, b: Bounds): Bounds {
+	const aStart = a.gte || a.gt
+	const bStart = b.gte || b.gt
+	if (!aStart) return b
+	if (!bStart) return a
+	const dir = compareTuple(aStart, bStart)
+	if (dir === 1) return a
+	if (dir === -1) return b
+	// An exclusive bound is tighter.
+	return a.gt ? a : b
+}
+
+function minUpper(a: Bounds, b: Bounds): Bounds {
+	const aEnd = a.lte || a.lt
+	const bEnd = b.lte || b.lt
+	if (!aEnd) return b
+	if (!bEnd) return a
+	const dir = compareTuple(aEnd, bEnd)
+	if (dir === -1) return a
+	if (dir === 1) return b
+	return a.lt ? a : b
+}
+
+/** The bounds of tuples that are within both `a` and `b`. */
+export function intersectBounds(a: Bounds, b: Bounds): Bounds {
+	const lower = maxLower(a, b)
+	const upper = minUpper(a, b)
+	const bounds: Bounds = {}
+	if (lower.gte) bounds.gte = lower.gte
+	if (lower.gt) bounds.gt = lower.gt
+	if (upper.lte) bounds.lte = upper.lte
+	if (upper.lt) bounds.lt = upper.lt
+	return bounds
+}
@@ -3,5 +3,7 @@ import { WriteOps } from "../storage/types"
 export function isEmptyWrites(writes: WriteOps) {
 	if (writes.remove?.length) return false
 	if (writes.set?.length) return false
+	if (writes.clear?.length) return false
+	if (writes.atomic?.length) return false
 	return true
 }
@@ -0,0 +1,69 @@
+import { strict as assert } from "assert"
+import * as _ from "lodash"
+import { describe, it } from "mocha"
+import { KeyValuePair, ScanStorageArgs } from "../storage/types"
+import { iterateInBatches, iterateInBatchesAsync } from "./iterateInBatches"
+import * as tv from "./sortedTupleValuePairs"
+
+describe("iterateInBatches", () => {
+	const data: KeyValuePair[] = _.range(10).map((i) => ({
+		key: [i],
+		value: i,
+	}))
+
+	const argsList: ScanStorageArgs[] = [
+		{},
+		{ reverse: true },
+		{ gt: [2], lte: [8] },
+		{ gte: [2], lt: [8], reverse: true },
+		{ limit: 5 },
+		{ limit: 5, reverse: true },
+	]
+
+	it("works the same as scan", () => {
+		for (const args of argsList) {
+			const scans: ScanStorageArgs[] = []
+			const result = Array.from(
+				iterateInBatches(
+					(args) => {
+						scans.push(args)
+						return tv.scan(data, args)
+					},
+					args,
+					3
+				)
+			)
+			assert.deepEqual(result, tv.scan(data, args))
+			assert.ok(scans.every((scan) => scan.limit! <= 3))
+		}
+	})
+
+	it("works the same as scan async", async () => {
+		for (const args of argsList) {
+			const result: KeyValuePair[] = []
+			const iterable = iterateInBatchesAsync(
+				async (args) => tv.scan(data, args),
+				args,
+				3
+			)
+			for await (const pair of iterable) result.push(pair)
+			assert.deepEqual(result, tv.scan(data, args))
+		}
+	})
+
+	it("continues after the last key when the data changes", () => {
+		const list = [...data]
+		const result: KeyValuePair[] = []
+		for (const pair of iterateInBatches((args) => tv.scan(list, args), {}, 3)) {
+			result.push(pair)
+			if (pair.key[0] === 1) {
+				tv.remove(list, [0])
+				tv.set(list, [2.5], 2.5)
+			}
+		}
+		assert.deepEqual(
+			result.map(({ key }) => key[0]),
+			[0, 1, 2, 2.5, 3, 4, 5, 6, 7, 8, 9]
+		)
+	})
+})
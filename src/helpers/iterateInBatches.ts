@@ -0,0 +1,48 @@
+import { KeyValuePair, ScanStorageArgs } from "../storage/types"
+
+/**
+ * Continue the scan after the last key of the previous batch so that writes in
+ * between batches don't cause us to skip or repeat anything.
+ */
+function getNextBatchArgs(
+	args: ScanStorageArgs,
+	batch: KeyValuePair[]
+): ScanStorageArgs {
+	const { gt, gte, lt, lte, ...rest } = args
+	const last = batch[batch.length - 1].key
+	if (args.reverse) return { ...rest, gt, gte, lt: last }
+	return { ...rest, gt: last, lt, lte }
+}
+
+/** Iterate by scanning a batch at a time for storages that can't stream. */
+export function* iterateInBatches(
+	scan: (args: ScanStorageArgs) => KeyValuePair[],
+	args: ScanStorageArgs = {},
+	batchSize = 100
+): Generator<KeyValuePair> {
+	let remaining = args.limit || Infinity
+	while (remaining > 0) {
+		const limit = Math.min(batchSize, remaining)
+		const batch = scan({ ...args, limit })
+		for (const pair of batch) yield pair
+		remaining -= batch.length
+		if (batch.length < limit) return
+		args = getNextBatchArgs(args, batch)
+	}
+}
+
+export async function* iterateInBatchesAsync(
+	scan: (args: ScanStorageArgs) => Promise<KeyValuePair[]> | KeyValuePair[],
+	args: ScanStorageArgs = {},
+	batchSize = 100
+): AsyncGenerator<KeyValuePair> {
+	let remaining = args.limit || Infinity
+	while (remaining > 0) {
+		const limit = Math.min(batchSize, remaining)
+		const batch = await scan({ ...args, limit })
+		for (const pair of batch) yield pair
+		remaining -= batch.length
+		if (batch.length < limit) return
+		args = getNextBatchArgs(args, batch)
+	}
+}
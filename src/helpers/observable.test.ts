@@ -0,0 +1,196 @@
+import { strict as assert } from "assert"
+import { describe, it } from "mocha"
+import { createObservable, createWatcher, observableSymbol } from "./observable"
+
+function createEmitter<T>() {
+	let callback: ((value: T) => Promise<void> | void) | undefined
+	let unsubscribed = false
+	return {
+		subscribe(fn: (value: T) => Promise<void> | void) {
+			callback = fn
+			return () => {
+				unsubscribed = true
+			}
+		},
+		emit(value: T) {
+			return callback!(value)
+		},
+		get unsubscribed() {
+			return unsubscribed
+		},
+	}
+}
+
+describe("createWatcher", () => {
+	it("yields values in order", async () => {
+		const emitter = createEmitter<number>()
+		const watcher = createWatcher<number>((fn) => emitter.subscribe(fn))
+
+		emitter.emit(1)
+		const next = watcher.next()
+		emitter.emit(2)
+		emitter.emit(3)
+
+		assert.deepEqual(await next, { value: 1, done: false })
+		assert.deepEqual(await watcher.next(), { value: 2, done: false })
+		assert.deepEqual(await watcher.next(), { value: 3, done: false })
+	})
+
+	it("waits for a value", async () => {
+		const emitter = createEmitter<number>()
+		const watcher = createWatcher<number>((fn) => emitter.subscribe(fn))
+
+		const next = watcher.next()
+		emitter.emit(1)
+		assert.deepEqual(await next, { value: 1, done: false })
+	})
+
+	it("waits for the buffer to drain when it's full", async () => {
+		const emitter = createEmitter<number>()
+		const watcher = createWatcher<number>((fn) => emitter.subscribe(fn), 2)
+
+		assert.equal(emitter.emit(1), undefined)
+		const full = emitter.emit(2)
+		assert.ok(full instanceof Promise)
+
+		let drained = false
+		full.then(() => (drained = true))
+		await Promise.resolve()
+		assert.equal(drained, false)
+
+		await watcher.next()
+		await full
+		assert.equal(drained, true)
+	})
+
+	it("unsubscribes on return", async () => {
+		const emitter = createEmitter<number>()
+		const watcher = createWatcher<number>((fn) => emitter.subscribe(fn), 1)
+
+		const full = emitter.emit(1)
+		const next = watcher.next()
+		assert.deepEqual(await next, { value: 1, done: false })
+
+		const pending = watcher.next()
+		await watcher.return!()
+		await full
+		assert.equal(emitter.unsubscribed, true)
+		assert.deepEqual(await pending, { value: undefined, done: true })
+		assert.deepEqual(await watcher.next(), { value: undefined, done: true })
+	})
+
+	it("unsubscribes when breaking out of a for-await", async () => {
+		const emitter = createEmitter<number>()
+		const watcher = createWatcher<number>((fn) => emitter.subscribe(fn))
+
+		emitter.emit(1)
+		emitter.emit(2)
+		const values: number[] = []
+		for await (const value of watcher) {
+			values.push(value)
+			if (value === 2) break
+		}
+		assert.deepEqual(values, [1, 2])
+		assert.equal(emitter.unsubscribed, true)
+	})
+
+	it("rejects the pending next when an async subscribe rejects", async () => {
+		const watcher = createWatcher<number>(async () => {
+			throw new Error("fail")
+		})
+
+		await assert.rejects(watcher.next(), /fail/)
+		assert.deepEqual(await watcher.next(), { value: undefined, done: true })
+	})
+
+	it("rejects the next call when an async subscribe rejected before", async () => {
+		const watcher = createWatcher<number>(async () => {
+			throw new Error("fail")
+		})
+		await Promise.resolve()
+
+		await assert.rejects(watcher.next(), /fail/)
+		assert.deepEqual(await watcher.next(), { value: undefined, done: true })
+	})
+
+	it("unsubscribes once an async subscribe resolves", async () => {
+		const emitter = createEmitter<number>()
+		const watcher = createWatcher<number>(async (fn) => emitter.subscribe(fn))
+
+		await watcher.return!()
+		await Promise.resolve()
+		assert.equal(emitter.unsubscribed, true)
+	})
+})
+
+describe("createObservable", () => {
+	it("calls next with every value until unsubscribed", () => {
+		const emitter = createEmitter<number>()
+		const observable = createObservable<number>((next) =>
+			emitter.subscribe(next)
+		)
+
+		const values: number[] = []
+		const subscription = observable.subscribe((value) => values.push(value))
+		emitter.emit(1)
+		emitter.emit(2)
+		assert.deepEqual(values, [1, 2])
+
+		subscription.unsubscribe()
+		assert.equal(subscription.closed, true)
+		assert.equal(emitter.unsubscribed, true)
+		emitter.emit(3)
+		assert.deepEqual(values, [1, 2])
+	})
+
+	it("takes an observer object", () => {
+		const emitter = createEmitter<number>()
+		const observable = createObservable<number>((next) =>
+			emitter.subscribe(next)
+		)
+
+		const values: number[] = []
+		observable.subscribe({ next: (value) => values.push(value) })
+		emitter.emit(1)
+		assert.deepEqual(values, [1])
+	})
+
+	it("calls error when subscribing fails", async () => {
+		const observable = createObservable<number>(async () => {
+			throw new Error("fail")
+		})
+
+		let error: any
+		const subscription = observable.subscribe({ error: (e) => (error = e) })
+		await Promise.resolve()
+		await Promise.resolve()
+		assert.equal(error.message, "fail")
+		assert.equal(subscription.closed, true)
+	})
+
+	it("calls error and unsubscribes when it fails later on", () => {
+		const emitter = createEmitter<number>()
+		let fail: (error: any) => void = () => {}
+		const observable = createObservable<number>((next, error) => {
+			fail = error
+			return emitter.subscribe(next)
+		})
+
+		const errors: any[] = []
+		const subscription = observable.subscribe({
+			error: (e) => errors.push(e),
+		})
+		fail(new Error("fail"))
+		assert.deepEqual(
+			errors.map((e) => e.message),
+			["fail"]
+		)
+		assert.equal(subscription.closed, true)
+		assert.equal(emitter.unsubscribed, true)
+	})
+
+	it("is interoperable", () => {
+		const observable = createObservable<number>(() => () => {})
+		assert.equal((observable as any)[observableSymbol](), observable)
+	})
+})
@@ -0,0 +1,174 @@
+import { Unsubscribe } from "../database/types"
+
+/** Subscribes with a callback that may return a Promise to slow down commits. */
+type SubscribeFn<T> = (
+	callback: (value: T) => Promise<void> | void
+) => Unsubscribe | Promise<Unsubscribe>
+
+/** An AsyncIterable that unsubscribes when you break out of a for-await. */
+export type Watcher<T> = AsyncIterableIterator<T>
+
+/**
+ * Buffers values from a subscription until they're iterated. Once the buffer
+ * is full, the callback waits for it to drain which in turn makes commits wait
+ * for the consumer to catch up.
+ */
+export function createWatcher<T>(
+	subscribe: SubscribeFn<T>,
+	bufferSize = 100
+): Watcher<T> {
+	const buffer: T[] = []
+	const pulls: {
+		resolve: (result: IteratorResult<T>) => void
+		reject: (error: unknown) => void
+	}[] = []
+	let drains: (() => void)[] = []
+	let done = false
+	let failed: { error: unknown } | undefined
+	let unsubscribe: Unsubscribe | undefined
+
+	const drain = () => {
+		if (!done && buffer.length >= bufferSize) return
+		for (const resolve of drains) resolve()
+		drains = []
+	}
+
+	const subscribed = subscribe((value) => {
+		if (done) return
+		const pull = pulls.shift()
+		if (pull) return pull.resolve({ value, done: false })
+
+		buffer.push(value)
+		if (buffer.length < bufferSize) return
+		return new Promise<void>((resolve) => drains.push(resolve))
+	})
+	if (subscribed instanceof Promise) {
+		subscribed.then(
+			(fn) => {
+				unsubscribe = fn
+				if (done) fn()
+			},
+			(error) => {
+				if (done) return
+				done = true
+				// The pending next() rejects, otherwise the next one does.
+				if (pulls.length === 0) failed = { error }
+				for (const pull of pulls) pull.reject(error)
+				pulls.length = 0
+			}
+		)
+	} else {
+		unsubscribe = subscribed
+	}
+
+	const watcher: Watcher<T> = {
+		async next() {
+			if (buffer.length > 0) {
+				const value = buffer.shift()!
+				drain()
+				return { value, done: false }
+			}
+			if (failed) {
+				const { error } = failed
+				failed = undefined
+				throw error
+			}
+			if (done) return { value: undefined, done: true }
+			return new Promise<IteratorResult<T>>((resolve, reject) =>
+				pulls.push({ resolve, reject })
+			)
+		},
+		async return() {
+			done = true
+			buffer.length = 0
+			if (unsubscribe) unsubscribe()
+			drain()
+			for (const pull of pulls) pull.resolve({ value: undefined, done: true })
+			pulls.length = 0
+			return { value: undefined, done: true }
+		},
+		[Symbol.asyncIterator]() {
+			return watcher
+		},
+	}
+	return watcher
+}
+
+export type Observer<T> = {
+	next?: (value: T) => void
+	error?: (error: any) => void
+	complete?: () => void
+}
+
+export type ObservableSubscription = {
+	unsubscribe: () => void
+	readonly closed: boolean
+}
+
+/** Interoperable with RxJS and other libraries through Symbol.observable. */
+export type Observable<T> = {
+	subscribe: (
+		observer?: Observer<T> | ((value: T) => void)
+	) => ObservableSubscription
+}
+
+/** Libraries that polyfill Symbol.observable fall back to this string. */
+export const observableSymbol: symbol | string =
+	(typeof Symbol === "function" && (Symbol as any).observable) || "@@observable"
+
+/** The subscribe function can call error to fail the observable later on. */
+export function createObservable<T>(
+	subscribe: (
+		next: (value: T) => void,
+		error: (error: any) => void
+	) => Unsubscribe | Promise<Unsubscribe>
+): Observable<T> {
+	const observable = {
+		subscribe(observer?: Observer<T> | ((value: T) => void)) {
+			const { next, error }: Observer<T> =
+				typeof observer === "function" ? { next: observer } : observer || {}
+
+			let closed = false
+			let unsubscribe: Unsubscribe | undefined
+			const subscription: ObservableSubscription = {
+				get closed() {
+					return closed
+				},
+				unsubscribe() {
+					if (closed) return
+					closed = true
+					if (unsubscribe) unsubscribe()
+				},
+			}
+
+			const fail = (e: any) => {
+				if (closed) return
+				closed = true
+				if (unsubscribe) unsubscribe()
+				if (error) error(e)
+				else console.error(e)
+			}
+
+			try {
+				const subscribed = subscribe((value) => {
+					if (!closed && next) next(value)
+				}, fail)
+				if (subscribed instanceof Promise) {
+					subscribed.then((fn) => {
+						unsubscribe = fn
+						if (closed) fn()
+					}, fail)
+				} else {
+					unsubscribe = subscribed
+				}
+			} catch (e) {
+				fail(e)
+			}
+			return subscription
+		},
+		[observableSymbol]() {
+			return observable
+		},
+	}
+	return observable
+}
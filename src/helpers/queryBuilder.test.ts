@@ -73,4 +73,15 @@ describe("queryBuilder", () => {
 
 		console.log("RESULT", await db.scan())
 	})
+
+	it("cancels the transaction when the query throws", () => {
+		const tupleDb = new TupleDatabase(new InMemoryTupleStorage())
+		const db = new TupleDatabaseClient<TriplestoreSchema>(tupleDb)
+
+		const query = getNextOrder("chet", "color").map(() => {
+			throw new Error("Oops")
+		})
+		assert.throws(() => execute(db, query), /Oops/)
+		assert.equal(tupleDb.history.isPinned(), false)
+	})
 })
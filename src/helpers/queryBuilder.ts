@@ -64,39 +64,52 @@ export function execute<O, S extends KeyValuePair = KeyValuePair>(
 
 	let x: any = tx
 
-	for (const op of query.ops) {
-		if (op.fn === "subspace") {
-			x = x.subspace(...op.args)
-		}
-		if (op.fn === "scan") {
-			x = x.scan(...op.args)
-		}
-		if (op.fn === "write") {
-			x = x.write(...op.args)
-		}
+	try {
+		for (const op of query.ops) {
+			if (op.fn === "subspace") {
+				x = x.subspace(...op.args)
+			}
+			if (op.fn === "scan") {
+				x = x.scan(...op.args)
+			}
+			if (op.fn === "write") {
+				x = x.write(...op.args)
+			}
 
-		if (op.fn === "map") {
-			if (x instanceof Promise) {
-				x = x.then((x) => op.args[0](x))
-			} else {
-				x = op.args[0](x)
+			if (op.fn === "map") {
+				if (x instanceof Promise) {
+					x = x.then((x) => op.args[0](x))
+				} else {
+					x = op.args[0](x)
+				}
 			}
-		}
-		if (op.fn === "chain") {
-			if (x instanceof Promise) {
-				x = x.then((x) => execute(tx, op.args[0](x)))
-			} else {
-				x = execute(tx, op.args[0](x))
+			if (op.fn === "chain") {
+				if (x instanceof Promise) {
+					x = x.then((x) => execute(tx, op.args[0](x)))
+				} else {
+					x = execute(tx, op.args[0](x))
+				}
 			}
 		}
+	} catch (error) {
+		// Don't leave the transaction open when the query throws.
+		if (!isTx) tx.cancel()
+		throw error
 	}
 
 	if (!isTx) {
 		if (x instanceof Promise) {
-			x = x.then((x) => {
-				tx.commit()
-				return x
-			})
+			// Wait for the commit so that the next transaction's snapshot includes it.
+			x = x.then(
+				async (x) => {
+					await tx.commit()
+					return x
+				},
+				async (error) => {
+					await tx.cancel()
+					throw error
+				}
+			)
 		} else {
 			tx.commit()
 		}
@@ -2,7 +2,7 @@ import { strict as assert } from "assert"
 import * as _ from "lodash"
 import { describe, it } from "mocha"
 import { compare } from "./compare"
-import { remove, scan, set } from "./sortedList"
+import { iterate, remove, scan, set } from "./sortedList"
 
 describe("sortedList", () => {
 	it("inserts in correct order", () => {
@@ -413,4 +413,53 @@ describe("sortedList", () => {
 			assert.ok(error)
 		}
 	})
+
+	describe("iterate", () => {
+		it("iterate works the same as scan", () => {
+			const list = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9]
+			const argsList = [
+				{},
+				{ gt: 2, lt: 7 },
+				{ gte: 2, lte: 7 },
+				{ gt: 2, lte: 7, limit: 3 },
+				{ gte: 2, lt: 7, limit: 3, reverse: true },
+				{ reverse: true },
+			]
+			for (const args of argsList) {
+				assert.deepEqual(
+					Array.from(iterate(list, args, compare)),
+					scan(list, args, compare)
+				)
+			}
+		})
+
+		it("iterate continues after the list changes", () => {
+			const list = [0, 2, 4, 6, 8]
+			const result: number[] = []
+			for (const item of iterate(list, {}, compare)) {
+				result.push(item)
+				if (item === 2) {
+					// Before, current, and after.
+					set(list, 1, compare)
+					remove(list, 2, compare)
+					set(list, 3, compare)
+				}
+			}
+			assert.deepEqual(result, [0, 2, 3, 4, 6, 8])
+		})
+
+		it("iterate reverse continues after the list changes", () => {
+			const list = [0, 2, 4, 6, 8]
+			const result: number[] = []
+			for (const item of iterate(list, { reverse: true }, compare)) {
+				result.push(item)
+				if (item === 6) {
+					set(list, 7, compare)
+					remove(list, 6, compare)
+					set(list, 5, compare)
+				}
+			}
+			assert.deepEqual(result, [8, 6, 5, 4, 2, 0])
+		})
+	})
 })
@@ -88,3 +88,71 @@ export function scan<T>(list: T[], args: ScanArgs<T>, cmp: Compare<T>) {
 		? list.slice(lowerDataBound, upperDataBound).reverse()
 		: list.slice(lowerDataBound, upperDataBound)
 }
+
+/**
+ * Same as scan except lazy. The list can be modified while iterating and we'll
+ * pick up after the last item that was yielded.
+ */
+export function* iterate<T>(
+	list: T[],
+	args: ScanArgs<T>,
+	cmp: Compare<T>
+): Generator<T> {
+	const start = args.gte ?? args.gt
+	const end = args.lte ?? args.lt
+
+	if (start !== undefined && end !== undefined && cmp(start, end) > 0) {
+		throw new Error("Invalid bounds.")
+	}
+
+	// Index of the first item after (or equal to) the given item.
+	const indexAfter = (item: T, inclusive: boolean) => {
+		const { found, closest } = binarySearch(list, item, cmp)
+		if (found === undefined) return closest
+		return inclusive ? found : found + 1
+	}
+
+	// Index of the last item before (or equal to) the given item.
+	const indexBefore = (item: T, inclusive: boolean) => {
+		const { found, closest } = binarySearch(list, item, cmp)
+		if (found === undefined) return closest - 1
+		return inclusive ? found : found - 1
+	}
+
+	const isWithinBounds = (item: T) => {
+		if (args.gt !== undefined && cmp(item, args.gt) <= 0) return false
+		if (args.gte !== undefined && cmp(item, args.gte) < 0) return false
+		if (args.lt !== undefined && cmp(item, args.lt) >= 0) return false
+		if (args.lte !== undefined && cmp(item, args.lte) > 0) return false
+		return true
+	}
+
+	const limit = args.limit || Infinity
+	let last: { item: T; index: number } | undefined
+	for (let count = 0; count < limit; count++) {
+		let index: number
+		if (last && list[last.index] === last.item) {
+			index = args.reverse ? last.index - 1 : last.index + 1
+		} else if (last) {
+			// The list changed so we need to find our place again.
+			index = args.reverse
+				? indexBefore(last.item, false)
+				: indexAfter(last.item, false)
+		} else if (args.reverse) {
+			index =
+				end === undefined
+					? list.length - 1
+					: indexBefore(end, args.lte !== undefined)
+		} else {
+			index =
+				start === undefined ? 0 : indexAfter(start, args.gte !== undefined)
+		}
+
+		if (index < 0 || index >= list.length) return
+		const item = list[index]
+		if (!isWithinBounds(item)) return
+
+		last = { item, index }
+		yield item
+	}
+}
@@ -70,3 +70,16 @@ export function scan(data: KeyValuePair[], args: ScanArgs<Tuple, any> = {}) {
 		compareTupleValuePair
 	)
 }
+
+export function iterate(
+	data: KeyValuePair[],
+	args: ScanArgs<Tuple, any> = {}
+): Generator<KeyValuePair> {
+	const { limit, reverse, ...rest } = args
+	const bounds = normalizeTupleValuePairBounds(rest)
+	return sortedList.iterate(
+		data,
+		{ limit, reverse, ...bounds },
+		compareTupleValuePair
+	)
+}
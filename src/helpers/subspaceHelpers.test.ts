@@ -27,6 +27,25 @@ describe("subspaceHelpers", () => {
 				}
 			)
 		})
+		it("prepends the prefix to clear bounds", () => {
+			assert.deepEqual(
+				prependPrefixToWriteOps(["x"], { clear: [{ gte: ["a"], lt: ["b"] }] }),
+				{
+					set: undefined,
+					remove: undefined,
+					clear: [{ gte: ["x", "a"], lt: ["x", "b"] }],
+				}
+			)
+		})
+		it("keeps open ended clear bounds within the subspace", () => {
+			assert.deepEqual(
+				prependPrefixToWriteOps(["x"], { clear: [{}, { gte: ["a"] }] }).clear,
+				[
+					{ gte: ["x"], lte: ["x", ...MaxTuple] },
+					{ gte: ["x", "a"], lte: ["x", ...MaxTuple] },
+				]
+			)
+		})
 	})
 
 	describe("removePrefixFromWrites", () => {
@@ -48,6 +67,18 @@ describe("subspaceHelpers", () => {
 				}
 			)
 		})
+		it("removes the prefix from clear bounds", () => {
+			assert.deepEqual(
+				removePrefixFromWriteOps(["x"], {
+					clear: [{ gt: ["x", "a"], lte: ["x", "b"] }],
+				}),
+				{
+					set: undefined,
+					remove: undefined,
+					clear: [{ gt: ["a"], lte: ["b"] }],
+				}
+			)
+		})
 		it("throws if its the wrong prefix", () => {
 			assert.throws(() => {
 				removePrefixFromWriteOps(["y"], {
@@ -1,12 +1,12 @@
 import { isEqual, omitBy } from "lodash"
-import { ScanArgs } from "../database/types"
+import { Change, ScanArgs } from "../database/types"
 import {
 	KeyValuePair,
 	ScanStorageArgs,
 	Tuple,
 	WriteOps,
 } from "../storage/types"
-import { normalizeTupleBounds } from "./sortedTupleArray"
+import { Bounds, normalizeTupleBounds } from "./sortedTupleArray"
 
 export function prependPrefixToTuple(prefix: Tuple, tuple: Tuple): Tuple {
 	return [...prefix, ...tuple]
@@ -46,7 +46,20 @@ export function prependPrefixToWriteOps(
 		? prependPrefixToTuples(prefix, writes.remove)
 		: undefined
 
-	return { set, remove }
+	const result: WriteOps = { set, remove }
+	if (writes.clear) {
+		// Open ended bounds would reach outside of the subspace otherwise.
+		result.clear = writes.clear.map((bounds) =>
+			normalizeSubspaceScanArgs(prefix, bounds)
+		)
+	}
+	if (writes.atomic) {
+		result.atomic = writes.atomic.map(({ key, ...rest }) => ({
+			key: prependPrefixToTuple(prefix, key),
+			...rest,
+		}))
+	}
+	return result
 }
 
 export function removePrefixFromWriteOps(
@@ -61,7 +74,42 @@ export function removePrefixFromWriteOps(
 		? removePrefixFromTuples(prefix, writes.remove)
 		: undefined
 
-	return { set, remove }
+	const result: WriteOps = { set, remove }
+	if (writes.clear) {
+		result.clear = writes.clear.map((bounds) =>
+			removePrefixFromBounds(prefix, bounds)
+		)
+	}
+	if (writes.atomic) {
+		result.atomic = writes.atomic.map(({ key, ...rest }) => ({
+			key: removePrefixFromTuple(prefix, key),
+			...rest,
+		}))
+	}
+	return result
+}
+
+export function removePrefixFromChanges(
+	prefix: Tuple,
+	changes: Change[]
+): Change[] {
+	return changes.map(({ key, ...rest }) => ({
+		key: removePrefixFromTuple(prefix, key),
+		...rest,
+	}))
+}
+
+function mapBounds(bounds: Bounds, fn: (tuple: Tuple) => Tuple): Bounds {
+	const result: Bounds = {}
+	if (bounds.gt) result.gt = fn(bounds.gt)
+	if (bounds.gte) result.gte = fn(bounds.gte)
+	if (bounds.lt) result.lt = fn(bounds.lt)
+	if (bounds.lte) result.lte = fn(bounds.lte)
+	return result
+}
+
+function removePrefixFromBounds(prefix: Tuple, bounds: Bounds): Bounds {
+	return mapBounds(bounds, (tuple) => removePrefixFromTuple(prefix, tuple))
 }
 
 export function removePrefixFromTuple(prefix: Tuple, tuple: Tuple) {
@@ -75,7 +123,7 @@ function removePrefixFromTuples(prefix: Tuple, tuples: Tuple[]) {
 	return tuples.map((tuple) => removePrefixFromTuple(prefix, tuple))
 }
 
-function removePrefixFromTupleValuePair(
+export function removePrefixFromTupleValuePair(
 	prefix: Tuple,
 	pair: KeyValuePair
 ): KeyValuePair {
@@ -0,0 +1,157 @@
+import { strict as assert } from "assert"
+import * as _ from "lodash"
+import { after, before, describe, it } from "mocha"
+import { Tuple, Value } from "../storage/types"
+import { sortedValues } from "../test/fixtures"
+import * as binaryCodec from "./binaryCodec"
+import * as codec from "./codec"
+import { compare } from "./compare"
+import { compareTuple, compareValue } from "./compareTuple"
+import { parseJSON, registerValueType, stringifyJSON } from "./valueTypes"
+
+class Uuid {
+	constructor(public id: string) {}
+}
+
+describe("valueTypes", () => {
+	const unregister: Array<() => void> = []
+
+	before(() => {
+		unregister.push(
+			registerValueType<Date>({
+				byte: 1,
+				is: (value) => value instanceof Date,
+				encode: (date) => date.getTime(),
+				decode: (time) => new Date(time as number),
+				compare: (a, b) => compare(a.getTime(), b.getTime()),
+			}),
+			registerValueType<Uint8Array>({
+				byte: 2,
+				is: (value) => value instanceof Uint8Array,
+				encode: (bytes) => Array.from(bytes),
+				decode: (array) => Uint8Array.from(array as number[]),
+				compare: binaryCodec.compareBytes,
+			}),
+			registerValueType<Uuid>({
+				byte: 3,
+				is: (value) => value instanceof Uuid,
+				encode: (uuid) => uuid.id,
+				decode: (id) => new Uuid(id as string),
+				compare: (a, b) => compare(a.id, b.id),
+			})
+		)
+	})
+
+	after(() => {
+		for (const fn of unregister) fn()
+	})
+
+	// Custom types sort between strings and booleans, then by byte.
+	const customValues: Value[] = [
+		new Date(-1000),
+		new Date(0),
+		new Date(1000),
+		new Uint8Array([]),
+		new Uint8Array([0]),
+		new Uint8Array([0, 0]),
+		new Uint8Array([1]),
+		new Uuid(""),
+		new Uuid("a"),
+		new Uuid("b"),
+	]
+	const values = [
+		...sortedValues.slice(0, -2),
+		...customValues,
+		...sortedValues.slice(-2),
+	]
+
+	it("compareValue sorts custom types", () => {
+		for (let i = 0; i < values.length; i++) {
+			for (let j = 0; j < values.length; j++) {
+				assert.equal(
+					compareValue(values[i], values[j]),
+					compare(i, j),
+					`${i} vs ${j}`
+				)
+			}
+		}
+		assert.deepEqual(_.shuffle(values).sort(compareValue), values)
+	})
+
+	it("cannot register the same byte twice", () => {
+		assert.throws(() =>
+			registerValueType({
+				byte: 1,
+				is: () => false,
+				encode: () => null,
+				decode: () => null,
+				compare: () => 0,
+			})
+		)
+	})
+
+	const codecs = [
+		{ name: "codec", ...codec, compare },
+		{ name: "binaryCodec", ...binaryCodec, compare: binaryCodec.compareBytes },
+	]
+
+	for (const { name, encodeTuple, decodeTuple, compare } of codecs) {
+		describe(name, () => {
+			it("Encodes and decodes properly", () => {
+				for (const value of customValues) {
+					for (const tuple of [[value], [[value, null]], [{ a: value }, 1]]) {
+						assert.deepEqual(decodeTuple(encodeTuple(tuple) as any), tuple)
+					}
+				}
+			})
+
+			it("Encodes in the same order as compareTuple", () => {
+				const sample = (): Tuple =>
+					_.range(_.random(0, 3)).map(() =>
+						Math.random() < 0.2
+							? [values[_.random(values.length - 1)]]
+							: values[_.random(values.length - 1)]
+					)
+
+				for (let iter = 0; iter < 5_000; iter++) {
+					const a = sample()
+					const b = sample()
+					assert.equal(
+						compare(encodeTuple(a) as any, encodeTuple(b) as any),
+						compareTuple(a, b)
+					)
+				}
+			})
+		})
+	}
+
+	it("stringifyJSON and parseJSON", () => {
+		const pair = { key: ["a", new Date(1000)], value: { id: new Uuid("b") } }
+		const str = stringifyJSON(pair)
+		assert.deepEqual(JSON.parse(str), {
+			key: ["a", { $valueType: 1, value: 1000 }],
+			value: { id: { $valueType: 3, value: "b" } },
+		})
+		assert.deepEqual(parseJSON(str), pair)
+	})
+
+	it("parseJSON doesn't mistake objects for tags", () => {
+		const pair = {
+			key: ["a", { $descending: 1 }, { $valueType: 1, value: 1000 }],
+			value: { $: 1, $$a: { $descending: true }, b: 2 },
+		}
+		const str = stringifyJSON(pair)
+		assert.deepEqual(JSON.parse(str), {
+			key: ["a", { $$descending: 1 }, { $$valueType: 1, value: 1000 }],
+			value: { $$: 1, $$$a: { $$descending: true }, b: 2 },
+		})
+		assert.deepEqual(parseJSON(str), pair)
+	})
+
+	it("parseJSON reads older versions as plain JSON", () => {
+		assert.deepEqual(parseJSON(`{"$descending":1,"$$a":2}`, 1), {
+			$descending: 1,
+			$$a: 2,
+		})
+	})
+})
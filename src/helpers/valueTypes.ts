@@ -0,0 +1,127 @@
+import { isPlainObject, mapKeys } from "lodash"
+import { Value } from "../storage/types"
+import { compare } from "./compare"
+import { Descending } from "./descending"
+
+/**
+ * A custom type that can be used inside of a tuple, such as a Date.
+ *
+ * Custom types sort after strings and before booleans so that MIN and MAX still
+ * bound every tuple. Different custom types are sorted by their byte.
+ */
+export type ValueType<T = any> = {
+	/** Uniquely identifies the type in encoded tuples. An integer from 0 to 255. */
+	byte: number
+	/** Only called for values that aren't JSON so it's safe to use instanceof. */
+	is: (value: unknown) => boolean
+	/** Encode into a JSON value that sorts the same as `compare`. */
+	encode: (value: T) => Value
+	decode: (value: Value) => T
+	compare: (a: T, b: T) => number
+}
+
+const valueTypes = new Map<number, ValueType>()
+
+/**
+ * Register a custom type with the codecs and compareTuple. Returns a function
+ * to unregister it.
+ */
+export function registerValueType<T>(valueType: ValueType<T>) {
+	const { byte } = valueType
+	if (!Number.isInteger(byte) || byte < 0 || byte > 255) {
+		throw new Error(`Invalid value type byte: ${byte}`)
+	}
+	if (valueTypes.has(byte)) {
+		throw new Error(`Value type byte ${byte} is already registered.`)
+	}
+	valueTypes.set(byte, valueType)
+	return () => {
+		if (valueTypes.get(byte) === valueType) valueTypes.delete(byte)
+	}
+}
+
+export function getValueType(value: unknown): ValueType | undefined {
+	if (valueTypes.size === 0) return
+	if (value === null || Array.isArray(value) || isPlainObject(value)) return
+	const type = typeof value
+	if (type === "string" || type === "number" || type === "boolean") return
+	for (const valueType of valueTypes.values()) {
+		if (valueType.is(value)) return valueType
+	}
+}
+
+export function getValueTypeByByte(byte: number) {
+	const valueType = valueTypes.get(byte)
+	if (!valueType) throw new Error(`Unknown value type byte: ${byte}`)
+	return valueType
+}
+
+export function compareCustomValue(a: unknown, b: unknown) {
+	const at = getValueType(a)!
+	const bt = getValueType(b)!
+	if (at !== bt) return compare(at.byte, bt.byte)
+	return at.compare(a, b)
+}
+
+/*
+
+JSON storages use these to serialize custom types as {$valueType, value} and
+descending values as {$descending: value}. Object keys that start with $ get
+another $ in front so that they're never mistaken for one of these.
+
+Data that was stored before then is plain JSON, so storages keep track of the
+version that they wrote and parse older data without any of this.
+
+*/
+
+/** The version of the format that stringifyJSON writes. */
+export const jsonVersion = 2
+
+const valueTypeKey = "$valueType"
+const descendingKey = "$descending"
+
+function escapeKeys(object: object) {
+	if (!Object.keys(object).some((key) => key.startsWith("$"))) return object
+	return mapKeys(object, (_value, key) =>
+		key.startsWith("$") ? "$" + key : key
+	)
+}
+
+function unescapeKeys(object: object) {
+	if (!Object.keys(object).some((key) => key.startsWith("$"))) return object
+	return mapKeys(object, (_value, key) =>
+		key.startsWith("$") ? key.slice(1) : key
+	)
+}
+
+export function stringifyJSON(value: any) {
+	return JSON.stringify(value, function (key, encoded) {
+		// Use the original value because toJSON has already been called.
+		const original = this[key]
+		if (original instanceof Descending) {
+			return { [descendingKey]: original.value }
+		}
+		if (isPlainObject(encoded)) return escapeKeys(encoded)
+		const valueType = getValueType(original)
+		if (!valueType) return encoded
+		return { [valueTypeKey]: valueType.byte, value: valueType.encode(original) }
+	})
+}
+
+export function parseJSON(str: string, version = jsonVersion) {
+	if (version < jsonVersion) return JSON.parse(str)
+	return JSON.parse(str, (key, value) => {
+		if (!isPlainObject(value)) return value
+		if (descendingKey in value && Object.keys(value).length === 1) {
+			return new Descending(value[descendingKey])
+		}
+		if (
+			typeof value[valueTypeKey] === "number" &&
+			Object.keys(value).length === 2 &&
+			"value" in value
+		) {
+			return getValueTypeByByte(value[valueTypeKey]).decode(value.value)
+		}
+		return unescapeKeys(value)
+	})
+}
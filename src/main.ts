@@ -2,15 +2,32 @@ export * from "./database/async/AsyncTupleDatabase"
 export * from "./database/async/AsyncTupleDatabaseClient"
 export * from "./database/async/asyncTypes"
 export * from "./database/async/subscribeQueryAsync"
+export * from "./database/async/subscribeScanAsync"
 export * from "./database/async/transactionalReadWriteAsync"
+export * from "./database/async/transactionalWriteAsync"
+export { ReadWriteConflictError } from "./database/ConcurrencyLog"
+export * from "./database/ConflictTracer"
+export type { RetryInfo, RetryPolicy } from "./database/retryPolicy"
 export * from "./database/sync/subscribeQuery"
+export * from "./database/sync/subscribeScan"
 export * from "./database/sync/transactionalReadWrite"
 export * from "./database/sync/TupleDatabase"
 export * from "./database/sync/TupleDatabaseClient"
 export * from "./database/sync/types"
 export * from "./database/transactionalWrite"
+export { TransactionExpiredError } from "./database/TransactionExpiry"
 export type { SchemaSubspace } from "./database/typeHelpers"
 export * from "./database/types"
+export * from "./helpers/descending"
 export * from "./helpers/namedTupleToObject"
+export type {
+	Observable,
+	ObservableSubscription,
+	Observer,
+	Watcher,
+} from "./helpers/observable"
+export { registerValueType } from "./helpers/valueTypes"
+export type { ValueType } from "./helpers/valueTypes"
+export * from "./storage/BTreeTupleStorage"
 export * from "./storage/InMemoryTupleStorage"
 export * from "./storage/types"
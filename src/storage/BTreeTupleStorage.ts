@@ -0,0 +1,44 @@
+import { TupleStorageApi } from "../database/sync/types"
+import { BTree } from "../helpers/BTree"
+import { compareTuple } from "../helpers/compareTuple"
+import { KeyValuePair, ScanStorageArgs, Tuple, WriteOps } from "./types"
+
+/**
+ * Same as InMemoryTupleStorage except that the data lives in a B+tree so that
+ * writes don't slow down as the database grows.
+ */
+export class BTreeTupleStorage implements TupleStorageApi {
+	data: BTree<Tuple, any>
+
+	constructor(data?: KeyValuePair[]) {
+		this.data = new BTree(compareTuple)
+		for (const { key, value } of data || []) {
+			this.data.set(key, value)
+		}
+	}
+
+	scan(args: ScanStorageArgs = {}): KeyValuePair[] {
+		return this.data.scan(args)
+	}
+
+	iterate(args: ScanStorageArgs = {}): Iterable<KeyValuePair> {
+		return this.data.iterate(args)
+	}
+
+	commit(writes: WriteOps) {
+		const { set, remove, clear } = writes
+		for (const bounds of clear || []) {
+			for (const { key } of this.data.scan(bounds)) {
+				this.data.delete(key)
+			}
+		}
+		for (const tuple of remove || []) {
+			this.data.delete(tuple)
+		}
+		for (const { key, value } of set || []) {
+			this.data.set(key, value)
+		}
+	}
+
+	close() {}
+}
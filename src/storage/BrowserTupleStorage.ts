@@ -1,17 +1,24 @@
 import { TupleStorageApi } from "../database/sync/types"
+import { jsonVersion, parseJSON, stringifyJSON } from "../helpers/valueTypes"
 import { InMemoryTupleStorage } from "./InMemoryTupleStorage"
-import { WriteOps } from "./types"
+import { KeyValuePair, WriteOps } from "./types"
+
+type SavedData = { version: number; data: KeyValuePair[] }
 
 function load(key: string) {
 	const result = localStorage.getItem(key)
 	if (!result) return
 	try {
-		return JSON.parse(result)
+		// Older versions saved the data by itself as plain JSON.
+		if (result.startsWith("[")) return parseJSON(result, 1)
+		const saved: SavedData = parseJSON(result)
+		return saved.data
 	} catch (error) {}
 }
 
-function save(key: string, value: any) {
-	localStorage.setItem(key, JSON.stringify(value))
+function save(key: string, data: KeyValuePair[]) {
+	const saved: SavedData = { version: jsonVersion, data }
+	localStorage.setItem(key, stringifyJSON(saved))
 }
 
 export class BrowserTupleStorage
@@ -0,0 +1,846 @@
+import { createHash } from "crypto"
+import * as fs from "fs-extra"
+import * as path from "path"
+import { AsyncTupleStorageApi } from "../database/async/asyncTypes"
+import {
+	decodeTuple,
+	decodeValue,
+	encodeTuple,
+	encodeValue,
+} from "../helpers/codec"
+import { compare } from "../helpers/compare"
+import { iterateInBatchesAsync } from "../helpers/iterateInBatches"
+import { Queue } from "../helpers/Queue"
+import { CorruptFileError } from "./FileTupleStorage"
+import { KeyValuePair, ScanStorageArgs, WriteOps } from "./types"
+
+/*
+
+A page-based B+tree stored in a single file without any native dependencies.
+
+The file is an array of fixed-size pages. Page 0 is the header and every other
+page is either part of a tree node or on the free list. Each node is JSON and
+if it doesn't fit in a single page, it spills over into a chain of pages.
+
+Keys are compared using the encodeTuple string ordering, same as the other
+storage layers that encode tuples.
+
+Commits are atomic using a rollback journal: before we overwrite a page, we
+save its original contents to the journal. If we crash part way through a
+commit, the journal is played back the next time we open the file.
+
+*/
+
+const magic = "tuple-db-btree"
+const version = 1
+
+// [next page in chain, payload length]
+const pageHeaderSize = 8
+
+// [page size, page count, record count, md5 of records]
+const journalHeaderSize = 28
+
+type FileHeader = {
+	pageSize: number
+	pageCount: number
+	/** Page of the root node. */
+	root: number
+	/** First page of the free list, or 0 if there are no free pages. */
+	freeHead: number
+}
+
+function encodeFileHeader(header: FileHeader) {
+	const page = Buffer.alloc(header.pageSize)
+	page.write(magic, 0, "ascii")
+	page.writeUInt32BE(version, 16)
+	page.writeUInt32BE(header.pageSize, 20)
+	page.writeUInt32BE(header.pageCount, 24)
+	page.writeUInt32BE(header.root, 28)
+	page.writeUInt32BE(header.freeHead, 32)
+	return page
+}
+
+function decodeFileHeader(filePath: string, page: Buffer): FileHeader {
+	if (page.toString("ascii", 0, magic.length) !== magic) {
+		throw new CorruptFileError(filePath, "Not a B-tree database file.")
+	}
+	const fileVersion = page.readUInt32BE(16)
+	if (fileVersion !== version) {
+		throw new CorruptFileError(filePath, `Unknown version ${fileVersion}.`)
+	}
+	return {
+		pageSize: page.readUInt32BE(20),
+		pageCount: page.readUInt32BE(24),
+		root: page.readUInt32BE(28),
+		freeHead: page.readUInt32BE(32),
+	}
+}
+
+function md5(data: Buffer) {
+	return createHash("md5").update(data).digest()
+}
+
+async function fsyncDirectory(dirPath: string) {
+	// Not every platform lets you open a directory.
+	try {
+		const fd = await fs.open(dirPath, "r")
+		try {
+			await fs.fsync(fd)
+		} finally {
+			await fs.close(fd)
+		}
+	} catch (error) {}
+}
+
+/** Reads and writes pages, manages the free list, and makes commits atomic. */
+class Pager {
+	private constructor(
+		private filePath: string,
+		private fd: number,
+		public header: FileHeader
+	) {
+		this.committedHeader = { ...header }
+	}
+
+	/** The header as of the last commit. */
+	private committedHeader: FileHeader
+
+	/** Pages written since the last commit. */
+	private dirty = new Map<number, Buffer>()
+
+	get pageSize() {
+		return this.header.pageSize
+	}
+
+	private get journalPath() {
+		return this.filePath + "-journal"
+	}
+
+	static async open(filePath: string, pageSize: number) {
+		await fs.mkdirp(path.dirname(filePath))
+
+		let fd: number
+		try {
+			fd = await fs.open(filePath, "r+")
+		} catch (error) {
+			if (error.code !== "ENOENT") throw error
+			fd = await fs.open(filePath, "w+")
+		}
+
+		try {
+			await Pager.recoverJournal(filePath, fd)
+
+			const { size } = await fs.fstat(fd)
+			if (size === 0) {
+				// Page 0 is reserved for the header.
+				const header = { pageSize, pageCount: 1, root: 0, freeHead: 0 }
+				const pager = new Pager(filePath, fd, header)
+				// Nothing has been written yet so there is nothing to journal.
+				pager.committedHeader.pageCount = 0
+				return { pager, created: true }
+			}
+
+			const page = Buffer.alloc(36)
+			await fs.read(fd, page, 0, page.length, 0)
+			const header = decodeFileHeader(filePath, page)
+			return { pager: new Pager(filePath, fd, header), created: false }
+		} catch (error) {
+			await fs.close(fd)
+			throw error
+		}
+	}
+
+	/**
+	 * If there is a journal, then we crashed in the middle of a commit and need
+	 * to restore the original pages. If the journal itself is incomplete, then
+	 * we never started writing to the database file and it can be ignored.
+	 */
+	private static async recoverJournal(filePath: string, fd: number) {
+		const journalPath = filePath + "-journal"
+		if (!(await fs.pathExists(journalPath))) return
+
+		const journal = await fs.readFile(journalPath)
+		if (journal.length >= journalHeaderSize) {
+			const pageSize = journal.readUInt32BE(0)
+			const pageCount = journal.readUInt32BE(4)
+			const recordCount = journal.readUInt32BE(8)
+			const checksum = journal.subarray(12, journalHeaderSize)
+			const records = journal.subarray(journalHeaderSize)
+
+			const complete =
+				records.length === recordCount * (4 + pageSize) &&
+				md5(records).equals(checksum)
+
+			if (complete) {
+				for (let i = 0; i < recordCount; i++) {
+					const offset = i * (4 + pageSize)
+					const pageNumber = records.readUInt32BE(offset)
+					await fs.write(
+						fd,
+						records,
+						offset + 4,
+						pageSize,
+						pageNumber * pageSize
+					)
+				}
+				await fs.ftruncate(fd, pageCount * pageSize)
+				await fs.fsync(fd)
+			}
+		}
+
+		await fs.remove(journalPath)
+		await fsyncDirectory(path.dirname(filePath))
+	}
+
+	async read(pageNumber: number) {
+		const dirty = this.dirty.get(pageNumber)
+		if (dirty) return dirty
+
+		const page = Buffer.alloc(this.pageSize)
+		await fs.read(this.fd, page, 0, this.pageSize, pageNumber * this.pageSize)
+		return page
+	}
+
+	write(pageNumber: number, page: Buffer) {
+		this.dirty.set(pageNumber, page)
+	}
+
+	async allocate() {
+		const { freeHead } = this.header
+		if (freeHead === 0) {
+			return this.header.pageCount++
+		}
+		const page = await this.read(freeHead)
+		this.header.freeHead = page.readUInt32BE(0)
+		return freeHead
+	}
+
+	free(pageNumber: number) {
+		const page = Buffer.alloc(this.pageSize)
+		page.writeUInt32BE(this.header.freeHead, 0)
+		this.write(pageNumber, page)
+		this.header.freeHead = pageNumber
+	}
+
+	async commit() {
+		this.write(0, encodeFileHeader(this.header))
+		const pageNumbers = Array.from(this.dirty.keys()).sort(compare)
+
+		// Save the original contents of every page we're about to overwrite.
+		const { pageSize, pageCount } = this.committedHeader
+		const records: Buffer[] = []
+		for (const pageNumber of pageNumbers) {
+			if (pageNumber >= pageCount) continue
+			const record = Buffer.alloc(4 + pageSize)
+			record.writeUInt32BE(pageNumber, 0)
+			await fs.read(this.fd, record, 4, pageSize, pageNumber * pageSize)
+			records.push(record)
+		}
+		const body = Buffer.concat(records)
+		const journalHeader = Buffer.alloc(journalHeaderSize)
+		journalHeader.writeUInt32BE(pageSize, 0)
+		journalHeader.writeUInt32BE(pageCount, 4)
+		journalHeader.writeUInt32BE(records.length, 8)
+		md5(body).copy(journalHeader, 12)
+
+		const journal = await fs.open(this.journalPath, "w")
+		try {
+			await fs.write(journal, Buffer.concat([journalHeader, body]))
+			await fs.fsync(journal)
+		} finally {
+			await fs.close(journal)
+		}
+		await fsyncDirectory(path.dirname(this.filePath))
+
+		for (const pageNumber of pageNumbers) {
+			await this.flushPage(pageNumber, this.dirty.get(pageNumber)!)
+		}
+		await fs.fsync(this.fd)
+
+		// Deleting the journal is what commits the transaction.
+		await fs.remove(this.journalPath)
+		await fsyncDirectory(path.dirname(this.filePath))
+
+		this.dirty.clear()
+		this.committedHeader = { ...this.header }
+	}
+
+	private async flushPage(pageNumber: number, page: Buffer) {
+		await fs.write(this.fd, page, 0, this.pageSize, pageNumber * this.pageSize)
+	}
+
+	/** Throw away everything since the last commit. */
+	async rollback() {
+		this.dirty.clear()
+		this.header = { ...this.committedHeader }
+		await Pager.recoverJournal(this.filePath, this.fd)
+	}
+
+	async close() {
+		await fs.close(this.fd)
+	}
+}
+
+type LeafNode = {
+	leaf: true
+	/** The first page is the id of the node. The rest are overflow. */
+	pages: number[]
+	keys: string[]
+	values: string[]
+	prev: number
+	next: number
+}
+
+type BranchNode = {
+	leaf: false
+	pages: number[]
+	// keys[i] is the smallest key in children[i + 1].
+	keys: string[]
+	children: number[]
+}
+
+type Node = LeafNode | BranchNode
+
+function serializeNode(node: Node) {
+	if (node.leaf) {
+		const { keys, values, prev, next } = node
+		return JSON.stringify({ leaf: true, keys, values, prev, next })
+	} else {
+		const { keys, children } = node
+		return JSON.stringify({ leaf: false, keys, children })
+	}
+}
+
+function nodeSize(node: Node) {
+	return Buffer.byteLength(serializeNode(node))
+}
+
+/** Index of the first key >= key. */
+function lowerBound(keys: string[], key: string) {
+	let lo = 0
+	let hi = keys.length
+	while (lo < hi) {
+		const mid = (lo + hi) >> 1
+		if (keys[mid] < key) lo = mid + 1
+		else hi = mid
+	}
+	return lo
+}
+
+/** Index of the first key > key. */
+function upperBound(keys: string[], key: string) {
+	let lo = 0
+	let hi = keys.length
+	while (lo < hi) {
+		const mid = (lo + hi) >> 1
+		if (keys[mid] <= key) lo = mid + 1
+		else hi = mid
+	}
+	return lo
+}
+
+type EncodedScanArgs = {
+	gt?: string
+	gte?: string
+	lt?: string
+	lte?: string
+	limit?: number
+	reverse?: boolean
+}
+
+/** A B+tree of encoded keys and values on top of the pager. */
+class DiskBTree {
+	constructor(private pager: Pager, private cacheSize: number) {}
+
+	static async open(filePath: string, pageSize: number, cacheSize: number) {
+		const { pager, created } = await Pager.open(filePath, pageSize)
+		const tree = new DiskBTree(pager, cacheSize)
+		if (created) {
+			const root = await tree.createLeaf()
+			pager.header.root = root.pages[0]
+			await tree.commit()
+		}
+		return tree
+	}
+
+	/** Recently used nodes, in order of least recently used. */
+	private cache = new Map<number, Node>()
+
+	/** Nodes that have changed since the last commit. */
+	private dirty = new Map<number, Node>()
+
+	private get capacity() {
+		return this.pager.pageSize - pageHeaderSize
+	}
+
+	private async getNode(id: number): Promise<Node> {
+		const dirty = this.dirty.get(id)
+		if (dirty) return dirty
+
+		const cached = this.cache.get(id)
+		if (cached) {
+			this.cache.delete(id)
+			this.cache.set(id, cached)
+			return cached
+		}
+
+		const pages: number[] = []
+		const chunks: Buffer[] = []
+		let pageNumber = id
+		while (pageNumber !== 0) {
+			const page = await this.pager.read(pageNumber)
+			const length = page.readUInt32BE(4)
+			pages.push(pageNumber)
+			chunks.push(page.subarray(pageHeaderSize, pageHeaderSize + length))
+			pageNumber = page.readUInt32BE(0)
+		}
+		const node: Node = {
+			...JSON.parse(Buffer.concat(chunks).toString("utf8")),
+			pages,
+		}
+
+		this.cache.set(id, node)
+		this.evict()
+		return node
+	}
+
+	private async getLeaf(id: number) {
+		return (await this.getNode(id)) as LeafNode
+	}
+
+	private evict() {
+		for (const id of this.cache.keys()) {
+			if (this.cache.size <= this.cacheSize) break
+			this.cache.delete(id)
+		}
+	}
+
+	private markDirty(node: Node) {
+		this.dirty.set(node.pages[0], node)
+	}
+
+	private async createLeaf(
+		keys: string[] = [],
+		values: string[] = [],
+		prev = 0,
+		next = 0
+	) {
+		const id = await this.pager.allocate()
+		const node: LeafNode = { leaf: true, pages: [id], keys, values, prev, next }
+		this.markDirty(node)
+		return node
+	}
+
+	private async createBranch(keys: string[], children: number[]) {
+		const id = await this.pager.allocate()
+		const node: BranchNode = { leaf: false, pages: [id], keys, children }
+		this.markDirty(node)
+		return node
+	}
+
+	private freeNode(node: Node) {
+		const id = node.pages[0]
+		this.dirty.delete(id)
+		this.cache.delete(id)
+		for (const pageNumber of node.pages) {
+			this.pager.free(pageNumber)
+		}
+	}
+
+	/** Find the leaf that would contain this key. */
+	private async findLeaf(key: string) {
+		let node = await this.getNode(this.pager.header.root)
+		while (!node.leaf) {
+			node = await this.getNode(node.children[upperBound(node.keys, key)])
+		}
+		return node
+	}
+
+	private async firstLeaf() {
+		let node = await this.getNode(this.pager.header.root)
+		while (!node.leaf) node = await this.getNode(node.children[0])
+		return node
+	}
+
+	private async lastLeaf() {
+		let node = await this.getNode(this.pager.header.root)
+		while (!node.leaf) {
+			node = await this.getNode(node.children[node.children.length - 1])
+		}
+		return node
+	}
+
+	async scan(args: EncodedScanArgs) {
+		const start = args.gte ?? args.gt
+		const end = args.lte ?? args.lt
+		const limit = args.limit || Infinity
+
+		const results: { key: string; value: string }[] = []
+		if (start !== undefined && end !== undefined && start > end) {
+			return results
+		}
+
+		const isAfterStart = (key: string) => {
+			if (args.gt !== undefined) return key > args.gt
+			if (args.gte !== undefined) return key >= args.gte
+			return true
+		}
+
+		const isBeforeEnd = (key: string) => {
+			if (args.lt !== undefined) return key < args.lt
+			if (args.lte !== undefined) return key <= args.lte
+			return true
+		}
+
+		if (!args.reverse) {
+			let leaf =
+				start === undefined
+					? await this.firstLeaf()
+					: await this.findLeaf(start)
+			let i =
+				start === undefined
+					? 0
+					: args.gt !== undefined
+					? upperBound(leaf.keys, start)
+					: lowerBound(leaf.keys, start)
+
+			while (results.length < limit) {
+				if (i >= leaf.keys.length) {
+					if (leaf.next === 0) break
+					leaf = await this.getLeaf(leaf.next)
+					i = 0
+					continue
+				}
+				const key = leaf.keys[i]
+				if (!isBeforeEnd(key)) break
+				results.push({ key, value: leaf.values[i] })
+				i += 1
+			}
+		} else {
+			let leaf =
+				end === undefined ? await this.lastLeaf() : await this.findLeaf(end)
+			let i =
+				end === undefined
+					? leaf.keys.length - 1
+					: args.lt !== undefined
+					? lowerBound(leaf.keys, end) - 1
+					: upperBound(leaf.keys, end) - 1
+
+			while (results.length < limit) {
+				if (i < 0) {
+					if (leaf.prev === 0) break
+					leaf = await this.getLeaf(leaf.prev)
+					i = leaf.keys.length - 1
+					continue
+				}
+				const key = leaf.keys[i]
+				if (!isAfterStart(key)) break
+				results.push({ key, value: leaf.values[i] })
+				i -= 1
+			}
+		}
+
+		return results
+	}
+
+	async set(key: string, value: string) {
+		const root = await this.getNode(this.pager.header.root)
+		const split = await this.insert(root, key, value)
+		if (split) {
+			const newRoot = await this.createBranch(
+				[split.key],
+				[root.pages[0], split.node.pages[0]]
+			)
+			this.pager.header.root = newRoot.pages[0]
+		}
+	}
+
+	private isOverfull(node: Node) {
+		const minKeys = node.leaf ? 2 : 3
+		return node.keys.length >= minKeys && nodeSize(node) > this.capacity
+	}
+
+	/** Returns the new right sibling if the node had to be split. */
+	private async insert(
+		node: Node,
+		key: string,
+		value: string
+	): Promise<{ key: string; node: Node } | undefined> {
+		if (node.leaf) {
+			const i = lowerBound(node.keys, key)
+			if (i < node.keys.length && node.keys[i] === key) {
+				node.values[i] = value
+			} else {
+				node.keys.splice(i, 0, key)
+				node.values.splice(i, 0, value)
+			}
+			this.markDirty(node)
+			if (!this.isOverfull(node)) return
+
+			// Split by size rather than count since entries vary in size.
+			const sizes = node.keys.map(
+				(key, i) => key.length + node.values[i].length
+			)
+			const half = sizes.reduce((a, b) => a + b, 0) / 2
+			let mid = 0
+			for (let total = 0; mid < sizes.length - 1 && total < half; mid++) {
+				total += sizes[mid]
+			}
+			mid = Math.max(mid, 1)
+
+			const right = await this.createLeaf(
+				node.keys.splice(mid),
+				node.values.splice(mid),
+				node.pages[0],
+				node.next
+			)
+			if (node.next !== 0) {
+				const next = await this.getLeaf(node.next)
+				next.prev = right.pages[0]
+				this.markDirty(next)
+			}
+			node.next = right.pages[0]
+			return { key: right.keys[0], node: right }
+		}
+
+		const i = upperBound(node.keys, key)
+		const child = await this.getNode(node.children[i])
+		const split = await this.insert(child, key, value)
+		if (!split) return
+
+		node.keys.splice(i, 0, split.key)
+		node.children.splice(i + 1, 0, split.node.pages[0])
+		this.markDirty(node)
+		if (!this.isOverfull(node)) return
+
+		const mid = node.keys.length >> 1
+		const upKey = node.keys[mid]
+		const right = await this.createBranch(
+			node.keys.splice(mid + 1),
+			node.children.splice(mid + 1)
+		)
+		node.keys.pop()
+		return { key: upKey, node: right }
+	}
+
+	async delete(key: string) {
+		const root = await this.getNode(this.pager.header.root)
+		await this.remove(root, key)
+		if (!root.leaf && root.children.length === 1) {
+			this.pager.header.root = root.children[0]
+			this.freeNode(root)
+		}
+	}
+
+	private async remove(node: Node, key: string): Promise<boolean> {
+		if (node.leaf) {
+			const i = lowerBound(node.keys, key)
+			if (i >= node.keys.length || node.keys[i] !== key) return false
+			node.keys.splice(i, 1)
+			node.values.splice(i, 1)
+			this.markDirty(node)
+			return true
+		}
+
+		const i = upperBound(node.keys, key)
+		const child = await this.getNode(node.children[i])
+		const removed = await this.remove(child, key)
+		if (removed) await this.rebalance(node, i)
+		return removed
+	}
+
+	private isUnderfull(node: Node) {
+		return node.keys.length === 0 || nodeSize(node) < this.capacity / 4
+	}
+
+	/** Merge children[i] with a sibling if it has gotten too small. */
+	private async rebalance(parent: BranchNode, i: number) {
+		const child = await this.getNode(parent.children[i])
+		if (!this.isUnderfull(child)) return
+
+		// Merge with the left sibling unless this is the first child.
+		const leftIndex = i > 0 ? i - 1 : i
+		const sibling = await this.getNode(parent.children[i > 0 ? i - 1 : i + 1])
+		const left = i > 0 ? sibling : child
+		const right = i > 0 ? child : sibling
+		const separator = parent.keys[leftIndex]
+
+		const fits = nodeSize(left) + nodeSize(right) <= this.capacity
+
+		// An empty branch has a single child so we have to either merge or borrow.
+		if (!fits && !child.leaf && child.keys.length === 0) {
+			if (sibling.keys.length >= 2) {
+				this.borrow(parent, leftIndex, left as BranchNode, right as BranchNode)
+				return
+			}
+		} else if (!fits && child.keys.length > 0) {
+			return
+		}
+
+		if (left.leaf && right.leaf) {
+			left.keys.push(...right.keys)
+			left.values.push(...right.values)
+			left.next = right.next
+			if (right.next !== 0) {
+				const next = await this.getLeaf(right.next)
+				next.prev = left.pages[0]
+				this.markDirty(next)
+			}
+		} else if (!left.leaf && !right.leaf) {
+			left.keys.push(separator, ...right.keys)
+			left.children.push(...right.children)
+		}
+		parent.keys.splice(leftIndex, 1)
+		parent.children.splice(leftIndex + 1, 1)
+		this.freeNode(right)
+		this.markDirty(left)
+		this.markDirty(parent)
+	}
+
+	/** Move one child across the separator into whichever branch is empty. */
+	private borrow(
+		parent: BranchNode,
+		leftIndex: number,
+		left: BranchNode,
+		right: BranchNode
+	) {
+		if (left.keys.length === 0) {
+			left.keys.push(parent.keys[leftIndex])
+			left.children.push(right.children.shift()!)
+			parent.keys[leftIndex] = right.keys.shift()!
+		} else {
+			right.keys.unshift(parent.keys[leftIndex])
+			right.children.unshift(left.children.pop()!)
+			parent.keys[leftIndex] = left.keys.pop()!
+		}
+		this.markDirty(left)
+		this.markDirty(right)
+		this.markDirty(parent)
+	}
+
+	/** Write every dirty node to its pages and commit them to disk. */
+	async commit() {
+		if (this.dirty.size === 0) return
+
+		for (const node of this.dirty.values()) {
+			const data = Buffer.from(serializeNode(node))
+			const pageCount = Math.max(1, Math.ceil(data.length / this.capacity))
+			while (node.pages.length < pageCount) {
+				node.pages.push(await this.pager.allocate())
+			}
+			while (node.pages.length > pageCount) {
+				this.pager.free(node.pages.pop()!)
+			}
+
+			for (let i = 0; i < node.pages.length; i++) {
+				const page = Buffer.alloc(this.pager.pageSize)
+				const chunk = data.subarray(i * this.capacity, (i + 1) * this.capacity)
+				page.writeUInt32BE(node.pages[i + 1] ?? 0, 0)
+				page.writeUInt32BE(chunk.length, 4)
+				chunk.copy(page, pageHeaderSize)
+				this.pager.write(node.pages[i], page)
+			}
+		}
+
+		await this.pager.commit()
+
+		for (const [id, node] of this.dirty) {
+			this.cache.delete(id)
+			this.cache.set(id, node)
+		}
+		this.dirty.clear()
+		this.evict()
+	}
+
+	async rollback() {
+		// Nodes in the cache may have been modified in place.
+		this.cache.clear()
+		this.dirty.clear()
+		await this.pager.rollback()
+	}
+
+	async close() {
+		await this.pager.close()
+	}
+}
+
+export type DiskBTreeTupleStorageOptions = {
+	/** Size of each page in bytes. Only used when creating a new file. */
+	pageSize?: number
+	/** How many nodes to keep in memory. */
+	cacheSize?: number
+}
+
+export class DiskBTreeTupleStorage implements AsyncTupleStorageApi {
+	private tree: Promise<DiskBTree>
+	private queue = new Queue()
+
+	/**
+	 * new DiskBTreeTupleStorage("path/to.db")
+	 */
+	constructor(
+		public filePath: string,
+		options: DiskBTreeTupleStorageOptions = {}
+	) {
+		this.tree = DiskBTree.open(
+			filePath,
+			options.pageSize ?? 4096,
+			options.cacheSize ?? 1000
+		)
+	}
+
+	async scan(args: ScanStorageArgs = {}): Promise<KeyValuePair[]> {
+		const tree = await this.tree
+		const encodedArgs = encodeScanArgs(args)
+		const results = await this.queue.enqueue(() => tree.scan(encodedArgs))
+		return results.map(({ key, value }) => ({
+			key: decodeTuple(key),
+			value: decodeValue(value),
+		}))
+	}
+
+	/** Scans in batches so that commits can happen in between. */
+	iterate(args: ScanStorageArgs = {}) {
+		return iterateInBatchesAsync((args) => this.scan(args), args)
+	}
+
+	async commit(writes: WriteOps): Promise<void> {
+		const tree = await this.tree
+		await this.queue.enqueue(async () => {
+			try {
+				for (const bounds of writes.clear || []) {
+					for (const { key } of await tree.scan(encodeScanArgs(bounds))) {
+						await tree.delete(key)
+					}
+				}
+				for (const tuple of writes.remove || []) {
+					await tree.delete(encodeTuple(tuple))
+				}
+				for (const { key, value } of writes.set || []) {
+					await tree.set(encodeTuple(key), encodeValue(value))
+				}
+				await tree.commit()
+			} catch (error) {
+				await tree.rollback()
+				throw error
+			}
+		})
+	}
+
+	async close(): Promise<void> {
+		const tree = await this.tree
+		await this.queue.enqueue(() => tree.close())
+	}
+}
+
+function encodeScanArgs(args: ScanStorageArgs) {
+	const encodedArgs: EncodedScanArgs = {
+		limit: args.limit,
+		reverse: args.reverse,
+	}
+	if (args.gt !== undefined) encodedArgs.gt = encodeTuple(args.gt)
+	if (args.gte !== undefined) encodedArgs.gte = encodeTuple(args.gte)
+	if (args.lt !== undefined) encodedArgs.lt = encodeTuple(args.lt)
+	if (args.lte !== undefined) encodedArgs.lte = encodeTuple(args.lte)
+	return encodedArgs
+}
@@ -1,46 +1,228 @@
 import * as fs from "fs-extra"
+import md5 from "md5"
 import * as path from "path"
+import { outdent } from "../helpers/outdent"
+import { jsonVersion, parseJSON, stringifyJSON } from "../helpers/valueTypes"
 import { InMemoryTupleStorage } from "./InMemoryTupleStorage"
 import { KeyValuePair, WriteOps } from "./types"
 
+export class CorruptFileError extends Error {
+	/** Where a copy of the damaged file was saved before it was repaired. */
+	backupPath?: string
+
+	constructor(public filePath: string, public reason: string) {
+		const message = outdent(`
+      CorruptFileError: ${filePath}
+      ${reason}
+    `)
+
+		super(message)
+	}
+}
+
+/**
+ * The first line of the database file. Files without a header are still valid
+ * and, like version 1, are plain JSON.
+ */
+type FileHeader = { version: number; checksum: string }
+
+function parseHeader(line: string): FileHeader | undefined {
+	try {
+		const header = JSON.parse(line)
+		if (typeof header === "object" && "checksum" in header) return header
+	} catch (error) {}
+}
+
+function parseLine(line: string, version: number): KeyValuePair {
+	const pair = parseJSON(line, version)
+	// Backward compatibility with [key, value].
+	if (Array.isArray(pair)) {
+		const [key, value] = pair
+		return { key, value }
+	}
+	return pair
+}
+
+function splitFile(str: string) {
+	const newline = str.indexOf("\n")
+	const firstLine = newline === -1 ? str : str.slice(0, newline)
+	const header = parseHeader(firstLine)
+	if (!header) return { body: str }
+	const body = newline === -1 ? "" : str.slice(newline + 1)
+	return { header, body }
+}
+
+function getFileVersion(str: string) {
+	return splitFile(str).header?.version ?? 1
+}
+
 export function parseFile(str: string): KeyValuePair[] {
-	if (str === "") {
+	const { header, body } = splitFile(str)
+	if (header && md5(body) !== header.checksum) {
+		throw new Error("Checksum does not match the contents of the file.")
+	}
+	if (body === "") {
 		return []
 	}
-	return str.split("\n").map((line) => {
-		const pair = JSON.parse(line)
-		// Backward compatibility with [key, value].
-		if (Array.isArray(pair)) {
-			const [key, value] = pair
-			return { key, value }
-		}
-		return pair
-	})
+	const version = getFileVersion(str)
+	return body.split("\n").map((line) => parseLine(line, version))
+}
+
+/** Salvage every line that can still be parsed from a damaged file. */
+function recoverFile(str: string): KeyValuePair[] {
+	const { body } = splitFile(str)
+	const version = getFileVersion(str)
+	const data: KeyValuePair[] = []
+	for (const line of body.split("\n")) {
+		try {
+			const pair = parseLine(line, version)
+			if (pair && Array.isArray(pair.key)) data.push(pair)
+		} catch (error) {}
+	}
+	return data
 }
 
 function serializeFile(data: KeyValuePair[]) {
-	return data.map((pair) => JSON.stringify(pair)).join("\n")
+	const body = data.map((pair) => stringifyJSON(pair)).join("\n")
+	const header: FileHeader = { version: jsonVersion, checksum: md5(body) }
+	return JSON.stringify(header) + "\n" + body
+}
+
+/** Every record in the log is a newline-terminated WriteOps. */
+function serializeLogRecord(writes: WriteOps) {
+	return stringifyJSON(writes) + "\n"
+}
+
+/**
+ * Write to a temporary file and rename it over the original so that a crash
+ * never leaves a partially written file behind.
+ */
+function writeFileAtomicSync(filePath: string, contents: string) {
+	const tmpPath = filePath + ".tmp"
+	const fd = fs.openSync(tmpPath, "w")
+	try {
+		fs.writeSync(fd, contents, null, "utf8")
+		fs.fsyncSync(fd)
+	} finally {
+		fs.closeSync(fd)
+	}
+	fs.renameSync(tmpPath, filePath)
+	fsyncDirectory(path.dirname(filePath))
+}
+
+function fsyncDirectory(dirPath: string) {
+	// Make the rename durable. Not every platform lets you open a directory.
+	let fd: number | undefined
+	try {
+		fd = fs.openSync(dirPath, "r")
+		fs.fsyncSync(fd)
+	} catch (error) {
+	} finally {
+		if (fd !== undefined) fs.closeSync(fd)
+	}
+}
+
+function backupCorruptFile(filePath: string) {
+	const backupPath = `${filePath}.corrupt-${Date.now()}`
+	fs.copySync(filePath, backupPath)
+	return backupPath
+}
+
+export type FileTupleStorageOptions = {
+	/**
+	 * Append each commit to a write-ahead log rather than rewriting the entire
+	 * database file. The log is replayed when the database is opened.
+	 */
+	appendOnly?: boolean
+	/** How many commits to append before compacting the log into the database file. */
+	compactAfter?: number
+	/**
+	 * What to do when the database file is damaged. By default, we throw a
+	 * CorruptFileError. When repairing, we back up the damaged file, keep
+	 * everything that can be salvaged, and report the error in `repairs` along
+	 * with the path to the backup.
+	 */
+	recovery?: "throw" | "repair"
 }
 
 export class FileTupleStorage extends InMemoryTupleStorage {
 	cache: FileCache
+	log: FileLog
+	appendOnly: boolean
+	compactAfter: number
+
+	/** Errors for any damaged files that were repaired when opening the database. */
+	repairs: CorruptFileError[]
 
 	// This is pretty bonkers: https://github.com/Microsoft/TypeScript/issues/8277
 	// @ts-ignore
-	constructor(public dbPath: string) {
-		const cache = new FileCache(dbPath)
+	constructor(public dbPath: string, options: FileTupleStorageOptions = {}) {
+		const repairs: CorruptFileError[] = []
+		const onCorruption = (error: CorruptFileError) => {
+			if (options.recovery !== "repair") throw error
+			error.backupPath = backupCorruptFile(error.filePath)
+			repairs.push(error)
+		}
+
+		const cache = new FileCache(dbPath, onCorruption)
 		super(cache.get())
 		this.cache = cache
+		this.log = new FileLog(dbPath, onCorruption)
+		this.appendOnly = Boolean(options.appendOnly)
+		this.compactAfter = options.compactAfter ?? 1000
+		this.repairs = repairs
+
+		// Replaying the log is idempotent because the last write for every key
+		// wins. So it doesn't matter if we crashed after writing the compacted
+		// file but before truncating the log.
+		// The log is always in the same format as the database file.
+		const records = this.log.get(cache.version)
+		for (const writes of records) {
+			super.commit(writes)
+		}
+
+		// If we aren't appending, then a leftover log would get replayed on top of
+		// newer data the next time we open the database.
+		if (records.length > 0 && !this.appendOnly) this.compact()
+
+		// Upgrade older files right away so that new log records match the file.
+		if (cache.version < jsonVersion) this.compact()
+
+		// Persist whatever we salvaged so the damaged file isn't read again.
+		if (repairs.length > 0) this.compact()
 	}
 
 	commit(writes: WriteOps) {
 		super.commit(writes)
+		if (!this.appendOnly) {
+			this.cache.set(this.data)
+			return
+		}
+
+		this.log.append(writes)
+		if (this.log.count >= this.compactAfter) this.compact()
+	}
+
+	/** Write the entire database to file and truncate the log. */
+	compact() {
 		this.cache.set(this.data)
+		this.log.clear()
+	}
+
+	close() {
+		if (this.log.count > 0) this.compact()
+		super.close()
 	}
 }
 
 class FileCache {
-	constructor(private dbPath: string) {}
+	constructor(
+		private dbPath: string,
+		private onCorruption: (error: CorruptFileError) => void
+	) {}
+
+	/** The format of the file that was read. */
+	version = jsonVersion
 
 	private getFilePath() {
 		return this.dbPath + ".txt"
@@ -63,8 +245,19 @@ class FileCache {
 		}
 
 		const fileContents = fs.readFileSync(filePath, "utf8")
-		const data = parseFile(fileContents)
-		return data
+		this.version = getFileVersion(fileContents)
+		try {
+			return parseFile(fileContents)
+		} catch (error) {
+			const data = recoverFile(fileContents)
+			this.onCorruption(
+				new CorruptFileError(
+					filePath,
+					`${error.message} Recovered ${data.length} key-value pairs.`
+				)
+			)
+			return data
+		}
 	}
 
 	// TODO: throttle this call if it makes sense.
@@ -72,6 +265,78 @@ class FileCache {
 		const filePath = this.getFilePath()
 		const fileContents = serializeFile(data)
 		fs.mkdirpSync(path.dirname(this.dbPath))
-		fs.writeFileSync(filePath, fileContents, "utf8")
+		writeFileAtomicSync(filePath, fileContents)
+		this.version = jsonVersion
+	}
+}
+
+class FileLog {
+	constructor(
+		private dbPath: string,
+		private onCorruption: (error: CorruptFileError) => void
+	) {}
+
+	/** Number of records in the log. */
+	count = 0
+
+	private getFilePath() {
+		return this.dbPath + ".log"
+	}
+
+	get(version: number) {
+		const filePath = this.getFilePath()
+		if (!fs.existsSync(filePath)) return []
+
+		const fileContents = fs.readFileSync(filePath, "utf8")
+		const lines = fileContents.split("\n")
+		// The last line is either empty or a record that was never fully written.
+		lines.pop()
+
+		const records: WriteOps[] = []
+		let validLength = 0
+		for (let i = 0; i < lines.length; i++) {
+			try {
+				records.push(parseJSON(lines[i], version))
+			} catch (error) {
+				// Later records may depend on this one so we can't apply them.
+				this.onCorruption(
+					new CorruptFileError(
+						filePath,
+						`Invalid record on line ${i + 1}. Recovered ${records.length} of ${
+							lines.length
+						} records.`
+					)
+				)
+				break
+			}
+			validLength += Buffer.byteLength(lines[i], "utf8") + 1
+		}
+
+		// Drop anything that can't be replayed so that new records are appended
+		// after the last valid one.
+		if (validLength !== fs.statSync(filePath).size) {
+			fs.truncateSync(filePath, validLength)
+		}
+
+		this.count = records.length
+		return records
+	}
+
+	append(writes: WriteOps) {
+		const filePath = this.getFilePath()
+		fs.mkdirpSync(path.dirname(this.dbPath))
+		const fd = fs.openSync(filePath, "a")
+		try {
+			fs.writeSync(fd, serializeLogRecord(writes), null, "utf8")
+			fs.fsyncSync(fd)
+		} finally {
+			fs.closeSync(fd)
+		}
+		this.count += 1
+	}
+
+	clear() {
+		fs.removeSync(this.getFilePath())
+		this.count = 0
 	}
 }
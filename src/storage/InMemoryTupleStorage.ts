@@ -13,10 +13,20 @@ export class InMemoryTupleStorage implements TupleStorageApi {
 		return tv.scan(this.data, args)
 	}
 
+	iterate(args?: ScanStorageArgs) {
+		return tv.iterate(this.data, args)
+	}
+
 	commit(writes: WriteOps) {
 		// Indexers run inside the tx so we don't need to do that here.
-		// And because of that, the order here should not matter.
-		const { set, remove } = writes
+		// And because of that, the order here should not matter, except that
+		// clears happen first.
+		const { set, remove, clear } = writes
+		for (const bounds of clear || []) {
+			for (const { key } of tv.scan(this.data, bounds)) {
+				tv.remove(this.data, key)
+			}
+		}
 		for (const tuple of remove || []) {
 			tv.remove(this.data, tuple)
 		}
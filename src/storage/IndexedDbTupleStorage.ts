@@ -1,62 +1,100 @@
 import { IDBPDatabase, openDB } from "idb/with-async-ittr"
+import * as binaryCodec from "../helpers/binaryCodec"
 import { decodeTuple, encodeTuple } from "../helpers/codec"
+import { iterateInBatchesAsync } from "../helpers/iterateInBatches"
+import { Bounds } from "../helpers/sortedTupleArray"
+import { parseJSON, stringifyJSON } from "../helpers/valueTypes"
 import { AsyncTupleStorageApi, ScanStorageArgs, WriteOps } from "../main"
-import { KeyValuePair } from "./types"
+import { KeyCodec, KeyValuePair, Tuple } from "./types"
 
-const version = 1
+// Version 1 stored values with structured clone which loses the class of
+// custom value types, so version 2 stores them as JSON.
+const version = 2
 
 const storeName = "tupledb"
 
 export class IndexedDbTupleStorage implements AsyncTupleStorageApi {
 	private db: Promise<IDBPDatabase<any>>
 
-	constructor(public dbName: string) {
+	/**
+	 * Use `{codec: "binary"}` to store keys as ArrayBuffers rather than strings.
+	 */
+	constructor(
+		public dbName: string,
+		private options: { codec?: KeyCodec } = {}
+	) {
 		this.db = openDB(dbName, version, {
-			upgrade(db) {
-				db.createObjectStore(storeName)
+			async upgrade(db, oldVersion, newVersion, tx) {
+				if (oldVersion < 1) {
+					db.createObjectStore(storeName)
+					return
+				}
+				if (oldVersion < 2) {
+					for await (const cursor of tx.objectStore(storeName).iterate()) {
+						await cursor.update(stringifyJSON(cursor.value))
+					}
+				}
 			},
 		})
 	}
 
-	async scan(args?: ScanStorageArgs) {
-		const db = await this.db
-		const tx = db.transaction(storeName, "readonly")
-		const index = tx.store // primary key
+	private encodeKey(tuple: Tuple): IDBValidKey {
+		if (this.options.codec !== "binary") return encodeTuple(tuple)
+		const bytes = binaryCodec.encodeTuple(tuple)
+		return bytes.buffer.slice(
+			bytes.byteOffset,
+			bytes.byteOffset + bytes.byteLength
+		)
+	}
+
+	private decodeKey(key: IDBValidKey): Tuple {
+		if (this.options.codec !== "binary") return decodeTuple(key as string)
+		return binaryCodec.decodeTuple(new Uint8Array(key as ArrayBuffer))
+	}
 
-		const lower = args?.gt || args?.gte
-		const lowerEq = Boolean(args?.gte)
+	private getKeyRange(bounds: Bounds = {}) {
+		const lower = bounds.gt || bounds.gte
+		const lowerEq = Boolean(bounds.gte)
 
-		const upper = args?.lt || args?.lte
-		const upperEq = Boolean(args?.lte)
+		const upper = bounds.lt || bounds.lte
+		const upperEq = Boolean(bounds.lte)
 
 		let range: IDBKeyRange | null
 		if (upper) {
 			if (lower) {
 				range = IDBKeyRange.bound(
-					encodeTuple(lower),
-					encodeTuple(upper),
+					this.encodeKey(lower),
+					this.encodeKey(upper),
 					!lowerEq,
 					!upperEq
 				)
 			} else {
-				range = IDBKeyRange.upperBound(encodeTuple(upper), !upperEq)
+				range = IDBKeyRange.upperBound(this.encodeKey(upper), !upperEq)
 			}
 		} else {
 			if (lower) {
-				range = IDBKeyRange.lowerBound(encodeTuple(lower), !lowerEq)
+				range = IDBKeyRange.lowerBound(this.encodeKey(lower), !lowerEq)
 			} else {
 				range = null
 			}
 		}
+		return range
+	}
 
+	async scan(args?: ScanStorageArgs) {
+		const db = await this.db
+		const tx = db.transaction(storeName, "readonly")
+		const index = tx.store // primary key
+
+		const range = this.getKeyRange(args)
 		const direction: IDBCursorDirection = args?.reverse ? "prev" : "next"
 
 		const limit = args?.limit || Infinity
 		let results: KeyValuePair[] = []
 		for await (const cursor of index.iterate(range, direction)) {
 			results.push({
-				key: decodeTuple(cursor.key),
-				value: cursor.value,
+				key: this.decodeKey(cursor.key),
+				value: parseJSON(cursor.value),
 			})
 			if (results.length >= limit) break
 		}
@@ -65,14 +103,29 @@ export class IndexedDbTupleStorage implements AsyncTupleStorageApi {
 		return results
 	}
 
+	/**
+	 * IndexedDb transactions close as soon as we stop making requests so we
+	 * can't hold a cursor open while the caller awaits. Instead, we scan in
+	 * batches, each in their own transaction.
+	 */
+	iterate(args?: ScanStorageArgs) {
+		return iterateInBatchesAsync((args) => this.scan(args), args)
+	}
+
 	async commit(writes: WriteOps) {
 		const db = await this.db
 		const tx = db.transaction(storeName, "readwrite")
+		// Requests are executed in order so the clears happen first.
+		for (const bounds of writes.clear || []) {
+			const range = this.getKeyRange(bounds)
+			if (range) tx.store.delete(range)
+			else tx.store.clear()
+		}
 		for (const { key, value } of writes.set || []) {
-			tx.store.put(value, encodeTuple(key))
+			tx.store.put(stringifyJSON(value), this.encodeKey(key))
 		}
 		for (const key of writes.remove || []) {
-			tx.store.delete(encodeTuple(key))
+			tx.store.delete(this.encodeKey(key))
 		}
 		await tx.done
 	}
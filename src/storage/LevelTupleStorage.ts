@@ -1,60 +1,110 @@
 import { AbstractBatch } from "abstract-leveldown"
 import { Level } from "level"
 import { AsyncTupleStorageApi } from "../database/async/asyncTypes"
+import * as binaryCodec from "../helpers/binaryCodec"
 import {
 	decodeTuple,
 	decodeValue,
 	encodeTuple,
 	encodeValue,
 } from "../helpers/codec"
-import { KeyValuePair, ScanStorageArgs, WriteOps } from "./types"
+import { Bounds } from "../helpers/sortedTupleArray"
+import {
+	KeyCodec,
+	KeyValuePair,
+	ScanStorageArgs,
+	Tuple,
+	WriteOps,
+} from "./types"
 
 export class LevelTupleStorage implements AsyncTupleStorageApi {
 	/**
 	 * import level from "level"
 	 * new LevelTupleStorage(level("path/to.db"))
+	 *
+	 * Use `{codec: "binary"}` to store keys as bytes rather than strings.
 	 */
-	constructor(public db: Level) {}
+	constructor(public db: Level, private options: { codec?: KeyCodec } = {}) {}
+
+	private get binary() {
+		return this.options.codec === "binary"
+	}
+
+	private encodeKey(tuple: Tuple): string | Uint8Array {
+		return this.binary ? binaryCodec.encodeTuple(tuple) : encodeTuple(tuple)
+	}
+
+	private decodeKey(key: string | Uint8Array): Tuple {
+		return this.binary
+			? binaryCodec.decodeTuple(key as Uint8Array)
+			: decodeTuple(key as string)
+	}
+
+	private get keyEncoding() {
+		return this.binary ? "view" : undefined
+	}
 
 	async scan(args: ScanStorageArgs = {}): Promise<KeyValuePair[]> {
-		const dbArgs: any = {}
-		if (args.gt !== undefined) dbArgs.gt = encodeTuple(args.gt)
-		if (args.gte !== undefined) dbArgs.gte = encodeTuple(args.gte)
-		if (args.lt !== undefined) dbArgs.lt = encodeTuple(args.lt)
-		if (args.lte !== undefined) dbArgs.lte = encodeTuple(args.lte)
+		const results: KeyValuePair[] = []
+		for await (const pair of this.iterate(args)) {
+			results.push(pair)
+		}
+		return results
+	}
+
+	private encodeRange(bounds: Bounds) {
+		const dbArgs: any = { keyEncoding: this.keyEncoding }
+		if (bounds.gt !== undefined) dbArgs.gt = this.encodeKey(bounds.gt)
+		if (bounds.gte !== undefined) dbArgs.gte = this.encodeKey(bounds.gte)
+		if (bounds.lt !== undefined) dbArgs.lt = this.encodeKey(bounds.lt)
+		if (bounds.lte !== undefined) dbArgs.lte = this.encodeKey(bounds.lte)
+		return dbArgs
+	}
+
+	async *iterate(args: ScanStorageArgs = {}): AsyncIterable<KeyValuePair> {
+		const dbArgs = this.encodeRange(args)
 		if (args.limit !== undefined) dbArgs.limit = args.limit
 		if (args.reverse !== undefined) dbArgs.reverse = args.reverse
 
-		const results: KeyValuePair[] = []
 		for await (const [key, value] of this.db.iterator(dbArgs)) {
-			results.push({
-				key: decodeTuple(key),
+			yield {
+				key: this.decodeKey(key),
 				value: decodeValue(value),
-			})
+			}
 		}
-		return results
 	}
 
 	async commit(writes: WriteOps): Promise<void> {
+		// Level can't delete a range within a batch so we delete every key in the
+		// range instead. That way the whole commit is written atomically.
+		const cleared: AbstractBatch[] = []
+		for (const bounds of writes.clear || []) {
+			const range = { ...this.encodeRange(bounds), values: false }
+			for await (const [key] of this.db.iterator(range)) {
+				cleared.push({ type: "del", key })
+			}
+		}
+
 		const ops = [
+			...cleared,
 			...(writes.remove || []).map(
 				(tuple) =>
 					({
 						type: "del",
-						key: encodeTuple(tuple),
+						key: this.encodeKey(tuple),
 					} as AbstractBatch)
 			),
 			...(writes.set || []).map(
 				({ key, value }) =>
 					({
 						type: "put",
-						key: encodeTuple(key),
+						key: this.encodeKey(key),
 						value: encodeValue(value),
 					} as AbstractBatch)
 			),
 		]
 
-		await this.db.batch(ops)
+		await this.db.batch(ops, { keyEncoding: this.keyEncoding })
 	}
 
 	async close(): Promise<void> {
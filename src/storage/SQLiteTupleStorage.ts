@@ -1,20 +1,67 @@
 import { Database, Transaction } from "better-sqlite3"
 import { TupleStorageApi } from "../database/sync/types"
+import * as binaryCodec from "../helpers/binaryCodec"
 import { decodeTuple, encodeTuple } from "../helpers/codec"
-import { KeyValuePair, ScanStorageArgs, Tuple, WriteOps } from "./types"
+import { iterateInBatches } from "../helpers/iterateInBatches"
+import { Bounds } from "../helpers/sortedTupleArray"
+import { jsonVersion, parseJSON, stringifyJSON } from "../helpers/valueTypes"
+import {
+	KeyCodec,
+	KeyValuePair,
+	ScanStorageArgs,
+	Tuple,
+	WriteOps,
+} from "./types"
+
+type SQLiteKey = string | Buffer
 
 export class SQLiteTupleStorage implements TupleStorageApi {
 	/**
 	 * import sqlite from "better-sqlite3"
 	 * new SQLiteTupleStorage(sqlite("path/to.db"))
+	 *
+	 * Use `{codec: "binary"}` to store keys as blobs rather than text.
 	 */
-	constructor(private db: Database) {
+	constructor(private db: Database, options: { codec?: KeyCodec } = {}) {
+		if (options.codec === "binary") {
+			this.encodeKey = (tuple) => {
+				const bytes = binaryCodec.encodeTuple(tuple)
+				return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+			}
+			this.decodeKey = (key) => binaryCodec.decodeTuple(key as Buffer)
+		} else {
+			this.encodeKey = encodeTuple
+			this.decodeKey = (key) => decodeTuple(key as string)
+		}
+
+		const keyType = options.codec === "binary" ? "blob" : "text"
 		const createTableQuery = db.prepare(
-			`create table if not exists data ( key text primary key, value text)`
+			`create table if not exists data ( key ${keyType} primary key, value text)`
 		)
+		const createMetaQuery = db.prepare(
+			`create table if not exists meta ( key text primary key, value text)`
+		)
+
+		// Tables from before there was a version are plain JSON.
+		const existed = db
+			.prepare(
+				`select name from sqlite_master where type = 'table' and name = 'data'`
+			)
+			.get()
 
-		// Make sure the table exists.
+		// Make sure the tables exist.
 		createTableQuery.run()
+		createMetaQuery.run()
+
+		const versionRow = db
+			.prepare(`select value from meta where key = 'jsonVersion'`)
+			.get() as { value: string } | undefined
+		const version = versionRow
+			? Number(versionRow.value)
+			: existed
+			? 1
+			: jsonVersion
+		if (!versionRow || version < jsonVersion) this.upgrade(version)
 
 		const insertQuery = db.prepare(
 			`insert or replace into data values ($key, $value)`
@@ -25,43 +72,86 @@ export class SQLiteTupleStorage implements TupleStorageApi {
 			({
 				inserts,
 				deletes,
+				clears,
 			}: {
 				inserts: KeyValuePair[] | undefined
 				deletes: Tuple[] | undefined
+				clears: Bounds[] | undefined
 			}) => {
+				// Clears must happen before the inserts.
+				for (const bounds of clears || []) {
+					const { where, sqlArgs } = this.prepareWhere(bounds)
+					let sqlQuery = `delete from data`
+					if (where) sqlQuery += ` where ${where}`
+					this.db.prepare(sqlQuery).run(sqlArgs)
+				}
 				for (const { key, value } of inserts || []) {
 					insertQuery.run({
-						key: encodeTuple(key),
-						value: JSON.stringify(value),
+						key: this.encodeKey(key),
+						value: stringifyJSON(value),
 					})
 				}
 				for (const tuple of deletes || []) {
-					deleteQuery.run({ key: encodeTuple(tuple) })
+					deleteQuery.run({ key: this.encodeKey(tuple) })
 				}
 			}
 		)
 	}
 
+	/** Rewrite every value in the current format and record the version. */
+	private upgrade(version: number) {
+		const rows = this.db.prepare(`select key, value from data`).all() as {
+			key: SQLiteKey
+			value: string
+		}[]
+		const updateQuery = this.db.prepare(
+			`update data set value = $value where key = $key`
+		)
+		const setVersionQuery = this.db.prepare(
+			`insert or replace into meta values ('jsonVersion', $version)`
+		)
+		this.db.transaction(() => {
+			for (const { key, value } of rows) {
+				updateQuery.run({
+					key,
+					value: stringifyJSON(parseJSON(value, version)),
+				})
+			}
+			setVersionQuery.run({ version: String(jsonVersion) })
+		})()
+	}
+
 	private writeFactsQuery: Transaction
+	private encodeKey: (tuple: Tuple) => SQLiteKey
+	private decodeKey: (key: SQLiteKey) => Tuple
+
+	private decodeRow = ({ key, value }: { key: SQLiteKey; value: string }) => {
+		return {
+			key: this.decodeKey(key),
+			value: parseJSON(value),
+		} as KeyValuePair
+	}
 
 	scan = (args: ScanStorageArgs = {}) => {
-		// Bounds.
-		let start = args.gte ? encodeTuple(args.gte) : undefined
-		let startAfter: string | undefined = args.gt
-			? encodeTuple(args.gt)
-			: undefined
-		let end: string | undefined = args.lte ? encodeTuple(args.lte) : undefined
-		let endBefore: string | undefined = args.lt
-			? encodeTuple(args.lt)
-			: undefined
-
-		const sqlArgs = {
-			start,
-			startAfter,
-			end,
-			endBefore,
-			limit: args.limit,
-		}
+		const { query, sqlArgs } = this.prepareScan(args)
+		return query.all(sqlArgs).map(this.decodeRow)
+	}
+
+	/**
+	 * A SQLite cursor keeps the connection busy until the iteration is finished,
+	 * so committing in the meantime would throw. Instead, we scan in batches.
+	 */
+	iterate(args?: ScanStorageArgs) {
+		return iterateInBatches(this.scan, args)
+	}
+
+	private prepareWhere(bounds: Bounds) {
+		let start = bounds.gte ? this.encodeKey(bounds.gte) : undefined
+		let startAfter = bounds.gt ? this.encodeKey(bounds.gt) : undefined
+		let end = bounds.lte ? this.encodeKey(bounds.lte) : undefined
+		let endBefore = bounds.lt ? this.encodeKey(bounds.lt) : undefined
+
+		const sqlArgs = { start, startAfter, end, endBefore }
 
 		const where = [
 			start ? "key >= $start" : undefined,
@@ -72,6 +162,12 @@ export class SQLiteTupleStorage implements TupleStorageApi {
 			.filter(Boolean)
 			.join(" and ")
 
+		return { where, sqlArgs }
+	}
+
+	private prepareScan(args: ScanStorageArgs) {
+		const { where, sqlArgs } = this.prepareWhere(args)
+
 		let sqlQuery = `select * from data`
 		if (where) {
 			sqlQuery += " where "
@@ -85,20 +181,15 @@ export class SQLiteTupleStorage implements TupleStorageApi {
 			sqlQuery += ` limit $limit`
 		}
 
-		const results = this.db.prepare(sqlQuery).all(sqlArgs)
-
-		return results.map(
-			({ key, value }) =>
-				({
-					key: decodeTuple(key) as Tuple,
-					value: JSON.parse(value),
-				} as KeyValuePair)
-		)
+		return {
+			query: this.db.prepare(sqlQuery),
+			sqlArgs: { ...sqlArgs, limit: args.limit },
+		}
 	}
 
 	commit = (writes: WriteOps) => {
-		const { set: inserts, remove: deletes } = writes
-		this.writeFactsQuery({ inserts, deletes })
+		const { set: inserts, remove: deletes, clear: clears } = writes
+		this.writeFactsQuery({ inserts, deletes, clears })
 	}
 
 	close() {
@@ -1,16 +1,31 @@
 import sqlite from "better-sqlite3"
+import * as fs from "fs-extra"
+import { openDB } from "idb/with-async-ittr"
 import { Level } from "level"
+import md5 from "md5"
+import { after, before, describe, it } from "mocha"
 import * as path from "path"
 import { asyncDatabaseTestSuite } from "../database/async/asyncDatabaseTestSuite"
 import { AsyncTupleDatabaseClient } from "../database/async/AsyncTupleDatabaseClient"
+import { AsyncTupleStorageApi } from "../database/async/asyncTypes"
 import { databaseTestSuite } from "../database/sync/databaseTestSuite"
+import { TupleStorageApi } from "../database/sync/types"
 import { TupleDatabase } from "../database/sync/TupleDatabase"
+import { encodeTuple } from "../helpers/codec"
+import { compare } from "../helpers/compare"
+import { randomId } from "../helpers/randomId"
+import { registerValueType } from "../helpers/valueTypes"
 import { AsyncTupleDatabase, TupleDatabaseClient } from "../main"
-import { FileTupleStorage } from "./FileTupleStorage"
+import { assert, assertEqual } from "../test/assertHelpers"
+import { BrowserTupleStorage } from "./BrowserTupleStorage"
+import { BTreeTupleStorage } from "./BTreeTupleStorage"
+import { DiskBTreeTupleStorage } from "./DiskBTreeTupleStorage"
+import { CorruptFileError, FileTupleStorage } from "./FileTupleStorage"
 import { IndexedDbTupleStorage } from "./IndexedDbTupleStorage"
 import { InMemoryTupleStorage } from "./InMemoryTupleStorage"
 import { LevelTupleStorage } from "./LevelTupleStorage"
 import { SQLiteTupleStorage } from "./SQLiteTupleStorage"
+import { WriteOps } from "./types"
 
 const tmpDir = path.resolve(__dirname, "/../../tmp")
 
@@ -20,6 +35,12 @@ databaseTestSuite(
 	false
 )
 
+databaseTestSuite(
+	"TupleDatabaseClient(TupleDatabase(BTreeTupleStorage))",
+	() => new TupleDatabaseClient(new TupleDatabase(new BTreeTupleStorage())),
+	false
+)
+
 databaseTestSuite(
 	"TupleDatabaseClient(TupleDatabase(FileTupleStorage))",
 	(id) =>
@@ -28,6 +49,19 @@ databaseTestSuite(
 		)
 )
 
+databaseTestSuite(
+	"TupleDatabaseClient(TupleDatabase(FileTupleStorage({appendOnly: true})))",
+	(id) =>
+		new TupleDatabaseClient(
+			new TupleDatabase(
+				new FileTupleStorage(path.join(tmpDir, id), {
+					appendOnly: true,
+					compactAfter: 3,
+				})
+			)
+		)
+)
+
 databaseTestSuite(
 	"TupleDatabaseClient(TupleDatabase(SQLiteTupleStorage))",
 	(id) =>
@@ -38,6 +72,18 @@ databaseTestSuite(
 		)
 )
 
+databaseTestSuite(
+	"TupleDatabaseClient(TupleDatabase(SQLiteTupleStorage({codec: binary})))",
+	(id) =>
+		new TupleDatabaseClient(
+			new TupleDatabase(
+				new SQLiteTupleStorage(sqlite(path.join(tmpDir, id + ".db")), {
+					codec: "binary",
+				})
+			)
+		)
+)
+
 asyncDatabaseTestSuite(
 	"AsyncTupleDatabaseClient(TupleDatabase(InMemoryTupleStorage))",
 	() =>
@@ -54,6 +100,15 @@ asyncDatabaseTestSuite(
 	false
 )
 
+asyncDatabaseTestSuite(
+	"AsyncTupleDatabaseClient(AsyncTupleDatabase(BTreeTupleStorage))",
+	() =>
+		new AsyncTupleDatabaseClient(
+			new AsyncTupleDatabase(new BTreeTupleStorage())
+		),
+	false
+)
+
 asyncDatabaseTestSuite(
 	"AsyncTupleDatabaseClient(AsyncTupleDatabase(LevelTupleStorage))",
 	(id) =>
@@ -65,6 +120,30 @@ asyncDatabaseTestSuite(
 	true
 )
 
+asyncDatabaseTestSuite(
+	"AsyncTupleDatabaseClient(AsyncTupleDatabase(LevelTupleStorage({codec: binary})))",
+	(id) =>
+		new AsyncTupleDatabaseClient(
+			new AsyncTupleDatabase(
+				new LevelTupleStorage(new Level(path.join(tmpDir, id + ".db")), {
+					codec: "binary",
+				})
+			)
+		),
+	true
+)
+
+asyncDatabaseTestSuite(
+	"AsyncTupleDatabaseClient(AsyncTupleDatabase(DiskBTreeTupleStorage))",
+	(id) =>
+		new AsyncTupleDatabaseClient(
+			new AsyncTupleDatabase(
+				new DiskBTreeTupleStorage(path.join(tmpDir, id + ".btree"))
+			)
+		),
+	true
+)
+
 require("fake-indexeddb/auto")
 asyncDatabaseTestSuite(
 	"AsyncTupleDatabaseClient(AsyncTupleDatabase(IndexedDbTupleStorage))",
@@ -75,6 +154,15 @@ asyncDatabaseTestSuite(
 	true
 )
 
+asyncDatabaseTestSuite(
+	"AsyncTupleDatabaseClient(AsyncTupleDatabase(IndexedDbTupleStorage({codec: binary})))",
+	(id) =>
+		new AsyncTupleDatabaseClient(
+			new AsyncTupleDatabase(new IndexedDbTupleStorage(id, { codec: "binary" }))
+		),
+	true
+)
+
 // Test that the entire test suite works within a subspace.
 asyncDatabaseTestSuite(
 	"Subspace: AsyncTupleDatabaseClient(AsyncTupleDatabase(InMemoryTupleStorage))",
@@ -97,3 +185,451 @@ databaseTestSuite(
 	},
 	false
 )
+
+describe("FileTupleStorage", () => {
+	it("appends commits to the log and replays them", () => {
+		const dbPath = path.join(tmpDir, randomId())
+		const storage = new FileTupleStorage(dbPath, { appendOnly: true })
+		storage.commit({ set: [{ key: ["a"], value: 1 }] })
+		storage.commit({ set: [{ key: ["b"], value: 2 }], remove: [["a"]] })
+
+		assertEqual(fs.existsSync(dbPath + ".txt"), false)
+		assertEqual(fs.readFileSync(dbPath + ".log", "utf8").split("\n").length, 3)
+
+		const reopened = new FileTupleStorage(dbPath, { appendOnly: true })
+		assertEqual(reopened.scan(), [{ key: ["b"], value: 2 }])
+	})
+
+	it("compacts the log into the database file", () => {
+		const dbPath = path.join(tmpDir, randomId())
+		const storage = new FileTupleStorage(dbPath, {
+			appendOnly: true,
+			compactAfter: 2,
+		})
+		storage.commit({ set: [{ key: ["a"], value: 1 }] })
+		storage.commit({ set: [{ key: ["b"], value: 2 }] })
+
+		assertEqual(fs.existsSync(dbPath + ".log"), false)
+		storage.commit({ set: [{ key: ["a"], value: 3 }] })
+
+		const reopened = new FileTupleStorage(dbPath)
+		assertEqual(reopened.scan(), [
+			{ key: ["a"], value: 3 },
+			{ key: ["b"], value: 2 },
+		])
+		// Without appendOnly, the log is compacted as soon as it is replayed.
+		assertEqual(fs.existsSync(dbPath + ".log"), false)
+	})
+
+	it("detects a damaged database file", () => {
+		const dbPath = path.join(tmpDir, randomId())
+		const storage = new FileTupleStorage(dbPath)
+		storage.commit({
+			set: [
+				{ key: ["a"], value: 1 },
+				{ key: ["b"], value: 2 },
+			],
+		})
+
+		// Simulate a crash halfway through writing the last line.
+		const contents = fs.readFileSync(dbPath + ".txt", "utf8")
+		fs.writeFileSync(dbPath + ".txt", contents.slice(0, -5))
+
+		assert.throws(() => new FileTupleStorage(dbPath), CorruptFileError)
+
+		const repaired = new FileTupleStorage(dbPath, { recovery: "repair" })
+		assertEqual(repaired.repairs.length, 1)
+		assertEqual(repaired.scan(), [{ key: ["a"], value: 1 }])
+		const { backupPath } = repaired.repairs[0]
+		assertEqual(fs.readFileSync(backupPath!, "utf8"), contents.slice(0, -5))
+
+		// The salvaged data was persisted.
+		assertEqual(new FileTupleStorage(dbPath).scan(), [{ key: ["a"], value: 1 }])
+	})
+
+	it("reads database files without a header", () => {
+		const dbPath = path.join(tmpDir, randomId())
+		fs.writeFileSync(dbPath + ".txt", `{"key":["a"],"value":1}\n[["b"],2]`)
+		assertEqual(new FileTupleStorage(dbPath).scan(), [
+			{ key: ["a"], value: 1 },
+			{ key: ["b"], value: 2 },
+		])
+	})
+
+	it("reads files from before custom value types as plain JSON", () => {
+		const dbPath = path.join(tmpDir, randomId())
+		const body = [
+			`{"key":["a"],"value":{"$set":1}}`,
+			`{"key":["b"],"value":{"$descending":2}}`,
+		].join("\n")
+		const header = { version: 1, checksum: md5(body) }
+		fs.writeFileSync(dbPath + ".txt", JSON.stringify(header) + "\n" + body)
+		fs.writeFileSync(
+			dbPath + ".log",
+			`{"set":[{"key":["c"],"value":{"$x":3}}]}\n`
+		)
+
+		const expected = [
+			{ key: ["a"], value: { $set: 1 } },
+			{ key: ["b"], value: { $descending: 2 } },
+			{ key: ["c"], value: { $x: 3 } },
+		]
+		const storage = new FileTupleStorage(dbPath, { appendOnly: true })
+		assertEqual(storage.scan(), expected)
+
+		// The file was upgraded so new records are in the same format.
+		storage.commit({ set: [{ key: ["d"], value: { $y: 4 } }] })
+		assertEqual(new FileTupleStorage(dbPath).scan(), [
+			...expected,
+			{ key: ["d"], value: { $y: 4 } },
+		])
+	})
+
+	it("ignores a partially written log record", () => {
+		const dbPath = path.join(tmpDir, randomId())
+		const storage = new FileTupleStorage(dbPath, { appendOnly: true })
+		storage.commit({ set: [{ key: ["a"], value: 1 }] })
+		fs.appendFileSync(dbPath + ".log", `{"set":[{"key":["b"]`)
+
+		const reopened = new FileTupleStorage(dbPath, { appendOnly: true })
+		assertEqual(reopened.scan(), [{ key: ["a"], value: 1 }])
+
+		// New records are appended after the last complete record.
+		reopened.commit({ set: [{ key: ["c"], value: 3 }] })
+		assertEqual(new FileTupleStorage(dbPath, { appendOnly: true }).scan(), [
+			{ key: ["a"], value: 1 },
+			{ key: ["c"], value: 3 },
+		])
+	})
+
+	it("detects a damaged log record", () => {
+		const dbPath = path.join(tmpDir, randomId())
+		const storage = new FileTupleStorage(dbPath, { appendOnly: true })
+		storage.commit({ set: [{ key: ["a"], value: 1 }] })
+		fs.appendFileSync(dbPath + ".log", `garbage\n`)
+		storage.commit({ set: [{ key: ["b"], value: 2 }] })
+
+		assert.throws(
+			() => new FileTupleStorage(dbPath, { appendOnly: true }),
+			CorruptFileError
+		)
+
+		const repaired = new FileTupleStorage(dbPath, {
+			appendOnly: true,
+			recovery: "repair",
+		})
+		assertEqual(repaired.scan(), [{ key: ["a"], value: 1 }])
+	})
+})
+
+describe("DiskBTreeTupleStorage", () => {
+	// Small pages so that nodes are split, merged, and overflow.
+	const options = { pageSize: 256, cacheSize: 4 }
+
+	it("matches the in-memory storage after random writes", async () => {
+		const filePath = path.join(tmpDir, randomId() + ".btree")
+		const storage = new DiskBTreeTupleStorage(filePath, options)
+		const expected = new BTreeTupleStorage()
+
+		for (let i = 0; i < 50; i++) {
+			const writes: WriteOps = { set: [], remove: [] }
+			for (let j = 0; j < 20; j++) {
+				const key = ["item", Math.floor(Math.random() * 300)]
+				if (Math.random() < 0.6) writes.set!.push({ key, value: { i, j } })
+				else writes.remove!.push(key)
+			}
+			await storage.commit(writes)
+			expected.commit(writes)
+		}
+
+		assertEqual(await storage.scan(), expected.scan())
+		for (let i = 0; i < 50; i++) {
+			const [a, b] = [Math.random() * 300, Math.random() * 300].sort(
+				(x, y) => x - y
+			)
+			const args = {
+				gt: ["item", a],
+				lte: ["item", b],
+				limit: Math.random() < 0.5 ? 10 : undefined,
+				reverse: Math.random() < 0.5,
+			}
+			assertEqual(await storage.scan(args), expected.scan(args))
+		}
+		await storage.close()
+
+		const reopened = new DiskBTreeTupleStorage(filePath, options)
+		assertEqual(await reopened.scan(), expected.scan())
+		await reopened.close()
+	})
+
+	it("stores values larger than a page", async () => {
+		const filePath = path.join(tmpDir, randomId() + ".btree")
+		const storage = new DiskBTreeTupleStorage(filePath, options)
+		const value = "x".repeat(2000)
+		await storage.commit({ set: [{ key: ["big"], value }] })
+		await storage.close()
+
+		const reopened = new DiskBTreeTupleStorage(filePath, options)
+		assertEqual(await reopened.scan(), [{ key: ["big"], value }])
+		await reopened.close()
+	})
+
+	it("reuses free pages", async () => {
+		const filePath = path.join(tmpDir, randomId() + ".btree")
+		const storage = new DiskBTreeTupleStorage(filePath, options)
+		const keys = Array.from({ length: 200 }, (_, i) => ["item", i])
+
+		await storage.commit({ set: keys.map((key) => ({ key, value: null })) })
+		await storage.commit({ remove: keys })
+		const size = fs.statSync(filePath).size
+
+		await storage.commit({ set: keys.map((key) => ({ key, value: null })) })
+		assertEqual(fs.statSync(filePath).size, size)
+		await storage.close()
+	})
+
+	it("rolls back a commit that fails part way through", async () => {
+		const filePath = path.join(tmpDir, randomId() + ".btree")
+		const storage = new DiskBTreeTupleStorage(filePath, options)
+		const keys = Array.from({ length: 50 }, (_, i) => ["item", i])
+		await storage.commit({ set: keys.map((key) => ({ key, value: 1 })) })
+
+		// Fail after some of the pages have been written to the database file.
+		const { pager } = await (storage as any).tree
+		const flushPage = pager.flushPage
+		let count = 0
+		pager.flushPage = function (...args: any[]) {
+			if (count++ === 3) throw new Error("Disk is full.")
+			return flushPage.apply(this, args)
+		}
+
+		await assert.rejects(() =>
+			storage.commit({ set: keys.map((key) => ({ key, value: 2 })) })
+		)
+		pager.flushPage = flushPage
+
+		const expected = keys.map((key) => ({ key, value: 1 }))
+		assertEqual(await storage.scan(), expected)
+		await storage.close()
+
+		const reopened = new DiskBTreeTupleStorage(filePath, options)
+		assertEqual(await reopened.scan(), expected)
+		await reopened.close()
+	})
+
+	it("ignores an incomplete journal", async () => {
+		const filePath = path.join(tmpDir, randomId() + ".btree")
+		const storage = new DiskBTreeTupleStorage(filePath, options)
+		await storage.commit({ set: [{ key: ["a"], value: 1 }] })
+		await storage.close()
+
+		fs.writeFileSync(filePath + "-journal", "garbage")
+
+		const reopened = new DiskBTreeTupleStorage(filePath, options)
+		assertEqual(await reopened.scan(), [{ key: ["a"], value: 1 }])
+		await reopened.close()
+		assertEqual(fs.existsSync(filePath + "-journal"), false)
+	})
+})
+
+describe("SQLiteTupleStorage", () => {
+	it("reads tables from before custom value types as plain JSON", () => {
+		const dbPath = path.join(tmpDir, randomId() + ".db")
+		const db = sqlite(dbPath)
+		db.prepare(`create table data ( key text primary key, value text)`).run()
+		db.prepare(`insert into data values ($key, $value)`).run({
+			key: encodeTuple(["a"]),
+			value: `{"$set":1}`,
+		})
+		db.prepare(`insert into data values ($key, $value)`).run({
+			key: encodeTuple(["b"]),
+			value: `{"$descending":2}`,
+		})
+
+		const expected = [
+			{ key: ["a"], value: { $set: 1 } },
+			{ key: ["b"], value: { $descending: 2 } },
+		]
+		assertEqual(new SQLiteTupleStorage(db).scan(), expected)
+		db.close()
+
+		// The values were upgraded once.
+		assertEqual(new SQLiteTupleStorage(sqlite(dbPath)).scan(), expected)
+	})
+})
+
+describe("BrowserTupleStorage", () => {
+	before(() => {
+		const items = new Map<string, string>()
+		;(global as any).localStorage = {
+			getItem: (key: string) => items.get(key) ?? null,
+			setItem: (key: string, value: string) => items.set(key, value),
+		}
+	})
+	after(() => {
+		delete (global as any).localStorage
+	})
+
+	it("reads data from before custom value types as plain JSON", () => {
+		const key = randomId()
+		localStorage.setItem(key, `[{"key":["a"],"value":{"$descending":1}}]`)
+
+		const expected = [{ key: ["a"], value: { $descending: 1 } }]
+		const storage = new BrowserTupleStorage(key)
+		assertEqual(storage.scan(), expected)
+
+		storage.commit({ set: [{ key: ["b"], value: { $set: 2 } }] })
+		assertEqual(new BrowserTupleStorage(key).scan(), [
+			...expected,
+			{ key: ["b"], value: { $set: 2 } },
+		])
+	})
+})
+
+describe("IndexedDbTupleStorage", () => {
+	it("upgrades values stored with structured clone", async () => {
+		const dbName = randomId()
+		const db = await openDB(dbName, 1, {
+			upgrade(db) {
+				db.createObjectStore("tupledb")
+			},
+		})
+		await db.put("tupledb", { $set: 1, list: ["a"] }, encodeTuple(["a"]))
+		db.close()
+
+		const storage = new IndexedDbTupleStorage(dbName)
+		assertEqual(await storage.scan(), [
+			{ key: ["a"], value: { $set: 1, list: ["a"] } },
+		])
+		await storage.close()
+	})
+})
+
+describe("LevelTupleStorage", () => {
+	it("clears in the same batch as the rest of the commit", async () => {
+		const storage = new LevelTupleStorage(
+			new Level(path.join(tmpDir, randomId() + ".db"))
+		)
+		await storage.commit({ set: [{ key: ["a"], value: 1 }] })
+
+		// The set fails to encode so the clear can't happen either.
+		await assert.rejects(() =>
+			storage.commit({
+				clear: [{ gte: ["a"], lte: ["a"] }],
+				set: [{ key: ["b"], value: new Map() }],
+			})
+		)
+		assertEqual(await storage.scan(), [{ key: ["a"], value: 1 }])
+
+		await storage.commit({
+			clear: [{ gte: ["a"], lte: ["b"] }],
+			set: [{ key: ["b"], value: 2 }],
+		})
+		assertEqual(await storage.scan(), [{ key: ["b"], value: 2 }])
+		await storage.close()
+	})
+})
+
+describe("Custom value types", () => {
+	const storages: Array<
+		[string, () => TupleStorageApi | AsyncTupleStorageApi]
+	> = [
+		["InMemoryTupleStorage", () => new InMemoryTupleStorage()],
+		["BTreeTupleStorage", () => new BTreeTupleStorage()],
+		[
+			"FileTupleStorage",
+			() => new FileTupleStorage(path.join(tmpDir, randomId())),
+		],
+		[
+			"FileTupleStorage({appendOnly: true})",
+			() =>
+				new FileTupleStorage(path.join(tmpDir, randomId()), {
+					appendOnly: true,
+				}),
+		],
+		[
+			"SQLiteTupleStorage",
+			() =>
+				new SQLiteTupleStorage(sqlite(path.join(tmpDir, randomId() + ".db"))),
+		],
+		[
+			"SQLiteTupleStorage({codec: binary})",
+			() =>
+				new SQLiteTupleStorage(sqlite(path.join(tmpDir, randomId() + ".db")), {
+					codec: "binary",
+				}),
+		],
+		[
+			"LevelTupleStorage",
+			() =>
+				new LevelTupleStorage(new Level(path.join(tmpDir, randomId() + ".db"))),
+		],
+		[
+			"LevelTupleStorage({codec: binary})",
+			() =>
+				new LevelTupleStorage(
+					new Level(path.join(tmpDir, randomId() + ".db")),
+					{ codec: "binary" }
+				),
+		],
+		[
+			"DiskBTreeTupleStorage",
+			() => new DiskBTreeTupleStorage(path.join(tmpDir, randomId() + ".btree")),
+		],
+		["IndexedDbTupleStorage", () => new IndexedDbTupleStorage(randomId())],
+	]
+
+	// Structured clone keeps a Date but not the class of anything else.
+	class Uuid {
+		constructor(public id: string) {}
+	}
+
+	const unregister: Array<() => void> = []
+	before(() => {
+		unregister.push(
+			registerValueType<Date>({
+				byte: 1,
+				is: (value) => value instanceof Date,
+				encode: (date) => date.getTime(),
+				decode: (time) => new Date(time as number),
+				compare: (a, b) => compare(a.getTime(), b.getTime()),
+			}),
+			registerValueType<Uuid>({
+				byte: 2,
+				is: (value) => value instanceof Uuid,
+				encode: (uuid) => uuid.id,
+				decode: (id) => new Uuid(id as string),
+				compare: (a, b) => compare(a.id, b.id),
+			})
+		)
+	})
+	after(() => unregister.forEach((fn) => fn()))
+
+	for (const [name, createStorage] of storages) {
+		it(name, async () => {
+			const storage = createStorage()
+			const dates = [-1000, 0, 1000, 2000].map((time) => new Date(time))
+			await storage.commit({
+				set: [...dates].reverse().map((date) => ({
+					key: ["date", date],
+					value: { date, id: new Uuid(String(date.getTime())) },
+				})),
+			})
+
+			const result = await storage.scan({
+				gt: ["date", dates[0]],
+				lt: ["date", true],
+			})
+			assertEqual(
+				result,
+				dates.slice(1).map((date) => ({
+					key: ["date", date],
+					value: { date, id: new Uuid(String(date.getTime())) },
+				}))
+			)
+			assert.ok(result[0].key[1] instanceof Date)
+			assert.ok(result[0].value.id instanceof Uuid)
+			await storage.close()
+		})
+	}
+})
@@ -1,3 +1,5 @@
+import { Bounds } from "../helpers/sortedTupleArray"
+
 /*
 
 Just basic JSON data-types. This is a pragmatic decision:
@@ -18,12 +20,38 @@ export type Tuple = Value[]
 
 export type KeyValuePair = { key: Tuple; value: any }
 
+/**
+ * How some storages encode keys. "string" uses helpers/codec and "binary" uses
+ * helpers/binaryCodec, which sorts like compareTuple rather than being
+ * compatible with the FoundationDB tuple layer.
+ */
+export type KeyCodec = "string" | "binary"
+
 export const MIN = null
 export const MAX = true
 
 export type WriteOps<S extends KeyValuePair = KeyValuePair> = {
 	set?: S[]
 	remove?: S["key"][]
+	/** Remove every key within these bounds. Applied before remove and set. */
+	clear?: Bounds[]
+	/** Applied last, against the current value in storage at commit time. */
+	atomic?: AtomicMutation<S>[]
+}
+
+/** See helpers/atomicMutations for how each of these work. */
+export type AtomicOp =
+	| "add"
+	| "min"
+	| "max"
+	| "bitOr"
+	| "appendIfFits"
+	| "setIfAbsent"
+
+export type AtomicMutation<S extends KeyValuePair = KeyValuePair> = {
+	op: AtomicOp
+	key: S["key"]
+	value: S["value"]
 }
 
 export type ScanStorageArgs = {
@@ -13,6 +13,8 @@ import { AsyncTupleDatabase } from "../database/async/AsyncTupleDatabase"
 import { AsyncTupleDatabaseClientApi } from "../database/async/asyncTypes"
 import { transactionalReadWriteAsync } from "../database/async/transactionalReadWriteAsync"
 import { AsyncTupleDatabaseClient, InMemoryTupleStorage } from "../main"
+import { BTreeTupleStorage } from "../storage/BTreeTupleStorage"
+import { DiskBTreeTupleStorage } from "../storage/DiskBTreeTupleStorage"
 import { LevelTupleStorage } from "../storage/LevelTupleStorage"
 import { SQLiteTupleStorage } from "../storage/SQLiteTupleStorage"
 
@@ -158,6 +160,20 @@ async function main() {
 		)
 	)
 
+	await asyncReadRemoveWriteBenchmark(
+		"AsyncTupleDatabase(BTreeTupleStorage))",
+		new AsyncTupleDatabaseClient(
+			new AsyncTupleDatabase(new BTreeTupleStorage())
+		)
+	)
+
+	await asyncReadPerformanceBenchmark(
+		"AsyncTupleDatabase(BTreeTupleStorage))",
+		new AsyncTupleDatabaseClient(
+			new AsyncTupleDatabase(new BTreeTupleStorage())
+		)
+	)
+
 	await asyncReadRemoveWriteBenchmark(
 		"AsyncTupleDatabase(SQLiteTupleStorage))",
 		new AsyncTupleDatabaseClient(
@@ -167,6 +183,15 @@ async function main() {
 		)
 	)
 
+	await asyncReadRemoveWriteBenchmark(
+		"AsyncTupleDatabase(DiskBTreeTupleStorage))",
+		new AsyncTupleDatabaseClient(
+			new AsyncTupleDatabase(
+				new DiskBTreeTupleStorage(path.join(tmpDir, "benchmark-btree.db"))
+			)
+		)
+	)
+
 	await asyncReadRemoveWriteBenchmark(
 		"AsyncTupleDatabase(LevelTupleStorage))",
 		new AsyncTupleDatabaseClient(
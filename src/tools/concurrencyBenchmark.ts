@@ -0,0 +1,72 @@
+/*
+
+	./node_modules/.bin/ts-node src/tools/concurrencyBenchmark.ts
+
+*/
+
+import { range } from "lodash"
+import { ConcurrencyLog } from "../database/ConcurrencyLog"
+import { randomId } from "../helpers/randomId"
+import { Bounds } from "../helpers/sortedTupleArray"
+
+const transactions = 10000
+const readsPerTransaction = 5
+const writesPerTransaction = 5
+
+function randomTuple() {
+	return ["score", Math.random()]
+}
+
+function randomBounds(): Bounds {
+	const start = Math.random()
+	return { gte: ["score", start], lt: ["score", start + 0.0001] }
+}
+
+function timeIt(label: string, fn: () => void) {
+	const start = performance.now()
+	fn()
+	const end = performance.now()
+	console.log(label, end - start)
+}
+
+/** Keeps a number of transactions open at once, committing the oldest. */
+function readWriteCommit(concurrency: number, snapshot: boolean) {
+	const log = new ConcurrencyLog()
+	const open: string[] = []
+	let conflicts = 0
+
+	for (const i of range(transactions)) {
+		const txId = randomId()
+		if (snapshot) log.begin(txId)
+		for (const j of range(readsPerTransaction)) {
+			log.read(txId, randomBounds())
+		}
+		open.push(txId)
+
+		if (open.length < concurrency) continue
+		const committing = open.shift()!
+		try {
+			log.commit(committing)
+		} catch (error) {
+			conflicts += 1
+			continue
+		}
+		for (const j of range(writesPerTransaction)) {
+			log.write(committing, randomTuple())
+		}
+	}
+	return conflicts
+}
+
+function main() {
+	for (const concurrency of [10, 100, 1000]) {
+		for (const snapshot of [false, true]) {
+			const label = `ConcurrencyLog(concurrency: ${concurrency}, snapshot: ${snapshot})`
+			timeIt(label + ":readWriteCommit", () => {
+				readWriteCommit(concurrency, snapshot)
+			})
+		}
+	}
+}
+
+main()
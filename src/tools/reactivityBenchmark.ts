@@ -0,0 +1,64 @@
+/*
+
+	./node_modules/.bin/ts-node src/tools/reactivityBenchmark.ts
+
+*/
+
+import { range } from "lodash"
+import { ReactivityTracker } from "../database/sync/ReactivityTracker"
+import { Bounds } from "../helpers/sortedTupleArray"
+import { Tuple } from "../storage/types"
+
+const writes = 10000
+const tuplesPerWrite = 5
+const clearsPerWrite = 1
+
+function randomTuple(): Tuple {
+	return ["score", Math.random()]
+}
+
+function randomBounds(): Bounds {
+	const start = Math.random()
+	return { gte: ["score", start], lt: ["score", start + 0.0001] }
+}
+
+function timeIt(label: string, fn: () => void) {
+	const start = performance.now()
+	fn()
+	const end = performance.now()
+	console.log(label, end - start)
+}
+
+function subscribe(tracker: ReactivityTracker, subscriptions: number) {
+	for (const i of range(subscriptions)) {
+		tracker.subscribe(randomBounds(), () => {})
+	}
+}
+
+function computeSets(tracker: ReactivityTracker) {
+	for (const i of range(writes)) {
+		tracker.computeReactivityEmits({
+			set: range(tuplesPerWrite).map(() => ({ key: randomTuple(), value: i })),
+		})
+	}
+}
+
+function computeClears(tracker: ReactivityTracker) {
+	for (const i of range(writes)) {
+		tracker.computeReactivityEmits({
+			clear: range(clearsPerWrite).map(() => randomBounds()),
+		})
+	}
+}
+
+function main() {
+	for (const subscriptions of [1000, 10000, 100000]) {
+		const tracker = new ReactivityTracker()
+		const label = `ReactivityTracker(subscriptions: ${subscriptions})`
+		timeIt(label + ":subscribe", () => subscribe(tracker, subscriptions))
+		timeIt(label + ":computeSets", () => computeSets(tracker))
+		timeIt(label + ":computeClears", () => computeClears(tracker))
+	}
+}
+
+main()